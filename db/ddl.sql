@@ -15,11 +15,27 @@ CREATE TABLE touring_index_daily (
     score INTEGER NOT NULL,
     weather_factors_json TEXT NOT NULL,
     weather_raw_json TEXT NOT NULL,
+    confidence_json TEXT, -- NULL for rows calculated before confidence was tracked
+    partial INTEGER NOT NULL DEFAULT 0, -- 1 when scored without some factors
+    rules_version INTEGER, -- SCORING_RULES_VERSION; NULL for rows calculated before rules were versioned
     calculated_at DATETIME NOT NULL DEFAULT (datetime('now')),
     FOREIGN KEY (prefecture_id) REFERENCES prefectures(id),
     UNIQUE(prefecture_id, date)
 );
 
+-- Score Climatology: each prefecture's per-month score distribution, rebuilt
+-- from touring_index_daily by the climatology cron. Powers score percentiles.
+CREATE TABLE score_climatology (
+    prefecture_id INTEGER NOT NULL,
+    month INTEGER NOT NULL, -- 1-12
+    rules_version INTEGER NOT NULL, -- SCORING_RULES_VERSION of the scores counted
+    sample_count INTEGER NOT NULL,
+    histogram_json TEXT NOT NULL, -- 101 day counts, indexed by rounded score
+    updated_at DATETIME NOT NULL DEFAULT (datetime('now')),
+    PRIMARY KEY (prefecture_id, month),
+    FOREIGN KEY (prefecture_id) REFERENCES prefectures(id)
+);
+
 -- Scheduled Run Log: one row per cron-driven batch calculation attempt.
 -- Powers the /health/ready coverage and freshness signal.
 CREATE TABLE scheduled_run_log (
@@ -30,6 +46,7 @@ CREATE TABLE scheduled_run_log (
     status TEXT NOT NULL,
     expected_count INTEGER NOT NULL,
     committed_count INTEGER NOT NULL,
+    partial_score_count INTEGER NOT NULL DEFAULT 0, -- committed rows scored partially
     failure_count INTEGER NOT NULL DEFAULT 0,
     duration_ms INTEGER NOT NULL,
     error_summary TEXT
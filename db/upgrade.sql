@@ -0,0 +1,27 @@
+-- Upgrade for databases created from an earlier db/ddl.sql. Each statement
+-- brings one change of ddl.sql to an existing table; run the ones for
+-- columns and tables the database does not have yet (SQLite has no
+-- ADD COLUMN IF NOT EXISTS, so re-running an applied ALTER fails).
+-- New databases only need ddl.sql.
+
+-- Forecast confidence of each stored score
+ALTER TABLE touring_index_daily ADD COLUMN confidence_json TEXT; -- NULL for rows calculated before confidence was tracked
+
+-- Partial scores
+ALTER TABLE touring_index_daily ADD COLUMN partial INTEGER NOT NULL DEFAULT 0; -- 1 when scored without some factors
+ALTER TABLE scheduled_run_log ADD COLUMN partial_score_count INTEGER NOT NULL DEFAULT 0; -- committed rows scored partially
+
+-- Scoring rules version of each stored score
+ALTER TABLE touring_index_daily ADD COLUMN rules_version INTEGER; -- SCORING_RULES_VERSION; NULL for rows calculated before rules were versioned
+
+-- Score Climatology: each prefecture's per-month score distribution
+CREATE TABLE IF NOT EXISTS score_climatology (
+    prefecture_id INTEGER NOT NULL,
+    month INTEGER NOT NULL, -- 1-12
+    rules_version INTEGER NOT NULL, -- SCORING_RULES_VERSION of the scores counted
+    sample_count INTEGER NOT NULL,
+    histogram_json TEXT NOT NULL, -- 101 day counts, indexed by rounded score
+    updated_at DATETIME NOT NULL DEFAULT (datetime('now')),
+    PRIMARY KEY (prefecture_id, month),
+    FOREIGN KEY (prefecture_id) REFERENCES prefectures(id)
+);
@@ -13,12 +13,51 @@ export const APP_CONFIG = {
   // furthest valid forecast date is today + (MAX_FORECAST_DAYS - 1).
   MAX_FORECAST_DAYS: 14,
 
-  // WeatherAPI request policy. `MAX_ATTEMPTS` includes the initial request.
+  // Weather provider request policy (WeatherAPI and Open-Meteo).
+  // `MAX_ATTEMPTS` includes the initial request. Callers coalesced onto an
+  // identical in-flight request share its attempts.
   WEATHER_API_REQUEST_TIMEOUT_MS: 10_000,
   WEATHER_API_MAX_ATTEMPTS: 3,
 
+  // Per-provider circuit breaker for the failover chain: a provider is
+  // skipped after this many consecutive failed calls, and retried with a
+  // single trial call once the reset timeout has elapsed.
+  WEATHER_PROVIDER_FAILURE_THRESHOLD: 3,
+  WEATHER_PROVIDER_RESET_TIMEOUT_MS: 60_000,
+
+  // KV weather cache for live lookups (when the WEATHER_CACHE binding is
+  // set). Coordinates are rounded to this many decimals in the cache key
+  // (2 decimals is roughly 1 km, finer than the forecast grids). Past hours
+  // no longer change, so they are kept much longer than forecasts.
+  WEATHER_CACHE_COORDINATE_PRECISION: 2,
+  WEATHER_CACHE_FORECAST_TTL_SECONDS: 30 * 60,
+  WEATHER_CACHE_HISTORY_TTL_SECONDS: 7 * 24 * 60 * 60,
+
   // Scheduled batch runs once per 24h (see wrangler.toml crons). Readiness
   // is considered stale after this many hours without a successful run,
   // allowing a grace window beyond one cron cycle for transient delays.
   FRESHNESS_THRESHOLD_HOURS: 26,
+
+  // Default minimum hourly score (inclusive) for an hour to count towards
+  // the best contiguous riding window.
+  RIDING_WINDOW_SCORE_THRESHOLD: 60,
+
+  // Default number of days a trip is shifted earlier and later when looking
+  // for better dates.
+  TRIP_SHIFT_DAYS: 3,
+
+  // Rainfall within this many hours before the scored time counts towards
+  // road wetness (limited to the hours present in the provider response).
+  WET_ROAD_LOOKBACK_HOURS: 12,
+
+  // Rows re-derived per admin recomputation request. Each row is rescored
+  // and written in one D1 batch, so a request stays well inside the
+  // Worker's CPU and subrequest limits; larger backlogs take several calls.
+  RECOMPUTE_DEFAULT_LIMIT: 100,
+  RECOMPUTE_MAX_LIMIT: 500,
+
+  // Cron expression (must match wrangler.toml) that rebuilds the per-month
+  // score distributions instead of running the daily batch. Runs after the
+  // batch so the previous day's final scores are counted.
+  CLIMATOLOGY_REFRESH_CRON: "30 19 * * *",
 } as const;
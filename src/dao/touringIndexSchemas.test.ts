@@ -1,7 +1,10 @@
 import { describe, expect, test } from "bun:test";
+import { APP_CONFIG } from "../constants/appConfig";
 import {
   getTouringIndexHistorySchema,
   getTouringIndexSchema,
+  postRecomputeTouringIndexSchema,
+  postTripTouringIndexSchema,
 } from "./touringIndexSchemas";
 
 describe("touringIndexSchemas", () => {
@@ -31,6 +34,101 @@ describe("touringIndexSchemas", () => {
       expect(result.datetime).toBeUndefined();
     });
 
+    test("should default to metric units and accept the other systems", () => {
+      const coordinates = { lat: "35.6762", lon: "139.6503" };
+
+      expect(getTouringIndexSchema.parse(coordinates).units).toBe("metric");
+      expect(
+        getTouringIndexSchema.parse({ ...coordinates, units: "imperial" })
+          .units,
+      ).toBe("imperial");
+      expect(() =>
+        getTouringIndexSchema.parse({ ...coordinates, units: "kelvin" }),
+      ).toThrow();
+    });
+
+    test("should accept a known scoring profile", () => {
+      const result = getTouringIndexSchema.parse({
+        lat: "35.6762",
+        lon: "139.6503",
+        profile: "touring",
+      });
+
+      expect(result.profile).toBe("touring");
+    });
+
+    test("should reject an unknown scoring profile", () => {
+      expect(() =>
+        getTouringIndexSchema.parse({
+          lat: "35.6762",
+          lon: "139.6503",
+          profile: "racing",
+        }),
+      ).toThrow();
+    });
+
+    test("should parse an optional cruising speed", () => {
+      const result = getTouringIndexSchema.parse({
+        lat: "35.6762",
+        lon: "139.6503",
+        cruisingSpeed: "80",
+      });
+
+      expect(result.cruisingSpeed).toBe(80);
+      expect(
+        getTouringIndexSchema.parse({ lat: "35.6762", lon: "139.6503" })
+          .cruisingSpeed,
+      ).toBeUndefined();
+    });
+
+    test("should parse an optional route elevation", () => {
+      expect(
+        getTouringIndexSchema.parse({
+          lat: "36.7",
+          lon: "138.5",
+          elevation: "1800",
+        }).elevation,
+      ).toBe(1800);
+      expect(() =>
+        getTouringIndexSchema.parse({
+          lat: "36.7",
+          lon: "138.5",
+          elevation: "12000",
+        }),
+      ).toThrow("elevation must be between -500 and 9000");
+    });
+
+    test("should parse allowPartial, defaulting to false", () => {
+      expect(
+        getTouringIndexSchema.parse({
+          lat: "35.6762",
+          lon: "139.6503",
+          allowPartial: "true",
+        }).allowPartial,
+      ).toBe(true);
+      expect(
+        getTouringIndexSchema.parse({ lat: "35.6762", lon: "139.6503" })
+          .allowPartial,
+      ).toBe(false);
+      expect(() =>
+        getTouringIndexSchema.parse({
+          lat: "35.6762",
+          lon: "139.6503",
+          allowPartial: "yes",
+        }),
+      ).toThrow("allowPartial must be true or false");
+    });
+
+    test("should reject a cruising speed out of range", () => {
+      expect(() =>
+        getTouringIndexSchema.parse({
+          lat: "35.6762",
+          lon: "139.6503",
+          cruisingSpeed: "250",
+        }),
+      ).toThrow("cruisingSpeed must be between 0 and 200");
+    });
+
     test("should reject invalid latitude", () => {
       const invalidInput = {
         lat: "invalid",
@@ -244,4 +342,81 @@ describe("touringIndexSchemas", () => {
       ).toThrow("startDate must be a valid date");
     });
   });
+
+  describe("postRecomputeTouringIndexSchema", () => {
+    test("should default to an unbounded range and the default limit", () => {
+      expect(postRecomputeTouringIndexSchema.parse({})).toEqual({
+        limit: APP_CONFIG.RECOMPUTE_DEFAULT_LIMIT,
+      });
+    });
+
+    test("should accept a date range and limit", () => {
+      const result = postRecomputeTouringIndexSchema.parse({
+        startDate: "2024-06-01",
+        endDate: "2024-06-30",
+        limit: 500,
+      });
+      expect(result).toEqual({
+        startDate: "2024-06-01",
+        endDate: "2024-06-30",
+        limit: 500,
+      });
+    });
+
+    test("should reject a limit above the maximum", () => {
+      expect(() =>
+        postRecomputeTouringIndexSchema.parse({ limit: 501 }),
+      ).toThrow("limit must be between 1 and 500");
+    });
+
+    test("should reject malformed or reversed dates", () => {
+      expect(() =>
+        postRecomputeTouringIndexSchema.parse({ startDate: "2024/06/01" }),
+      ).toThrow("startDate must be in YYYY-MM-DD format");
+      expect(() =>
+        postRecomputeTouringIndexSchema.parse({
+          startDate: "2024-06-30",
+          endDate: "2024-06-01",
+        }),
+      ).toThrow("startDate must be before or equal to endDate");
+    });
+  });
+
+  describe("postTripTouringIndexSchema", () => {
+    const legs = [
+      { lat: 35.6762, lon: 139.6503, date: "2025-06-01" },
+      { lat: 36.6513, lon: 138.181, date: "2025-06-02" },
+    ];
+
+    test("should default the shift window and partial scoring", () => {
+      expect(postTripTouringIndexSchema.parse({ legs })).toEqual({
+        legs,
+        shiftDays: APP_CONFIG.TRIP_SHIFT_DAYS,
+        allowPartial: false,
+      });
+    });
+
+    test("should reject an empty or oversized itinerary", () => {
+      expect(() => postTripTouringIndexSchema.parse({ legs: [] })).toThrow(
+        "legs must contain between 1 and 10 entries",
+      );
+      expect(() =>
+        postTripTouringIndexSchema.parse({
+          legs: new Array(11).fill(legs[0]),
+        }),
+      ).toThrow("legs must contain between 1 and 10 entries");
+    });
+
+    test("should reject legs out of date order", () => {
+      expect(() =>
+        postTripTouringIndexSchema.parse({ legs: [...legs].reverse() }),
+      ).toThrow("legs must be ordered by date");
+    });
+
+    test("should reject a shift window beyond the forecast", () => {
+      expect(() =>
+        postTripTouringIndexSchema.parse({ legs, shiftDays: 14 }),
+      ).toThrow("shiftDays must be between 0 and 13");
+    });
+  });
 });
@@ -1,4 +1,69 @@
 import { z } from "zod";
+import { APP_CONFIG } from "../constants/appConfig";
+import { ScoringProfileNameSchema } from "../domain/ScoringProfile";
+import { FactorWeightOverridesSchema } from "../domain/TouringScore";
+import { getJstDateString } from "../utils/dateUtils";
+import { UnitSystemSchema } from "../utils/unitUtils";
+
+const MAX_CRUISING_SPEED_KMH = 200;
+const MIN_ELEVATION_M = -500;
+const MAX_ELEVATION_M = 9000;
+const MAX_TRIP_LEGS = 10;
+
+// Optional cruising speed (km/h) query parameter overriding the profile's
+const cruisingSpeedQuerySchema = z
+  .string()
+  .optional()
+  .transform((val) => {
+    if (!val) return undefined;
+    const num = Number(val);
+    if (Number.isNaN(num) || num < 0 || num > MAX_CRUISING_SPEED_KMH) {
+      throw new Error(
+        `cruisingSpeed must be between 0 and ${MAX_CRUISING_SPEED_KMH}`,
+      );
+    }
+    return num;
+  });
+
+// Optional route elevation (m) query parameter the temperature is corrected to
+const elevationQuerySchema = z
+  .string()
+  .optional()
+  .transform((val) => {
+    if (!val) return undefined;
+    const num = Number(val);
+    if (Number.isNaN(num) || num < MIN_ELEVATION_M || num > MAX_ELEVATION_M) {
+      throw new Error(
+        `elevation must be between ${MIN_ELEVATION_M} and ${MAX_ELEVATION_M}`,
+      );
+    }
+    return num;
+  });
+
+// Route elevation (m) in a request body
+const elevationBodySchema = z
+  .number({ message: "elevation must be a valid number" })
+  .min(
+    MIN_ELEVATION_M,
+    `elevation must be between ${MIN_ELEVATION_M} and ${MAX_ELEVATION_M}`,
+  )
+  .max(
+    MAX_ELEVATION_M,
+    `elevation must be between ${MIN_ELEVATION_M} and ${MAX_ELEVATION_M}`,
+  )
+  .optional();
+
+// Optional opt-in to partial scoring ("true" or "false", default false)
+const allowPartialQuerySchema = z
+  .string()
+  .optional()
+  .transform((val) => {
+    if (!val) return false;
+    if (val !== "true" && val !== "false") {
+      throw new Error("allowPartial must be true or false");
+    }
+    return val === "true";
+  });
 
 // Validation schema for touring index query parameters
 export const getTouringIndexSchema = z.object({
@@ -17,6 +82,11 @@ export const getTouringIndexSchema = z.object({
     return num;
   }),
   datetime: z.string().optional(),
+  profile: ScoringProfileNameSchema.optional(),
+  cruisingSpeed: cruisingSpeedQuerySchema,
+  elevation: elevationQuerySchema,
+  allowPartial: allowPartialQuerySchema,
+  units: UnitSystemSchema.optional().default("metric"),
 });
 
 // Validation schema for touring index history query parameters
@@ -104,10 +174,197 @@ export const getTouringIndexHistorySchema = z.object({
       }
       return num;
     }),
+  profile: ScoringProfileNameSchema.optional(),
+});
+
+// Validation schema for hourly touring index query parameters
+export const getHourlyTouringIndexSchema = z.object({
+  lat: z.string().transform((val) => {
+    const num = Number(val);
+    if (Number.isNaN(num)) throw new Error("lat must be a valid number");
+    if (num < -90 || num > 90)
+      throw new Error("lat must be between -90 and 90");
+    return num;
+  }),
+  lon: z.string().transform((val) => {
+    const num = Number(val);
+    if (Number.isNaN(num)) throw new Error("lon must be a valid number");
+    if (num < -180 || num > 180)
+      throw new Error("lon must be between -180 and 180");
+    return num;
+  }),
+  date: z
+    .string()
+    .optional()
+    .transform((val) => {
+      // Default to today in Asia/Tokyo
+      if (!val) return getJstDateString();
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(val)) {
+        throw new Error("date must be in YYYY-MM-DD format");
+      }
+      return val;
+    }),
+  profile: ScoringProfileNameSchema.optional(),
+  threshold: z
+    .string()
+    .optional()
+    .transform((val) => {
+      if (!val) return APP_CONFIG.RIDING_WINDOW_SCORE_THRESHOLD;
+      const num = Number(val);
+      if (Number.isNaN(num) || num < 0 || num > 100) {
+        throw new Error("threshold must be between 0 and 100");
+      }
+      return num;
+    }),
+  cruisingSpeed: cruisingSpeedQuerySchema,
+  elevation: elevationQuerySchema,
+  allowPartial: allowPartialQuerySchema,
+});
+
+// Validation schema for custom-weight touring index request body
+export const postCustomTouringIndexSchema = z.object({
+  lat: z
+    .number({ message: "lat must be a valid number" })
+    .min(-90, "lat must be between -90 and 90")
+    .max(90, "lat must be between -90 and 90"),
+  lon: z
+    .number({ message: "lon must be a valid number" })
+    .min(-180, "lon must be between -180 and 180")
+    .max(180, "lon must be between -180 and 180"),
+  datetime: z.string().optional(),
+  profile: ScoringProfileNameSchema.optional(),
+  cruisingSpeed: z
+    .number({ message: "cruisingSpeed must be a valid number" })
+    .min(0, `cruisingSpeed must be between 0 and ${MAX_CRUISING_SPEED_KMH}`)
+    .max(
+      MAX_CRUISING_SPEED_KMH,
+      `cruisingSpeed must be between 0 and ${MAX_CRUISING_SPEED_KMH}`,
+    )
+    .optional(),
+  elevation: elevationBodySchema,
+  weights: FactorWeightOverridesSchema,
+  allowPartial: z
+    .boolean({ message: "allowPartial must be a boolean" })
+    .optional()
+    .default(false),
+});
+
+// Validation schema for multi-day trip request body
+export const postTripTouringIndexSchema = z.object({
+  legs: z
+    .array(
+      z.object({
+        lat: z
+          .number({ message: "lat must be a valid number" })
+          .min(-90, "lat must be between -90 and 90")
+          .max(90, "lat must be between -90 and 90"),
+        lon: z
+          .number({ message: "lon must be a valid number" })
+          .min(-180, "lon must be between -180 and 180")
+          .max(180, "lon must be between -180 and 180"),
+        date: z
+          .string({ message: "date must be in YYYY-MM-DD format" })
+          .regex(/^\d{4}-\d{2}-\d{2}$/, "date must be in YYYY-MM-DD format"),
+        elevation: elevationBodySchema,
+      }),
+      { message: "legs must be an array" },
+    )
+    .min(1, `legs must contain between 1 and ${MAX_TRIP_LEGS} entries`)
+    .max(
+      MAX_TRIP_LEGS,
+      `legs must contain between 1 and ${MAX_TRIP_LEGS} entries`,
+    )
+    .refine(
+      (legs) => legs.every((leg, i) => i === 0 || legs[i - 1].date <= leg.date),
+      { message: "legs must be ordered by date" },
+    ),
+  profile: ScoringProfileNameSchema.optional(),
+  cruisingSpeed: z
+    .number({ message: "cruisingSpeed must be a valid number" })
+    .min(0, `cruisingSpeed must be between 0 and ${MAX_CRUISING_SPEED_KMH}`)
+    .max(
+      MAX_CRUISING_SPEED_KMH,
+      `cruisingSpeed must be between 0 and ${MAX_CRUISING_SPEED_KMH}`,
+    )
+    .optional(),
+  shiftDays: z
+    .number({ message: "shiftDays must be a valid number" })
+    .int("shiftDays must be an integer")
+    .min(
+      0,
+      `shiftDays must be between 0 and ${APP_CONFIG.MAX_FORECAST_DAYS - 1}`,
+    )
+    .max(
+      APP_CONFIG.MAX_FORECAST_DAYS - 1,
+      `shiftDays must be between 0 and ${APP_CONFIG.MAX_FORECAST_DAYS - 1}`,
+    )
+    .optional()
+    .default(APP_CONFIG.TRIP_SHIFT_DAYS),
+  allowPartial: z
+    .boolean({ message: "allowPartial must be a boolean" })
+    .optional()
+    .default(false),
 });
 
+// Optional YYYY-MM-DD bound of an admin recomputation range
+const recomputeDateSchema = (field: string) =>
+  z
+    .string({ message: `${field} must be in YYYY-MM-DD format` })
+    .regex(/^\d{4}-\d{2}-\d{2}$/, `${field} must be in YYYY-MM-DD format`)
+    .optional();
+
+// Validation schema for the admin recomputation request body
+export const postRecomputeTouringIndexSchema = z
+  .object({
+    startDate: recomputeDateSchema("startDate"),
+    endDate: recomputeDateSchema("endDate"),
+    limit: z
+      .number({ message: "limit must be a valid number" })
+      .int("limit must be an integer")
+      .min(1, `limit must be between 1 and ${APP_CONFIG.RECOMPUTE_MAX_LIMIT}`)
+      .max(
+        APP_CONFIG.RECOMPUTE_MAX_LIMIT,
+        `limit must be between 1 and ${APP_CONFIG.RECOMPUTE_MAX_LIMIT}`,
+      )
+      .optional()
+      .default(APP_CONFIG.RECOMPUTE_DEFAULT_LIMIT),
+    // `next` of the previous page
+    after: z
+      .object(
+        {
+          date: z
+            .string({ message: "after.date must be in YYYY-MM-DD format" })
+            .regex(
+              /^\d{4}-\d{2}-\d{2}$/,
+              "after.date must be in YYYY-MM-DD format",
+            ),
+          prefecture_id: z
+            .number({ message: "after.prefecture_id must be a valid number" })
+            .int("after.prefecture_id must be an integer"),
+        },
+        { message: "after must be an object" },
+      )
+      .optional(),
+  })
+  .refine(
+    ({ startDate, endDate }) => !startDate || !endDate || startDate <= endDate,
+    { message: "startDate must be before or equal to endDate" },
+  );
+
 // Type inference from schemas
 export type GetTouringIndexParams = z.infer<typeof getTouringIndexSchema>;
 export type GetTouringIndexHistoryParams = z.infer<
   typeof getTouringIndexHistorySchema
 >;
+export type GetHourlyTouringIndexParams = z.infer<
+  typeof getHourlyTouringIndexSchema
+>;
+export type PostCustomTouringIndexBody = z.infer<
+  typeof postCustomTouringIndexSchema
+>;
+export type PostTripTouringIndexBody = z.infer<
+  typeof postTripTouringIndexSchema
+>;
+export type PostRecomputeTouringIndexBody = z.infer<
+  typeof postRecomputeTouringIndexSchema
+>;
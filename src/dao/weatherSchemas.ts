@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { UnitSystemSchema } from "../utils/unitUtils";
 
 // Validation schema for weather query parameters
 export const getWeatherSchema = z.object({
@@ -17,6 +18,7 @@ export const getWeatherSchema = z.object({
     return num;
   }),
   datetime: z.string().optional(),
+  units: UnitSystemSchema.optional().default("metric"),
 });
 
 // Type inference from schema
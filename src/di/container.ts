@@ -1,13 +1,120 @@
 import { APP_CONFIG } from "../constants/appConfig";
+import { sharedCircuitBreaker } from "../infra/CircuitBreaker";
 import { D1ScheduledRunRepository } from "../infra/D1ScheduledRunRepository";
+import { D1ScoreClimatologyRepository } from "../infra/D1ScoreClimatologyRepository";
 import { D1TouringIndexRepository } from "../infra/D1TouringIndexRepository";
+import { EnsembleWeatherRepository } from "../infra/EnsembleWeatherRepository";
+import { FailoverWeatherRepository } from "../infra/FailoverWeatherRepository";
+import { FixtureWeatherRepository } from "../infra/FixtureWeatherRepository";
+import {
+  KVCachedWeatherRepository,
+  type WeatherCacheStatus,
+} from "../infra/KVCachedWeatherRepository";
+import { OpenMeteoWeatherRepository } from "../infra/OpenMeteoWeatherRepository";
 import { WeatherApiWeatherRepository } from "../infra/WeatherApiWeatherRepository";
+import type { WeatherRepository } from "../infra/WeatherRepository";
+import {
+  createRecordingTransport,
+  DEFAULT_WEATHER_FIXTURE_DIR,
+  loadWeatherApiRecordings,
+} from "../infra/weatherApiRecording";
+import type { AppEnv } from "../types/env";
 import { BatchCalculateTouringIndexUsecase } from "../usecase/BatchCalculateTouringIndex";
 import { CheckScheduledRunReadinessUseCase } from "../usecase/CheckScheduledRunReadiness";
+import { RecomputeTouringIndexUseCase } from "../usecase/RecomputeTouringIndex";
 import { RecordScheduledRunOutcomeUseCase } from "../usecase/RecordScheduledRunOutcome";
+import { RefreshScoreClimatologyUseCase } from "../usecase/RefreshScoreClimatology";
 
-export function createWeatherRepository(apiKey?: string) {
-  return new WeatherApiWeatherRepository(apiKey);
+function createWeatherProviderRepository(
+  provider: string,
+  config: Pick<
+    AppEnv["Bindings"],
+    | "WEATHERAPI_KEY"
+    | "OPEN_METEO_API_KEY"
+    | "WEATHER_RECORD_DIR"
+    | "WEATHER_FIXTURE_DIR"
+  >,
+): WeatherRepository {
+  switch (provider) {
+    case "weatherapi":
+      return new WeatherApiWeatherRepository(config.WEATHERAPI_KEY, {
+        transport: config.WEATHER_RECORD_DIR
+          ? createRecordingTransport(config.WEATHER_RECORD_DIR)
+          : undefined,
+      });
+    case "open-meteo":
+      return new OpenMeteoWeatherRepository(config.OPEN_METEO_API_KEY);
+    case "fixture":
+      return new FixtureWeatherRepository(() =>
+        loadWeatherApiRecordings(
+          config.WEATHER_FIXTURE_DIR || DEFAULT_WEATHER_FIXTURE_DIR,
+        ),
+      );
+    default:
+      throw new Error(`Unknown WEATHER_PROVIDER: ${provider}`);
+  }
+}
+
+/**
+ * Weather providers listed in WEATHER_PROVIDER, in priority order
+ * ("weatherapi" by default, e.g. "weatherapi,open-meteo" to fail over to
+ * Open-Meteo, or "fixture" to replay recorded WeatherAPI responses). Each
+ * provider keeps an isolate-wide circuit breaker. With
+ * WEATHER_ENSEMBLE="true", every listed provider is queried and their
+ * forecasts are blended instead. When the WEATHER_CACHE KV namespace is
+ * bound, single-hour lookups are cached in front of the providers.
+ * @param options.onCacheLookup Told whether a lookup was a cache hit
+ * @throws Error for an unknown provider or an invalid cache precision
+ */
+export function createWeatherRepository(
+  config: Pick<
+    AppEnv["Bindings"],
+    | "WEATHER_PROVIDER"
+    | "WEATHER_ENSEMBLE"
+    | "WEATHER_CACHE"
+    | "WEATHER_CACHE_PRECISION"
+    | "WEATHERAPI_KEY"
+    | "OPEN_METEO_API_KEY"
+    | "WEATHER_RECORD_DIR"
+    | "WEATHER_FIXTURE_DIR"
+  >,
+  options: { onCacheLookup?: (status: WeatherCacheStatus) => void } = {},
+): WeatherRepository {
+  const providers = (config.WEATHER_PROVIDER || "weatherapi")
+    .split(",")
+    .map((provider) => provider.trim())
+    .filter((provider) => provider.length > 0)
+    .map((name) => ({
+      name,
+      repository: createWeatherProviderRepository(name, config),
+      breaker: sharedCircuitBreaker(name),
+    }));
+
+  const repository =
+    config.WEATHER_ENSEMBLE === "true"
+      ? new EnsembleWeatherRepository(
+          providers.map(
+            (provider) => new FailoverWeatherRepository([provider]),
+          ),
+        )
+      : new FailoverWeatherRepository(providers);
+  if (!config.WEATHER_CACHE) return repository;
+
+  const precision = config.WEATHER_CACHE_PRECISION
+    ? Number(config.WEATHER_CACHE_PRECISION)
+    : undefined;
+  if (
+    precision !== undefined &&
+    !(Number.isInteger(precision) && precision >= 0 && precision <= 6)
+  ) {
+    throw new Error(
+      `Invalid WEATHER_CACHE_PRECISION: ${config.WEATHER_CACHE_PRECISION}`,
+    );
+  }
+  return new KVCachedWeatherRepository(config.WEATHER_CACHE, repository, {
+    coordinatePrecision: precision,
+    onLookup: options.onCacheLookup,
+  });
 }
 
 export function createTouringIndexRepository(db: D1Database) {
@@ -24,6 +131,24 @@ export function createBatchCalculateTouringIndexUsecase(
   );
 }
 
+export function createRecomputeTouringIndexUseCase(
+  touringIndexRepository: ReturnType<typeof createTouringIndexRepository>,
+) {
+  return new RecomputeTouringIndexUseCase(touringIndexRepository);
+}
+
+export function createScoreClimatologyRepository(db: D1Database) {
+  return new D1ScoreClimatologyRepository(db);
+}
+
+export function createRefreshScoreClimatologyUseCase(
+  scoreClimatologyRepository: ReturnType<
+    typeof createScoreClimatologyRepository
+  >,
+) {
+  return new RefreshScoreClimatologyUseCase(scoreClimatologyRepository);
+}
+
 export function createScheduledRunRepository(db: D1Database) {
   return new D1ScheduledRunRepository(db);
 }
@@ -0,0 +1,50 @@
+import { describe, expect, test } from "bun:test";
+import {
+  apparentTemperature,
+  heatIndex,
+  windChill,
+} from "./ApparentTemperature";
+
+describe("windChill", () => {
+  test("matches the published wind chill table", () => {
+    // -10°C at 20 km/h feels like -17.9°C
+    expect(windChill(-10, 20)).toBeCloseTo(-17.9, 1);
+  });
+
+  test("returns the air temperature when there is no airflow", () => {
+    expect(windChill(5, 0)).toBe(5);
+  });
+});
+
+describe("heatIndex", () => {
+  test("matches the published heat index table", () => {
+    // 90°F at 70% humidity feels like 105°F
+    expect(heatIndex(32.2, 70)).toBeCloseTo(40.6, 0);
+  });
+
+  test("uses the simple formula for mild conditions", () => {
+    expect(heatIndex(20, 50)).toBeCloseTo(19.4, 1);
+  });
+});
+
+describe("apparentTemperature", () => {
+  test("applies wind chill at cruising speed in cool weather", () => {
+    expect(apparentTemperature(12, 50, 80)).toBe(7.2);
+  });
+
+  test("never reports mild weather as warmer than the air", () => {
+    expect(apparentTemperature(25, 50, 80)).toBe(25);
+  });
+
+  test("applies the heat index in hot, humid weather", () => {
+    expect(apparentTemperature(30, 80, 60)).toBe(37.7);
+  });
+
+  test("equals the air temperature for a stationary rider in mild weather", () => {
+    expect(apparentTemperature(18, 50, 0)).toBe(18);
+  });
+
+  test("clamps extreme values to the scoring range", () => {
+    expect(apparentTemperature(60, 100)).toBe(100);
+  });
+});
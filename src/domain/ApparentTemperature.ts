@@ -0,0 +1,92 @@
+// Domain Layer - Apparent Temperature Rule
+//
+// What a rider feels differs from the air temperature: airflow at cruising
+// speed chills the body, while humid heat feels hotter than the thermometer.
+
+/**
+ * Cruising speed (km/h) assumed when a profile does not specify one.
+ */
+export const DEFAULT_CRUISING_SPEED_KMH = 60;
+
+// Below this airflow (km/h) the wind chill formula is not defined
+const MIN_WIND_CHILL_AIRFLOW_KMH = 4.8;
+
+// At or above this air temperature (°C) heat index replaces wind chill
+const HEAT_INDEX_MIN_TEMPERATURE = 27;
+
+// Both regressions diverge far outside the conditions they were fitted to;
+// keep results within the range the scoring rules accept
+const APPARENT_TEMPERATURE_MIN = -100;
+const APPARENT_TEMPERATURE_MAX = 100;
+
+/**
+ * Wind chill (°C) using the JAG/TI formula adopted by Environment Canada
+ * and the US National Weather Service.
+ * @param temperature - Air temperature in °C
+ * @param airflowKmh - Relative airflow in km/h
+ */
+export function windChill(temperature: number, airflowKmh: number): number {
+  if (airflowKmh < MIN_WIND_CHILL_AIRFLOW_KMH) return temperature;
+
+  const v = airflowKmh ** 0.16;
+  return 13.12 + 0.6215 * temperature - 11.37 * v + 0.3965 * temperature * v;
+}
+
+/**
+ * Heat index (°C) using the US National Weather Service algorithm
+ * (Steadman approximation, Rothfusz regression with humidity adjustments).
+ * @param temperature - Air temperature in °C
+ * @param humidity - Relative humidity in %
+ */
+export function heatIndex(temperature: number, humidity: number): number {
+  const t = (temperature * 9) / 5 + 32;
+  const rh = humidity;
+
+  let hi = 0.5 * (t + 61 + (t - 68) * 1.2 + rh * 0.094);
+  if ((hi + t) / 2 >= 80) {
+    hi =
+      -42.379 +
+      2.04901523 * t +
+      10.14333127 * rh -
+      0.22475541 * t * rh -
+      0.00683783 * t * t -
+      0.05481717 * rh * rh +
+      0.00122874 * t * t * rh +
+      0.00085282 * t * rh * rh -
+      0.00000199 * t * t * rh * rh;
+
+    if (rh < 13 && t >= 80 && t <= 112) {
+      hi -= ((13 - rh) / 4) * Math.sqrt((17 - Math.abs(t - 95)) / 17);
+    } else if (rh > 85 && t >= 80 && t <= 87) {
+      hi += ((rh - 85) / 10) * ((87 - t) / 5);
+    }
+  }
+
+  return ((hi - 32) * 5) / 9;
+}
+
+/**
+ * Temperature (°C) a rider feels at cruising speed, rounded to 1 decimal
+ * and clamped to -100–100°C.
+ * - Below 27°C: wind chill from the cruising airflow, never above the air
+ *   temperature (the formula overshoots in mild weather).
+ * - 27°C and above: heat index, never below the air temperature.
+ * @param temperature - Air temperature in °C
+ * @param humidity - Relative humidity in %
+ * @param cruisingSpeedKmh - Riding speed in km/h
+ */
+export function apparentTemperature(
+  temperature: number,
+  humidity: number,
+  cruisingSpeedKmh: number = DEFAULT_CRUISING_SPEED_KMH,
+): number {
+  const apparent =
+    temperature >= HEAT_INDEX_MIN_TEMPERATURE
+      ? Math.max(temperature, heatIndex(temperature, humidity))
+      : Math.min(temperature, windChill(temperature, cruisingSpeedKmh));
+  const clamped = Math.max(
+    APPARENT_TEMPERATURE_MIN,
+    Math.min(APPARENT_TEMPERATURE_MAX, apparent),
+  );
+  return Math.round(clamped * 10) / 10;
+}
@@ -0,0 +1,53 @@
+import { describe, expect, test } from "bun:test";
+import { getDaylightWindow, isAfterDark } from "./Daylight";
+
+describe("getDaylightWindow", () => {
+  test("computes usable daylight hours", () => {
+    expect(
+      getDaylightWindow(
+        "2024-12-21T06:47:00+09:00",
+        "2024-12-21T16:01:00+09:00",
+      ),
+    ).toEqual({
+      sunrise: "2024-12-21T06:47:00+09:00",
+      sunset: "2024-12-21T16:01:00+09:00",
+      hours: 9.2,
+    });
+  });
+
+  test("returns null when sunrise or sunset is unknown", () => {
+    expect(getDaylightWindow(undefined, "2024-12-21T16:01:00+09:00")).toBe(
+      null,
+    );
+    expect(getDaylightWindow("2024-12-21T06:47:00+09:00", undefined)).toBe(
+      null,
+    );
+  });
+
+  test("returns null when sunset does not follow sunrise", () => {
+    expect(
+      getDaylightWindow(
+        "2024-12-21T16:01:00+09:00",
+        "2024-12-21T06:47:00+09:00",
+      ),
+    ).toBeNull();
+  });
+});
+
+describe("isAfterDark", () => {
+  const window = {
+    sunrise: "2024-12-21T06:47:00+09:00",
+    sunset: "2024-12-21T16:01:00+09:00",
+    hours: 9.2,
+  };
+
+  test("is false between sunrise and sunset", () => {
+    expect(isAfterDark("2024-12-21T06:47:00+09:00", window)).toBe(false);
+    expect(isAfterDark("2024-12-21T12:00:00+09:00", window)).toBe(false);
+  });
+
+  test("is true before sunrise and from sunset", () => {
+    expect(isAfterDark("2024-12-21T05:00:00+09:00", window)).toBe(true);
+    expect(isAfterDark("2024-12-21T16:01:00+09:00", window)).toBe(true);
+  });
+});
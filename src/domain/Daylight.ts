@@ -0,0 +1,42 @@
+// Domain Layer - Daylight Rule
+
+export interface DaylightWindow {
+  sunrise: string; // ISO 8601
+  sunset: string; // ISO 8601
+  hours: number; // Usable daylight, rounded to 1 decimal
+}
+
+/**
+ * Points deducted from the touring score when riding after dark.
+ */
+export const AFTER_DARK_SCORE_PENALTY = 20;
+
+/**
+ * Build the daylight window between sunrise and sunset.
+ * @returns The window, or null when either time is unknown (e.g. polar
+ *   day/night) or sunset does not follow sunrise
+ */
+export function getDaylightWindow(
+  sunrise: string | undefined,
+  sunset: string | undefined,
+): DaylightWindow | null {
+  if (!sunrise || !sunset) return null;
+
+  const durationMs = Date.parse(sunset) - Date.parse(sunrise);
+  if (Number.isNaN(durationMs) || durationMs <= 0) return null;
+
+  return {
+    sunrise,
+    sunset,
+    hours: Math.round((durationMs / 3_600_000) * 10) / 10,
+  };
+}
+
+/**
+ * Whether a datetime falls outside the daylight window (before sunrise or
+ * at/after sunset).
+ */
+export function isAfterDark(datetime: string, window: DaylightWindow): boolean {
+  const at = Date.parse(datetime);
+  return at < Date.parse(window.sunrise) || at >= Date.parse(window.sunset);
+}
@@ -0,0 +1,17 @@
+import { describe, expect, test } from "bun:test";
+import { adjustTemperatureForElevation } from "./Elevation";
+
+describe("adjustTemperatureForElevation", () => {
+  test("cools the air by the standard lapse rate above the forecast point", () => {
+    expect(adjustTemperatureForElevation(20, 1000, 0)).toBe(13.5);
+    expect(adjustTemperatureForElevation(20, 1800, 300)).toBe(10.3);
+  });
+
+  test("warms the air below the forecast point", () => {
+    expect(adjustTemperatureForElevation(20, 0, 400)).toBe(22.6);
+  });
+
+  test("leaves the temperature unchanged at the forecast point's elevation", () => {
+    expect(adjustTemperatureForElevation(20, 400, 400)).toBe(20);
+  });
+});
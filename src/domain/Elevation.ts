@@ -0,0 +1,30 @@
+// Domain Layer - Elevation Rule
+//
+// A forecast describes its grid point, usually a town in the valley, while
+// touring roads climb well above it. Air cools with height, so the
+// temperature is corrected to the elevation actually ridden. The correction
+// needs the grid point's own elevation: assuming sea level for a point that
+// already sits on the mountain would cool the air twice.
+
+/**
+ * Standard atmosphere lapse rate in °C per 1,000 m.
+ */
+export const STANDARD_LAPSE_RATE = 6.5;
+
+/**
+ * Air temperature (°C) at `elevation`, from a temperature forecast for a
+ * point at `referenceElevation`, rounded to 1 decimal.
+ * @param temperature - Forecast air temperature in °C
+ * @param elevation - Elevation to correct to, in m
+ * @param referenceElevation - Elevation of the forecast point in m
+ */
+export function adjustTemperatureForElevation(
+  temperature: number,
+  elevation: number,
+  referenceElevation: number,
+): number {
+  const adjusted =
+    temperature -
+    (STANDARD_LAPSE_RATE * (elevation - referenceElevation)) / 1000;
+  return Math.round(adjusted * 10) / 10;
+}
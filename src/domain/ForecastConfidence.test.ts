@@ -0,0 +1,93 @@
+import { describe, expect, test } from "bun:test";
+import {
+  assessForecastConfidence,
+  estimatedFactors,
+} from "./ForecastConfidence";
+import { DEFAULT_FACTOR_WEIGHTS } from "./TouringScore";
+import type { Weather } from "./Weather";
+
+const weather: Weather = {
+  datetime: "2025-06-01T12:00:00+09:00",
+  condition: "clear",
+  temperature: 21.5,
+  windSpeed: 2.5,
+  windGust: 4,
+  humidity: 50,
+  visibility: 20,
+  precipitationProbability: 0,
+  precipitation: 0,
+  recentPrecipitation: 0,
+  uvIndex: 3,
+  airQuality: "low",
+};
+
+describe("estimatedFactors", () => {
+  test("is empty when every input is reported", () => {
+    expect(estimatedFactors(weather)).toEqual([]);
+  });
+
+  test("lists factors scored on defaulted inputs", () => {
+    expect(
+      estimatedFactors({
+        ...weather,
+        condition: "unknown",
+        windGust: undefined,
+        recentPrecipitation: undefined,
+      }),
+    ).toEqual(["weather", "wind", "precipitationProbability"]);
+  });
+});
+
+describe("assessForecastConfidence", () => {
+  test("is highest for a same-day forecast", () => {
+    expect(
+      assessForecastConfidence(80, weather, DEFAULT_FACTOR_WEIGHTS, 0),
+    ).toEqual({
+      value: 0.95,
+      band: { low: 78, high: 82 },
+      leadTimeDays: 0,
+      estimatedFactors: [],
+    });
+  });
+
+  test("falls with lead time and widens the band", () => {
+    const confidence = assessForecastConfidence(
+      80,
+      weather,
+      DEFAULT_FACTOR_WEIGHTS,
+      13,
+    );
+    expect(confidence.value).toBe(0.43);
+    expect(confidence.band).toEqual({ low: 57, high: 100 });
+  });
+
+  test("treats past dates as same-day", () => {
+    expect(
+      assessForecastConfidence(80, weather, DEFAULT_FACTOR_WEIGHTS, -3)
+        .leadTimeDays,
+    ).toBe(0);
+  });
+
+  test("deducts half the weight share of each estimated factor", () => {
+    const confidence = assessForecastConfidence(
+      80,
+      { ...weather, condition: "unknown" },
+      DEFAULT_FACTOR_WEIGHTS,
+      0,
+    );
+    // 0.95 - (30 / 100) * 0.5
+    expect(confidence.value).toBe(0.8);
+    expect(confidence.estimatedFactors).toEqual(["weather"]);
+  });
+
+  test("never drops below the confidence floor", () => {
+    const confidence = assessForecastConfidence(
+      50,
+      { ...weather, condition: "unknown", windGust: undefined },
+      DEFAULT_FACTOR_WEIGHTS,
+      30,
+    );
+    expect(confidence.value).toBe(0.1);
+    expect(confidence.band).toEqual({ low: 14, high: 86 });
+  });
+});
@@ -0,0 +1,106 @@
+// Domain Layer - Forecast Confidence Rule
+//
+// A forecast for two weeks out is far less reliable than today's, and a
+// score built on defaulted inputs is less reliable than one built on
+// observations. Confidence expresses both as a 0–1 value and widens an
+// uncertainty band around the score accordingly.
+
+import type { TouringScoreFactor } from "./TouringScore";
+import type { Weather } from "./Weather";
+
+export interface ScoreBand {
+  low: number;
+  high: number;
+}
+
+export interface ForecastConfidence {
+  value: number; // 0–1, rounded to 2 decimals
+  band: ScoreBand; // Plausible range of the score (0–100)
+  leadTimeDays: number; // Days between calculation and the scored date
+  estimatedFactors: TouringScoreFactor[]; // Factors scored on defaulted inputs
+}
+
+// Confidence of a same-day forecast
+const SAME_DAY_CONFIDENCE = 0.95;
+// Confidence lost per day of lead time (day 13 ≈ 0.43)
+const CONFIDENCE_DECAY_PER_DAY = 0.04;
+// Confidence never drops below this floor
+const MIN_CONFIDENCE = 0.1;
+// Share of an estimated factor's weight (as a fraction of 100 points)
+// deducted from confidence
+const ESTIMATED_FACTOR_CONFIDENCE_SHARE = 0.5;
+// Half-width of the band (points) at zero confidence
+const MAX_BAND_HALF_WIDTH = 40;
+
+/**
+ * Factors whose subscore rests on a defaulted input rather than a reported
+ * value.
+ * - 'weather': the provider condition could not be mapped ('unknown').
+ * - 'wind': no gust reported, so gustiness is assumed harmless.
+ * - 'precipitationProbability': no rainfall amount or preceding rainfall
+ *   reported, so intensity and road wetness are assumed neutral.
+ * - 'visibility'/'airQuality': not reported; only scored partially, with the
+ *   factor left out and the other weights rescaled.
+ */
+export function estimatedFactors(weather: Weather): TouringScoreFactor[] {
+  const factors: TouringScoreFactor[] = [];
+  if (weather.condition === "unknown") factors.push("weather");
+  if (weather.windGust === undefined) factors.push("wind");
+  if (
+    weather.precipitation === undefined ||
+    weather.recentPrecipitation === undefined
+  ) {
+    factors.push("precipitationProbability");
+  }
+  if (weather.visibility === undefined) factors.push("visibility");
+  if (
+    weather.airQuality === undefined &&
+    weather.airQualityComponents === undefined
+  ) {
+    factors.push("airQuality");
+  }
+  return factors;
+}
+
+/**
+ * Assess how far a touring score can be trusted.
+ * - Starts at 0.95 for a same-day forecast and loses 0.04 per day of lead
+ *   time.
+ * - Each estimated factor deducts half its weight share (e.g. an unknown
+ *   condition with the default 30-point weight deducts 0.15).
+ * - The band spreads ±40 points at zero confidence, narrowing linearly.
+ * @param score - Touring score (0-100)
+ * @param weather - Weather observation the score was calculated from
+ * @param weights - Points each factor is worth at full marks
+ * @param leadTimeDays - Days from calculation to the scored date (past dates count as 0)
+ */
+export function assessForecastConfidence(
+  score: number,
+  weather: Weather,
+  weights: Record<TouringScoreFactor, number>,
+  leadTimeDays: number,
+): ForecastConfidence {
+  const lead = Math.max(0, leadTimeDays);
+  const estimated = estimatedFactors(weather);
+  const estimatePenalty = estimated.reduce(
+    (sum, factor) =>
+      sum + (weights[factor] / 100) * ESTIMATED_FACTOR_CONFIDENCE_SHARE,
+    0,
+  );
+
+  const raw =
+    SAME_DAY_CONFIDENCE - lead * CONFIDENCE_DECAY_PER_DAY - estimatePenalty;
+  const value =
+    Math.round(Math.max(MIN_CONFIDENCE, Math.min(1, raw)) * 100) / 100;
+
+  const halfWidth = Math.round((1 - value) * MAX_BAND_HALF_WIDTH);
+  return {
+    value,
+    band: {
+      low: Math.max(0, score - halfWidth),
+      high: Math.min(100, score + halfWidth),
+    },
+    leadTimeDays: lead,
+    estimatedFactors: estimated,
+  };
+}
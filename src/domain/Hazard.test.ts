@@ -0,0 +1,175 @@
+import { describe, expect, test } from "bun:test";
+import {
+  applyHazardCap,
+  DEFAULT_HAZARD_RULES,
+  evaluateHazards,
+  SEVERE_HAZARD_SCORE_CAP,
+} from "./Hazard";
+import type { Weather } from "./Weather";
+
+const calmWeather: Weather = {
+  datetime: "2025-06-01T12:00:00Z",
+  condition: "clear",
+  temperature: 20,
+  windSpeed: 3,
+  humidity: 50,
+  visibility: 20,
+  precipitationProbability: 0,
+  uvIndex: 3,
+  airQuality: "low",
+};
+
+describe("evaluateHazards", () => {
+  test("returns no hazards for calm weather", () => {
+    expect(evaluateHazards(calmWeather)).toEqual([]);
+  });
+
+  test("grades strong wind by speed", () => {
+    expect(evaluateHazards({ ...calmWeather, windSpeed: 10 })).toEqual([
+      { type: "strong_wind", severity: "moderate" },
+    ]);
+    expect(evaluateHazards({ ...calmWeather, windSpeed: 15 })).toEqual([
+      { type: "strong_wind", severity: "severe" },
+    ]);
+  });
+
+  test("flags icy roads near freezing and escalates when the road is wet", () => {
+    expect(evaluateHazards({ ...calmWeather, temperature: 2 })).toEqual([
+      { type: "icy_road_risk", severity: "moderate" },
+    ]);
+    expect(evaluateHazards({ ...calmWeather, temperature: -1 })).toEqual([
+      { type: "icy_road_risk", severity: "moderate" },
+    ]);
+    expect(
+      evaluateHazards({
+        ...calmWeather,
+        temperature: -1,
+        precipitationProbability: 60,
+      }),
+    ).toEqual([{ type: "icy_road_risk", severity: "severe" }]);
+    expect(
+      evaluateHazards({ ...calmWeather, condition: "snow", temperature: 4 }),
+    ).toEqual([{ type: "icy_road_risk", severity: "moderate" }]);
+  });
+
+  test("flags icy roads for sleet, and always severe for freezing rain", () => {
+    expect(
+      evaluateHazards({ ...calmWeather, condition: "sleet", temperature: 4 }),
+    ).toEqual([{ type: "icy_road_risk", severity: "moderate" }]);
+    expect(
+      evaluateHazards({
+        ...calmWeather,
+        condition: "freezing_rain",
+        temperature: 4,
+      }),
+    ).toEqual([{ type: "icy_road_risk", severity: "severe" }]);
+  });
+
+  test("flags thunder as severe", () => {
+    expect(evaluateHazards({ ...calmWeather, thunder: true })).toEqual([
+      { type: "thunder", severity: "severe" },
+    ]);
+    expect(
+      evaluateHazards({ ...calmWeather, condition: "thunderstorm" }),
+    ).toEqual([{ type: "thunder", severity: "severe" }]);
+  });
+
+  test("flags a heavy rain condition at any probability", () => {
+    const heavyRain: Weather = { ...calmWeather, condition: "heavy_rain" };
+
+    expect(
+      evaluateHazards({ ...heavyRain, precipitationProbability: 30 }),
+    ).toEqual([{ type: "heavy_rain", severity: "moderate" }]);
+    expect(
+      evaluateHazards({ ...heavyRain, precipitationProbability: 90 }),
+    ).toEqual([{ type: "heavy_rain", severity: "severe" }]);
+  });
+
+  test("grades heavy rain by probability", () => {
+    const rain: Weather = { ...calmWeather, condition: "rain" };
+
+    expect(evaluateHazards({ ...rain, precipitationProbability: 40 })).toEqual(
+      [],
+    );
+    expect(evaluateHazards({ ...rain, precipitationProbability: 50 })).toEqual([
+      { type: "heavy_rain", severity: "moderate" },
+    ]);
+    expect(evaluateHazards({ ...rain, precipitationProbability: 80 })).toEqual([
+      { type: "heavy_rain", severity: "severe" },
+    ]);
+  });
+
+  test("flags darkness outside the daylight window", () => {
+    const astro = {
+      sunrise: "2025-06-01T04:25:00+09:00",
+      sunset: "2025-06-01T18:52:00+09:00",
+    };
+
+    expect(
+      evaluateHazards({
+        ...calmWeather,
+        ...astro,
+        datetime: "2025-06-01T12:00:00+09:00",
+      }),
+    ).toEqual([]);
+    expect(
+      evaluateHazards({
+        ...calmWeather,
+        ...astro,
+        datetime: "2025-06-01T20:00:00+09:00",
+      }),
+    ).toEqual([{ type: "darkness", severity: "moderate" }]);
+  });
+
+  test("flags official warnings and escalates them when severe", () => {
+    const advisory = {
+      event: "Strong wind advisory",
+      severity: "moderate" as const,
+      areas: ["Hakone"],
+      effective: "2025-06-01T09:00:00+09:00",
+      expires: "2025-06-01T21:00:00+09:00",
+    };
+
+    expect(evaluateHazards({ ...calmWeather, alerts: [] })).toEqual([]);
+    expect(evaluateHazards({ ...calmWeather, alerts: [advisory] })).toEqual([
+      { type: "official_warning", severity: "moderate" },
+    ]);
+    expect(
+      evaluateHazards({
+        ...calmWeather,
+        alerts: [
+          advisory,
+          { ...advisory, event: "Heavy rain warning", severity: "severe" },
+        ],
+      }),
+    ).toEqual([{ type: "official_warning", severity: "severe" }]);
+  });
+
+  test("honours custom rules", () => {
+    const rules = {
+      ...DEFAULT_HAZARD_RULES,
+      strongWind: { moderate: 2, severe: 3 },
+    };
+
+    expect(evaluateHazards(calmWeather, rules)).toEqual([
+      { type: "strong_wind", severity: "severe" },
+    ]);
+  });
+});
+
+describe("applyHazardCap", () => {
+  test("caps the score only when a hazard is severe", () => {
+    expect(
+      applyHazardCap(90, [{ type: "strong_wind", severity: "moderate" }]),
+    ).toBe(90);
+    expect(
+      applyHazardCap(90, [
+        { type: "strong_wind", severity: "moderate" },
+        { type: "heavy_rain", severity: "severe" },
+      ]),
+    ).toBe(SEVERE_HAZARD_SCORE_CAP);
+    expect(applyHazardCap(20, [{ type: "thunder", severity: "severe" }])).toBe(
+      20,
+    );
+  });
+});
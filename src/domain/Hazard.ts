@@ -0,0 +1,181 @@
+import { z } from "zod";
+import { getDaylightWindow, isAfterDark } from "./Daylight";
+import type { Weather, WeatherCondition } from "./Weather";
+import { isSevereAlert } from "./WeatherAlert";
+
+/**
+ * Enum schema for riding hazards detected from a weather observation.
+ * - 'strong_wind': sustained wind strong enough to push a motorcycle off line.
+ * - 'icy_road_risk': near-freezing air, worse when the road is likely wet;
+ *   sleet and snow always, freezing rain always severe.
+ * - 'thunder': thunder reported or forecast by the weather provider.
+ * - 'heavy_rain': rain that is both heavy and near-certain, or a heavy_rain
+ *   condition.
+ * - 'darkness': the observation falls before sunrise or after sunset.
+ * - 'official_warning': a warning issued by the weather service is in
+ *   effect; severe for warnings, moderate for advisories.
+ */
+export const HazardTypeSchema = z.enum([
+  "strong_wind",
+  "icy_road_risk",
+  "thunder",
+  "heavy_rain",
+  "darkness",
+  "official_warning",
+]);
+export type HazardType = z.infer<typeof HazardTypeSchema>;
+
+/**
+ * Enum schema for hazard severity.
+ * - 'moderate': reported to the rider, does not cap the score.
+ * - 'severe': caps the touring score at SEVERE_HAZARD_SCORE_CAP.
+ */
+export const HazardSeveritySchema = z.enum(["moderate", "severe"]);
+export type HazardSeverity = z.infer<typeof HazardSeveritySchema>;
+
+export const HazardFlagSchema = z.object({
+  type: HazardTypeSchema,
+  severity: HazardSeveritySchema,
+});
+export type HazardFlag = z.infer<typeof HazardFlagSchema>;
+
+/**
+ * Highest touring score allowed while any severe hazard is present.
+ */
+export const SEVERE_HAZARD_SCORE_CAP = 30;
+
+/**
+ * Thresholds used to detect hazards.
+ */
+export interface HazardRules {
+  strongWind: {
+    moderate: number; // m/s
+    severe: number; // m/s
+  };
+  icyRoad: {
+    moderateMaxTemperature: number; // °C, at or below this ice is possible
+    severeMaxTemperature: number; // °C, at or below this wet roads freeze
+    wetPrecipitationProbability: number; // % chance at which the road counts as wet
+  };
+  heavyRain: {
+    moderatePrecipitationProbability: number; // % chance with rain condition
+    severePrecipitationProbability: number; // % chance with rain condition
+  };
+}
+
+// Conditions that leave the road wet
+const WET_CONDITIONS: readonly WeatherCondition[] = [
+  "drizzle",
+  "rain",
+  "heavy_rain",
+  "thunderstorm",
+  "sleet",
+  "freezing_rain",
+  "snow",
+];
+
+export const DEFAULT_HAZARD_RULES: Readonly<HazardRules> = {
+  strongWind: { moderate: 10, severe: 15 },
+  icyRoad: {
+    moderateMaxTemperature: 3,
+    severeMaxTemperature: 0,
+    wetPrecipitationProbability: 50,
+  },
+  heavyRain: {
+    moderatePrecipitationProbability: 50,
+    severePrecipitationProbability: 80,
+  },
+};
+
+/**
+ * Detect riding hazards in a weather observation.
+ * @param weather - Weather observation
+ * @param rules - Detection thresholds (optional)
+ * @returns Hazard flags, at most one per hazard type
+ */
+export function evaluateHazards(
+  weather: Weather,
+  rules: HazardRules = DEFAULT_HAZARD_RULES,
+): HazardFlag[] {
+  const hazards: HazardFlag[] = [];
+
+  if (weather.windSpeed >= rules.strongWind.severe) {
+    hazards.push({ type: "strong_wind", severity: "severe" });
+  } else if (weather.windSpeed >= rules.strongWind.moderate) {
+    hazards.push({ type: "strong_wind", severity: "moderate" });
+  }
+
+  const wetRoad =
+    WET_CONDITIONS.includes(weather.condition) ||
+    weather.precipitationProbability >=
+      rules.icyRoad.wetPrecipitationProbability;
+  if (
+    (weather.temperature <= rules.icyRoad.severeMaxTemperature && wetRoad) ||
+    weather.condition === "freezing_rain"
+  ) {
+    hazards.push({ type: "icy_road_risk", severity: "severe" });
+  } else if (
+    weather.temperature <= rules.icyRoad.moderateMaxTemperature ||
+    weather.condition === "snow" ||
+    weather.condition === "sleet"
+  ) {
+    hazards.push({ type: "icy_road_risk", severity: "moderate" });
+  }
+
+  if (weather.thunder || weather.condition === "thunderstorm") {
+    hazards.push({ type: "thunder", severity: "severe" });
+  }
+
+  if (weather.condition === "heavy_rain") {
+    hazards.push({
+      type: "heavy_rain",
+      severity:
+        weather.precipitationProbability >=
+        rules.heavyRain.severePrecipitationProbability
+          ? "severe"
+          : "moderate",
+    });
+  } else if (
+    weather.condition === "rain" ||
+    weather.condition === "thunderstorm"
+  ) {
+    if (
+      weather.precipitationProbability >=
+      rules.heavyRain.severePrecipitationProbability
+    ) {
+      hazards.push({ type: "heavy_rain", severity: "severe" });
+    } else if (
+      weather.precipitationProbability >=
+      rules.heavyRain.moderatePrecipitationProbability
+    ) {
+      hazards.push({ type: "heavy_rain", severity: "moderate" });
+    }
+  }
+
+  const daylight = getDaylightWindow(weather.sunrise, weather.sunset);
+  if (daylight && isAfterDark(weather.datetime, daylight)) {
+    hazards.push({ type: "darkness", severity: "moderate" });
+  }
+
+  const alerts = weather.alerts ?? [];
+  if (alerts.length > 0) {
+    hazards.push({
+      type: "official_warning",
+      severity: alerts.some(isSevereAlert) ? "severe" : "moderate",
+    });
+  }
+
+  return hazards;
+}
+
+/**
+ * Cap a touring score according to the hazards present.
+ * @param score - Touring score (0-100)
+ * @param hazards - Hazard flags from evaluateHazards
+ * @returns The score, capped when any hazard is severe
+ */
+export function applyHazardCap(score: number, hazards: HazardFlag[]): number {
+  return hazards.some((hazard) => hazard.severity === "severe")
+    ? Math.min(score, SEVERE_HAZARD_SCORE_CAP)
+    : score;
+}
@@ -0,0 +1,16 @@
+import { describe, expect, test } from "bun:test";
+import { prefectureCentroidElevation } from "./PrefectureElevation";
+
+describe("prefectureCentroidElevation", () => {
+  test("returns the elevation of a prefecture centroid", () => {
+    expect(prefectureCentroidElevation(36.6513, 138.1812)).toBe(370);
+  });
+
+  test("matches coordinates near the centroid", () => {
+    expect(prefectureCentroidElevation(35.68, 139.69)).toBe(40);
+  });
+
+  test("returns undefined away from every centroid", () => {
+    expect(prefectureCentroidElevation(36.7, 138.5)).toBeUndefined();
+  });
+});
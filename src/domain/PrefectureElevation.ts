@@ -0,0 +1,84 @@
+// Domain Layer - Prefecture Forecast Point Elevations
+//
+// WeatherAPI does not report the elevation of the point it forecasts for, so
+// a route elevation could not be corrected from it. The prefecture centroids
+// in db/init.sql (the prefectural offices) are the points the batch and most
+// clients ask for, so their elevations are bundled here.
+
+/**
+ * Approximate ground elevation in m of each prefecture centroid in
+ * db/init.sql, by prefecture id, rounded to 5 m.
+ */
+export const PREFECTURE_CENTROID_ELEVATIONS: ReadonlyArray<{
+  id: number;
+  latitude: number;
+  longitude: number;
+  elevation: number;
+}> = [
+  { id: 1, latitude: 43.0642, longitude: 141.3468, elevation: 20 },
+  { id: 2, latitude: 40.8244, longitude: 140.74, elevation: 5 },
+  { id: 3, latitude: 39.7036, longitude: 141.1527, elevation: 125 },
+  { id: 4, latitude: 38.2688, longitude: 140.8721, elevation: 40 },
+  { id: 5, latitude: 39.7186, longitude: 140.1024, elevation: 10 },
+  { id: 6, latitude: 38.2404, longitude: 140.3633, elevation: 150 },
+  { id: 7, latitude: 37.7503, longitude: 140.4676, elevation: 65 },
+  { id: 8, latitude: 36.3418, longitude: 140.4468, elevation: 30 },
+  { id: 9, latitude: 36.5657, longitude: 139.8836, elevation: 120 },
+  { id: 10, latitude: 36.3912, longitude: 139.0609, elevation: 110 },
+  { id: 11, latitude: 35.8574, longitude: 139.6489, elevation: 15 },
+  { id: 12, latitude: 35.6074, longitude: 140.1065, elevation: 5 },
+  { id: 13, latitude: 35.6895, longitude: 139.6917, elevation: 40 },
+  { id: 14, latitude: 35.4478, longitude: 139.6425, elevation: 5 },
+  { id: 15, latitude: 37.9025, longitude: 139.0232, elevation: 5 },
+  { id: 16, latitude: 36.6953, longitude: 137.2113, elevation: 10 },
+  { id: 17, latitude: 36.5947, longitude: 136.6256, elevation: 5 },
+  { id: 18, latitude: 36.0652, longitude: 136.2216, elevation: 10 },
+  { id: 19, latitude: 35.6639, longitude: 138.5684, elevation: 260 },
+  { id: 20, latitude: 36.6513, longitude: 138.1812, elevation: 370 },
+  { id: 21, latitude: 35.3912, longitude: 136.7223, elevation: 15 },
+  { id: 22, latitude: 34.9756, longitude: 138.3828, elevation: 15 },
+  { id: 23, latitude: 35.1802, longitude: 136.9066, elevation: 15 },
+  { id: 24, latitude: 34.7303, longitude: 136.5086, elevation: 5 },
+  { id: 25, latitude: 35.0045, longitude: 135.8686, elevation: 90 },
+  { id: 26, latitude: 35.0212, longitude: 135.7556, elevation: 45 },
+  { id: 27, latitude: 34.6937, longitude: 135.5022, elevation: 20 },
+  { id: 28, latitude: 34.6913, longitude: 135.183, elevation: 15 },
+  { id: 29, latitude: 34.6853, longitude: 135.8327, elevation: 65 },
+  { id: 30, latitude: 34.226, longitude: 135.1675, elevation: 5 },
+  { id: 31, latitude: 35.5039, longitude: 134.2377, elevation: 10 },
+  { id: 32, latitude: 35.4723, longitude: 133.0505, elevation: 5 },
+  { id: 33, latitude: 34.6618, longitude: 133.9344, elevation: 5 },
+  { id: 34, latitude: 34.3963, longitude: 132.4596, elevation: 5 },
+  { id: 35, latitude: 34.1861, longitude: 131.4714, elevation: 20 },
+  { id: 36, latitude: 34.0703, longitude: 134.554, elevation: 5 },
+  { id: 37, latitude: 34.3401, longitude: 134.0434, elevation: 5 },
+  { id: 38, latitude: 33.8417, longitude: 132.7657, elevation: 30 },
+  { id: 39, latitude: 33.5597, longitude: 133.5311, elevation: 5 },
+  { id: 40, latitude: 33.5904, longitude: 130.4017, elevation: 5 },
+  { id: 41, latitude: 33.2494, longitude: 130.2988, elevation: 5 },
+  { id: 42, latitude: 32.7503, longitude: 129.8777, elevation: 5 },
+  { id: 43, latitude: 32.7898, longitude: 130.7417, elevation: 20 },
+  { id: 44, latitude: 33.2382, longitude: 131.6126, elevation: 5 },
+  { id: 45, latitude: 31.9111, longitude: 131.4239, elevation: 10 },
+  { id: 46, latitude: 31.5602, longitude: 130.5581, elevation: 5 },
+  { id: 47, latitude: 26.2124, longitude: 127.6809, elevation: 10 },
+];
+
+// Coordinates within this many degrees (about 1 km) of a centroid count as
+// the centroid
+const CENTROID_MATCH_DEGREES = 0.01;
+
+/**
+ * Elevation in m of the prefecture centroid at `lat`/`lon`.
+ * @returns The elevation, or undefined when the point is no centroid
+ */
+export function prefectureCentroidElevation(
+  lat: number,
+  lon: number,
+): number | undefined {
+  return PREFECTURE_CENTROID_ELEVATIONS.find(
+    (centroid) =>
+      Math.abs(centroid.latitude - lat) <= CENTROID_MATCH_DEGREES &&
+      Math.abs(centroid.longitude - lon) <= CENTROID_MATCH_DEGREES,
+  )?.elevation;
+}
@@ -0,0 +1,51 @@
+import { describe, expect, test } from "bun:test";
+import { findBestRidingWindow, type HourlyScore } from "./RidingWindow";
+
+function buildHours(scores: Array<number | null>): HourlyScore[] {
+  return scores.map((score, index) => ({
+    datetime: `2024-06-01T${String(index).padStart(2, "0")}:00:00+09:00`,
+    score,
+  }));
+}
+
+describe("findBestRidingWindow", () => {
+  test("returns the longest run at or above the threshold", () => {
+    const window = findBestRidingWindow(
+      buildHours([40, 70, 80, 30, 60, 65, 90, 50]),
+      60,
+    );
+
+    expect(window).toEqual({
+      start: "2024-06-01T04:00:00+09:00",
+      lastHour: "2024-06-01T06:00:00+09:00",
+      hours: 3,
+      averageScore: 71.7,
+      minScore: 60,
+    });
+  });
+
+  test("prefers the higher average when runs are equally long", () => {
+    const window = findBestRidingWindow(buildHours([70, 70, 10, 90, 80]), 60);
+
+    expect(window?.start).toBe("2024-06-01T03:00:00+09:00");
+    expect(window?.averageScore).toBe(85);
+  });
+
+  test("prefers the earlier run when length and average tie", () => {
+    const window = findBestRidingWindow(buildHours([75, 10, 75]), 60);
+
+    expect(window?.start).toBe("2024-06-01T00:00:00+09:00");
+  });
+
+  test("treats unscored hours as breaking a run", () => {
+    const window = findBestRidingWindow(buildHours([80, null, 80, 80]), 60);
+
+    expect(window?.start).toBe("2024-06-01T02:00:00+09:00");
+    expect(window?.hours).toBe(2);
+  });
+
+  test("returns null when no hour meets the threshold", () => {
+    expect(findBestRidingWindow(buildHours([10, null, 59]), 60)).toBeNull();
+    expect(findBestRidingWindow([], 60)).toBeNull();
+  });
+});
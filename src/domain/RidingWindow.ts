@@ -0,0 +1,68 @@
+// Domain Layer - Riding Window Rule
+
+export interface HourlyScore {
+  datetime: string; // ISO 8601 start of the hour
+  score: number | null; // null when the hour could not be scored
+}
+
+export interface RidingWindow {
+  start: string; // Start of the first hour in the window
+  lastHour: string; // Start of the last hour in the window
+  hours: number;
+  averageScore: number;
+  minScore: number;
+}
+
+/**
+ * Find the longest contiguous run of hours scoring at or above `threshold`.
+ * Ties are broken by the higher average score, then by the earlier start.
+ * Unscored hours (score === null) always break a run.
+ * @param hours Hourly scores ordered by time
+ * @param threshold Minimum score (inclusive) for an hour to be rideable
+ * @returns The best window, or null when no hour meets the threshold
+ */
+export function findBestRidingWindow(
+  hours: HourlyScore[],
+  threshold: number,
+): RidingWindow | null {
+  let best: RidingWindow | null = null;
+  let runStart = -1;
+
+  const closeRun = (endExclusive: number) => {
+    if (runStart < 0) return;
+    const run = hours.slice(runStart, endExclusive);
+    const scores = run.map((hour) => hour.score as number);
+    const averageScore =
+      Math.round(
+        (scores.reduce((sum, score) => sum + score, 0) / scores.length) * 10,
+      ) / 10;
+    const candidate: RidingWindow = {
+      start: run[0].datetime,
+      lastHour: run[run.length - 1].datetime,
+      hours: run.length,
+      averageScore,
+      minScore: Math.min(...scores),
+    };
+
+    if (
+      !best ||
+      candidate.hours > best.hours ||
+      (candidate.hours === best.hours &&
+        candidate.averageScore > best.averageScore)
+    ) {
+      best = candidate;
+    }
+    runStart = -1;
+  };
+
+  hours.forEach((hour, index) => {
+    if (hour.score !== null && hour.score >= threshold) {
+      if (runStart < 0) runStart = index;
+    } else {
+      closeRun(index);
+    }
+  });
+  closeRun(hours.length);
+
+  return best;
+}
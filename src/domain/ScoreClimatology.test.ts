@@ -0,0 +1,58 @@
+import { describe, expect, test } from "bun:test";
+import {
+  buildScoreDistribution,
+  MIN_CLIMATOLOGY_SAMPLES,
+  monthOfDate,
+  scorePercentile,
+} from "./ScoreClimatology";
+
+describe("ScoreClimatology", () => {
+  describe("buildScoreDistribution", () => {
+    test("buckets rounded, clamped scores and counts the samples", () => {
+      const distribution = buildScoreDistribution(2, 3, [
+        { score: 59.6, count: 2 },
+        { score: 60, count: 3 },
+        { score: 120, count: 1 },
+      ]);
+
+      expect(distribution.prefectureId).toBe(2);
+      expect(distribution.month).toBe(3);
+      expect(distribution.sampleCount).toBe(6);
+      expect(distribution.histogram).toHaveLength(101);
+      expect(distribution.histogram[60]).toBe(5);
+      expect(distribution.histogram[100]).toBe(1);
+    });
+  });
+
+  describe("scorePercentile", () => {
+    // 40 days scoring 40..79, one day each
+    const distribution = buildScoreDistribution(
+      14,
+      5,
+      Array.from({ length: 40 }, (_, i) => ({ score: 40 + i, count: 1 })),
+    );
+
+    test("reports the share of days scoring strictly lower", () => {
+      expect(scorePercentile(distribution, 60)).toEqual({
+        value: 50,
+        month: 5,
+        sampleCount: 40,
+      });
+      expect(scorePercentile(distribution, 30)?.value).toBe(0);
+      expect(scorePercentile(distribution, 95)?.value).toBe(100);
+    });
+
+    test("returns null for a month with too little history", () => {
+      const sparse = buildScoreDistribution(14, 5, [
+        { score: 60, count: MIN_CLIMATOLOGY_SAMPLES - 1 },
+      ]);
+
+      expect(scorePercentile(sparse, 60)).toBeNull();
+    });
+  });
+
+  test("monthOfDate reads the calendar month", () => {
+    expect(monthOfDate("2025-02-14")).toBe(2);
+    expect(monthOfDate("2025-12-01")).toBe(12);
+  });
+});
@@ -0,0 +1,81 @@
+// Domain Layer - Score Climatology Rule
+//
+// The same score means different things in different places and seasons:
+// 60 is a great February day in Aomori but a mediocre May day in Kanagawa.
+// A prefecture's per-month score distribution turns an absolute score into
+// a percentile against the days usually seen there in that month.
+
+export interface ScoreDistribution {
+  prefectureId: number;
+  month: number; // 1-12
+  sampleCount: number;
+  // histogram[s] = days whose score rounds to s (0-100)
+  histogram: number[];
+}
+
+export interface ScorePercentile {
+  value: number; // % of the month's days scoring strictly lower (0-100)
+  month: number; // 1-12
+  sampleCount: number;
+}
+
+// A month needs this many days of history before percentiles are reported
+export const MIN_CLIMATOLOGY_SAMPLES = 20;
+
+const HISTOGRAM_SIZE = 101;
+
+function toBucket(score: number): number {
+  return Math.max(0, Math.min(HISTOGRAM_SIZE - 1, Math.round(score)));
+}
+
+/**
+ * Build a month's distribution from day counts per score.
+ * @param counts - Days per score; scores are rounded and clamped to 0-100
+ */
+export function buildScoreDistribution(
+  prefectureId: number,
+  month: number,
+  counts: Array<{ score: number; count: number }>,
+): ScoreDistribution {
+  const histogram = new Array<number>(HISTOGRAM_SIZE).fill(0);
+  for (const { score, count } of counts) {
+    histogram[toBucket(score)] += count;
+  }
+  return {
+    prefectureId,
+    month,
+    sampleCount: histogram.reduce((sum, count) => sum + count, 0),
+    histogram,
+  };
+}
+
+/**
+ * Place a score within a month's distribution ("better than 85% of March
+ * days here").
+ * @returns The percentile, or null when the month has fewer than
+ *   MIN_CLIMATOLOGY_SAMPLES days of history
+ */
+export function scorePercentile(
+  distribution: ScoreDistribution,
+  score: number,
+): ScorePercentile | null {
+  if (distribution.sampleCount < MIN_CLIMATOLOGY_SAMPLES) return null;
+
+  const bucket = toBucket(score);
+  const lower = distribution.histogram
+    .slice(0, bucket)
+    .reduce((sum, count) => sum + count, 0);
+
+  return {
+    value: Math.round((lower / distribution.sampleCount) * 100),
+    month: distribution.month,
+    sampleCount: distribution.sampleCount,
+  };
+}
+
+/**
+ * Calendar month (1-12) of a YYYY-MM-DD date.
+ */
+export function monthOfDate(date: string): number {
+  return Number(date.slice(5, 7));
+}
@@ -23,7 +23,73 @@
  */
 
 import { z } from "zod";
-import type { AirQualityLevel, WeatherCondition } from "./Weather";
+import type {
+  AirQualityComponents,
+  AirQualityLevel,
+  WeatherCondition,
+} from "./Weather";
+
+/**
+ * Version of the scoring rule set. Bump it whenever a rule change — condition
+ * points, thresholds, weights, penalties or hazard caps — would score the same
+ * weather differently, so persisted scores can be told apart by the rules
+ * they were calculated under and recomputed.
+ */
+export const SCORING_RULES_VERSION = 4;
+
+/**
+ * Tunable thresholds for the threshold-based scoring functions.
+ * Scoring profiles (see ScoringProfile.ts) supply their own values;
+ * the defaults below reproduce the original single-profile behavior.
+ */
+export interface TemperatureRules {
+  ideal: number; // °C at which the full 20 points are awarded
+  pointsPerDegree: number; // Points deducted per 1°C deviation
+}
+
+export interface WindRules {
+  idealMin: number; // m/s, lower bound of the ideal breeze
+  idealMax: number; // m/s, upper bound of the ideal breeze
+  tolerableMax: number; // m/s, above this the score drops to 0
+  gustTolerance: number; // m/s, gust-over-mean gap ridden without deduction
+  pointsPerGustMs: number; // Points deducted per 1 m/s of gap beyond tolerance
+}
+
+export interface HumidityRules {
+  ideal: number; // % at which the full 10 points are awarded
+  percentPerPoint: number; // % deviation that costs 1 point
+}
+
+export interface PrecipitationRules {
+  percentPerPoint: number; // % chance of precipitation that costs 1 point
+}
+
+export interface UvIndexRules {
+  comfortableMax: number; // Full points up to this index
+  moderateMax: number; // Reduced points up to this index
+}
+
+export interface ScoreRuleThresholds {
+  temperature: TemperatureRules;
+  wind: WindRules;
+  humidity: HumidityRules;
+  precipitation: PrecipitationRules;
+  uvIndex: UvIndexRules;
+}
+
+export const DEFAULT_SCORE_RULE_THRESHOLDS: ScoreRuleThresholds = {
+  temperature: { ideal: 21.5, pointsPerDegree: 1 },
+  wind: {
+    idealMin: 1,
+    idealMax: 4,
+    tolerableMax: 7,
+    gustTolerance: 3,
+    pointsPerGustMs: 1.5,
+  },
+  humidity: { ideal: 50, percentPerPoint: 5 },
+  precipitation: { percentPerPoint: 10 },
+  uvIndex: { comfortableMax: 4, moderateMax: 6 },
+};
 
 /**
  * Zod schema for weather condition.
@@ -37,6 +103,10 @@ const _WeatherConditionSchema = z.enum([
   "fog",
   "drizzle",
   "rain",
+  "heavy_rain",
+  "thunderstorm",
+  "sleet",
+  "freezing_rain",
   "snow",
   "unknown",
 ]);
@@ -46,6 +116,89 @@ const _WeatherConditionSchema = z.enum([
  */
 const AirQualityLevelSchema = z.enum(["low", "medium", "high"]);
 
+/**
+ * Zod schema for pollutant concentrations (µg/m³).
+ */
+const AirQualityComponentsSchema = z.object({
+  pm25: z.number().min(0).optional(),
+  pm10: z.number().min(0).optional(),
+  o3: z.number().min(0).optional(),
+  no2: z.number().min(0).optional(),
+});
+
+/**
+ * Text in the two languages the API serves.
+ */
+export interface LocalizedText {
+  ja: string;
+  en: string;
+}
+
+/**
+ * A factor subscore together with the reason it was awarded. Each
+ * `evaluate*` function derives both from the same branch, so explanations
+ * cannot drift from the math; the matching `*Score` function returns the
+ * subscore alone.
+ */
+export interface FactorEvaluation {
+  score: number;
+  rationale: LocalizedText;
+}
+
+// Format a number for rationale text (at most 1 decimal)
+const fmt = (value: number): string => String(Math.round(value * 10) / 10);
+
+/**
+ * Units the measured values quoted in rationale text are written in. Scores
+ * are always calculated in metric; a response in other units supplies its
+ * own, so the text agrees with the converted inputs beside it.
+ */
+export interface RationaleUnits {
+  // Each formats a metric value in these units, without the unit label
+  temperature: (celsius: number) => string;
+  temperatureDifference: (celsius: number) => string;
+  windSpeed: (metersPerSecond: number) => string;
+  visibility: (km: number) => string;
+  precipitation: (mm: number) => string;
+  labels: {
+    temperature: string;
+    windSpeed: string;
+    visibility: string;
+    precipitation: string;
+  };
+}
+
+export const METRIC_RATIONALE_UNITS: RationaleUnits = {
+  temperature: fmt,
+  temperatureDifference: fmt,
+  windSpeed: fmt,
+  visibility: fmt,
+  precipitation: fmt,
+  labels: {
+    temperature: "°C",
+    windSpeed: "m/s",
+    visibility: "km",
+    precipitation: "mm",
+  },
+};
+
+const CONDITION_LABELS: Record<WeatherCondition, LocalizedText> = {
+  clear: { ja: "快晴", en: "Clear skies" },
+  mostly_clear: { ja: "晴れ", en: "Mostly clear skies" },
+  partly_cloudy: { ja: "晴れ時々曇り", en: "Partly cloudy skies" },
+  cloudy: { ja: "曇り", en: "Cloudy skies" },
+  overcast: { ja: "どんよりとした曇り", en: "Overcast skies" },
+  fog: { ja: "霧", en: "Fog" },
+  drizzle: { ja: "霧雨", en: "Drizzle" },
+  rain: { ja: "雨", en: "Rain" },
+  heavy_rain: { ja: "大雨", en: "Heavy rain" },
+  thunderstorm: { ja: "雷雨", en: "A thunderstorm" },
+  sleet: { ja: "みぞれ", en: "Sleet" },
+  freezing_rain: { ja: "着氷性の雨", en: "Freezing rain" },
+  snow: { ja: "雪", en: "Snow" },
+  unknown: { ja: "不明な天気", en: "Unknown conditions" },
+};
+
 /**
  * Convert weather condition to score (max 30 points).
  * - 'clear': ideal, full 30 points.
@@ -56,77 +209,258 @@ const AirQualityLevelSchema = z.enum(["low", "medium", "high"]);
  * - 'fog': poor visibility, very low score.
  * - 'drizzle': light/possible precipitation, 8 points (between fog and overcast).
  * - 'rain'/'snow': not suitable, 0 points.
+ * - 'heavy_rain'/'sleet'/'thunderstorm'/'freezing_rain': not suitable,
+ *   0 points; graded below rain by conditionPenalty.
  * - 'unknown': fallback score, 10 points.
  */
 export function weatherScore(condition: WeatherCondition): number {
+  return evaluateWeather(condition).score;
+}
+
+export function evaluateWeather(condition: WeatherCondition): FactorEvaluation {
+  const label = CONDITION_LABELS[condition] ?? CONDITION_LABELS.unknown;
+  const good = {
+    ja: `${label.ja}でツーリングに最適です`,
+    en: `${label.en} are ideal for riding`,
+  };
+  const dull = {
+    ja: `${label.ja}で走行できますが快適さは劣ります`,
+    en: `${label.en} are rideable but less enjoyable`,
+  };
+  const poor = {
+    ja: `${label.ja}のため視界や路面に注意が必要です`,
+    en: `${label.en} reduces visibility or grip`,
+  };
+  const unsafe = {
+    ja: `${label.ja}のため走行は危険です`,
+    en: `${label.en} makes riding unsafe`,
+  };
+
   switch (condition) {
     case "clear":
-      return 30;
+      return { score: 30, rationale: good };
     case "mostly_clear":
-      return 28;
+      return { score: 28, rationale: good };
     case "partly_cloudy":
-      return 23;
+      return { score: 23, rationale: good };
     case "cloudy":
-      return 15;
+      return { score: 15, rationale: dull };
     case "overcast":
-      return 12;
+      return { score: 12, rationale: dull };
     case "fog":
-      return 5;
+      return { score: 5, rationale: poor };
     case "drizzle":
-      return 8;
+      return { score: 8, rationale: poor };
     case "rain":
+    case "heavy_rain":
+    case "sleet":
+    case "thunderstorm":
+    case "freezing_rain":
     case "snow":
-      return 0;
+      return { score: 0, rationale: unsafe };
     default:
-      return 10; // unknown fallback score
+      // unknown fallback score
+      return {
+        score: 10,
+        rationale: {
+          ja: "天気を判定できないため中間の点数です",
+          en: "Conditions could not be determined; scored as average",
+        },
+      };
   }
 }
 
+/**
+ * Points deducted from the touring score for conditions worse than rain.
+ * The weather factor bottoms out at 0 for rain, so these conditions are
+ * graded by a deduction from the total instead.
+ */
+const CONDITION_SCORE_PENALTIES: Partial<Record<WeatherCondition, number>> = {
+  heavy_rain: 5,
+  sleet: 10,
+  thunderstorm: 15,
+  freezing_rain: 20,
+};
+
+/**
+ * Points to deduct from the touring score for a weather condition.
+ * - 'heavy_rain': 5 points, 'sleet': 10, 'thunderstorm': 15,
+ *   'freezing_rain': 20.
+ * - Every other condition: 0 points.
+ */
+export function conditionPenalty(condition: WeatherCondition): number {
+  return CONDITION_SCORE_PENALTIES[condition] ?? 0;
+}
+
 /**
  * Convert temperature (°C) to score (max 20 points).
- * - Ideal range is 18–25°C, center at 21.5°C.
+ * The touring index passes the apparent temperature felt at cruising speed
+ * (see ApparentTemperature.ts), which can fall outside the air range.
+ * - Ideal range is 18–25°C, center at 21.5°C (default rules).
  * - Deduct 1 point for each 1°C deviation from 21.5.
  * - Never returns less than 0 or more than 20.
  *   (e.g. 21.5°C = 20pts, 16.5°C/26.5°C = 15pts,
  */
-export function temperatureScore(temp: number): number {
-  // Type and value validation: -50°C to 60°C
-  z.number().min(-50).max(60).parse(temp);
+export function temperatureScore(
+  temp: number,
+  rules: TemperatureRules = DEFAULT_SCORE_RULE_THRESHOLDS.temperature,
+): number {
+  return evaluateTemperature(temp, rules).score;
+}
+
+export function evaluateTemperature(
+  temp: number,
+  rules: TemperatureRules = DEFAULT_SCORE_RULE_THRESHOLDS.temperature,
+  units: RationaleUnits = METRIC_RATIONALE_UNITS,
+): FactorEvaluation {
+  // Type and value validation: -100°C to 100°C (apparent temperature range)
+  z.number().min(-100).max(100).parse(temp);
 
-  const ideal = 21.5;
-  const diff = Math.abs(temp - ideal);
-  const score = 20 - diff * 1; // 1 point per degree deviation
-  return Math.max(0, Math.min(20, Math.round(score)));
+  const diff = Math.abs(temp - rules.ideal);
+  const raw = 20 - diff * rules.pointsPerDegree;
+  const score = Math.max(0, Math.min(20, Math.round(raw)));
+
+  const unit = units.labels.temperature;
+  const felt = `${units.temperature(temp)}${unit}`;
+  const ideal = `${units.temperature(rules.ideal)}${unit}`;
+  if (score === 20) {
+    return {
+      score,
+      rationale: {
+        ja: `体感${felt}は理想の${ideal}に近く快適です`,
+        en: `Feels like ${felt}, close to the ideal ${ideal}`,
+      },
+    };
+  }
+  const colder = temp < rules.ideal;
+  const gap = `${units.temperatureDifference(diff)}${unit}`;
+  return {
+    score,
+    rationale: {
+      ja: `体感${felt}は理想の${ideal}より${gap}${colder ? "低い" : "高い"}です`,
+      en: `Feels like ${felt}, ${gap} ${colder ? "colder" : "warmer"} than the ideal ${ideal}`,
+    },
+  };
 }
+
 /**
  * Convert wind speed (m/s) to score (max 15 points).
- * - 1–4 m/s: ideal wind, full points.
+ * - 1–4 m/s: ideal wind, full points (default rules).
  * - 0 m/s or 5–7 m/s: some discomfort, but still rideable.
  * - >7 m/s: dangerous or uncomfortable, no points.
+ * - Gustiness: when the gust exceeds the mean speed by more than 3 m/s,
+ *   deduct 1.5 points per extra 1 m/s (default rules).
  */
-export function windScore(wind: number): number {
+export function windScore(
+  wind: number,
+  rules: WindRules = DEFAULT_SCORE_RULE_THRESHOLDS.wind,
+  gust?: number,
+): number {
+  return evaluateWind(wind, rules, gust).score;
+}
+
+export function evaluateWind(
+  wind: number,
+  rules: WindRules = DEFAULT_SCORE_RULE_THRESHOLDS.wind,
+  gust?: number,
+  units: RationaleUnits = METRIC_RATIONALE_UNITS,
+): FactorEvaluation {
   // Type and value validation: 0–100 m/s (extended for daily max values)
   z.number().min(0).max(100).parse(wind);
 
-  if (wind >= 1 && wind <= 4) return 15; // Ideal breeze for touring
-  if (wind === 0 || (wind > 4 && wind <= 7)) return 10; // Either no wind or slightly strong wind
-  if (wind > 7) return 0; // Too strong, may be unsafe
-  return 10; // For negative/invalid input, fallback to mid score
+  const unit = units.labels.windSpeed;
+  const speed = units.windSpeed(wind);
+  let score: number;
+  let rationale: LocalizedText;
+  if (wind >= rules.idealMin && wind <= rules.idealMax) {
+    // Ideal breeze for touring
+    score = 15;
+    rationale = {
+      ja: `風速${speed} ${unit}は心地よい風です`,
+      en: `Wind ${speed} ${unit} is a comfortable breeze`,
+    };
+  } else if (wind > rules.tolerableMax) {
+    // Too strong, may be unsafe
+    return {
+      score: 0,
+      rationale: {
+        ja: `風速${speed} ${unit}は安全基準の${units.windSpeed(rules.tolerableMax)} ${unit}を超えています`,
+        en: `Wind ${speed} ${unit} exceeds safe threshold of ${units.windSpeed(rules.tolerableMax)} ${unit}`,
+      },
+    };
+  } else {
+    // Either no wind or slightly strong wind
+    score = 10;
+    rationale = {
+      ja: `風速${speed} ${unit}は理想の${units.windSpeed(rules.idealMin)}〜${units.windSpeed(rules.idealMax)} ${unit}の範囲外です`,
+      en: `Wind ${speed} ${unit} is outside the ideal ${units.windSpeed(rules.idealMin)}-${units.windSpeed(rules.idealMax)} ${unit} range`,
+    };
+  }
+
+  if (gust === undefined) return { score, rationale };
+  z.number().min(0).max(150).parse(gust);
+
+  // Sudden gusts upset the bike far more than a steady wind of the same speed
+  const gustiness = Math.max(0, gust - wind);
+  const penalty =
+    Math.max(0, gustiness - rules.gustTolerance) * rules.pointsPerGustMs;
+  if (penalty === 0) return { score, rationale };
+
+  return {
+    score: Math.max(0, Math.round(score - penalty)),
+    rationale: {
+      ja: `${rationale.ja}。最大瞬間風速${units.windSpeed(gust)} ${unit}の突風で車体が不安定になります`,
+      en: `${rationale.en}; gusts of ${units.windSpeed(gust)} ${unit} make the bike unstable`,
+    },
+  };
 }
 
 /**
  * Convert relative humidity (%) to score (max 10 points).
- * - Ideal is 40–60% (centered at 50%).
+ * - Ideal is 40–60% (centered at 50%, default rules).
  * - Deduct 1 point for every 5% deviation from 50%.
  * - Minimum 0, maximum 10.
  */
-export function humidityScore(humidity: number): number {
+export function humidityScore(
+  humidity: number,
+  rules: HumidityRules = DEFAULT_SCORE_RULE_THRESHOLDS.humidity,
+): number {
+  return evaluateHumidity(humidity, rules).score;
+}
+
+export function evaluateHumidity(
+  humidity: number,
+  rules: HumidityRules = DEFAULT_SCORE_RULE_THRESHOLDS.humidity,
+): FactorEvaluation {
   // Type and value validation: 0–100%
   z.number().min(0).max(100).parse(humidity);
 
-  const diff = Math.abs(humidity - 50);
-  const score = 10 - diff / 5;
-  return Math.max(0, Math.min(10, Math.round(score)));
+  const diff = Math.abs(humidity - rules.ideal);
+  const raw = 10 - diff / rules.percentPerPoint;
+  const score = Math.max(0, Math.min(10, Math.round(raw)));
+
+  if (score === 10) {
+    return {
+      score,
+      rationale: {
+        ja: `湿度${fmt(humidity)}%は快適です`,
+        en: `Humidity ${fmt(humidity)}% is comfortable`,
+      },
+    };
+  }
+  return {
+    score,
+    rationale:
+      humidity > rules.ideal
+        ? {
+            ja: `湿度${fmt(humidity)}%は蒸し暑く感じます`,
+            en: `Humidity ${fmt(humidity)}% feels muggy`,
+          }
+        : {
+            ja: `湿度${fmt(humidity)}%は乾燥しています`,
+            en: `Humidity ${fmt(humidity)}% is dry`,
+          },
+  };
 }
 
 /**
@@ -137,58 +471,315 @@ export function humidityScore(humidity: number): number {
  * - <6km: poor, 0 points.
  */
 export function visibilityScore(visibility: number): number {
+  return evaluateVisibility(visibility).score;
+}
+
+export function evaluateVisibility(
+  visibility: number,
+  units: RationaleUnits = METRIC_RATIONALE_UNITS,
+): FactorEvaluation {
   // Type and value validation: 0–100km
   z.number().min(0).max(100).parse(visibility);
 
-  if (visibility >= 15) return 5; // Panoramic view, best for touring
-  if (visibility >= 10) return 4; // Good, but not perfect
-  if (visibility >= 6) return 2; // Average, but still manageable
-  return 0; // Poor visibility, not recommended
+  const v = `${units.visibility(visibility)} ${units.labels.visibility}`;
+  // Panoramic view, best for touring
+  if (visibility >= 15) {
+    return {
+      score: 5,
+      rationale: {
+        ja: `視程${v}で眺望は最高です`,
+        en: `Visibility ${v} offers panoramic views`,
+      },
+    };
+  }
+  // Good, but not perfect
+  if (visibility >= 10) {
+    return {
+      score: 4,
+      rationale: {
+        ja: `視程${v}で見通しは良好です`,
+        en: `Visibility ${v} is good`,
+      },
+    };
+  }
+  // Average, but still manageable
+  if (visibility >= 6) {
+    return {
+      score: 2,
+      rationale: {
+        ja: `視程${v}でやや見通しが悪いです`,
+        en: `Visibility ${v} is limited`,
+      },
+    };
+  }
+  // Poor visibility, not recommended
+  return {
+    score: 0,
+    rationale: {
+      ja: `視程${v}で見通しが悪く危険です`,
+      en: `Visibility ${v} is poor and unsafe`,
+    },
+  };
 }
 
+// Precipitation amount (mm) at or below which rain is only a trace
+const TRACE_PRECIPITATION_MM = 0.5;
+// Precipitation amount (mm) at or above which rain counts as heavy
+const HEAVY_PRECIPITATION_MM = 10;
+// Rainfall (mm) in the preceding hours that leaves the road damp / soaked
+const DAMP_ROAD_PRECIPITATION_MM = 1;
+const SOAKED_ROAD_PRECIPITATION_MM = 5;
+
 /**
  * Convert precipitation probability (%) to score (max 10 points).
  * - 0% chance = 10 points (ideal).
- * - Subtract 1 point for every 10% chance of precipitation.
+ * - Subtract 1 point for every 10% chance of precipitation (default rules).
  * - e.g. 30% = 7pts, 50% = 5pts, 100% = 0pts.
+ * - Amount (mm): a trace (≤0.5 mm) halves the probability deduction,
+ *   heavy rain (≥10 mm) increases it by half.
+ * - Wet road: rainfall in the preceding hours deducts 2 points from 1 mm,
+ *   4 points from 5 mm.
  */
-export function precipitationProbabilityScore(prob: number): number {
+export function precipitationProbabilityScore(
+  prob: number,
+  rules: PrecipitationRules = DEFAULT_SCORE_RULE_THRESHOLDS.precipitation,
+  amount?: number,
+  recentAmount?: number,
+): number {
+  return evaluatePrecipitation(prob, rules, amount, recentAmount).score;
+}
+
+export function evaluatePrecipitation(
+  prob: number,
+  rules: PrecipitationRules = DEFAULT_SCORE_RULE_THRESHOLDS.precipitation,
+  amount?: number,
+  recentAmount?: number,
+  units: RationaleUnits = METRIC_RATIONALE_UNITS,
+): FactorEvaluation {
   // Type and value validation: 0–100%
   z.number().min(0).max(100).parse(prob);
+  z.number().min(0).optional().parse(amount);
+  z.number().min(0).optional().parse(recentAmount);
 
-  const score = 10 - prob / 10;
-  return Math.max(0, Math.min(10, Math.round(score)));
+  let intensity = 1;
+  if (amount !== undefined && amount <= TRACE_PRECIPITATION_MM) intensity = 0.5;
+  if (amount !== undefined && amount >= HEAVY_PRECIPITATION_MM) intensity = 1.5;
+
+  const wetRoadPenalty = roadWetnessPenalty(recentAmount);
+  const raw = 10 - (prob / rules.percentPerPoint) * intensity - wetRoadPenalty;
+  const score = Math.max(0, Math.min(10, Math.round(raw)));
+
+  const rain = (mm: number) =>
+    `${units.precipitation(mm)} ${units.labels.precipitation}`;
+  const ja: string[] = [];
+  const en: string[] = [];
+  if (prob === 0) {
+    ja.push("降水の可能性はありません");
+    en.push("No chance of rain");
+  } else {
+    ja.push(`降水確率${fmt(prob)}%`);
+    en.push(`${fmt(prob)}% chance of rain`);
+    if (intensity < 1) {
+      ja.push(`降水量${rain(amount as number)}はごくわずかです`);
+      en.push(`only a trace of ${rain(amount as number)}`);
+    } else if (intensity > 1) {
+      ja.push(`降水量${rain(amount as number)}の強い雨です`);
+      en.push(`heavy at ${rain(amount as number)}`);
+    }
+  }
+  if (wetRoadPenalty > 0) {
+    ja.push(`直前の雨${rain(recentAmount as number)}で路面が濡れています`);
+    en.push(
+      `roads still wet from ${rain(recentAmount as number)} of earlier rain`,
+    );
+  }
+
+  return { score, rationale: { ja: ja.join("、"), en: en.join("; ") } };
+}
+
+/**
+ * Points deducted for roads still wet from rain in the preceding hours.
+ * @param recentAmount - Rainfall (mm) in the preceding hours (optional)
+ */
+export function roadWetnessPenalty(recentAmount?: number): number {
+  if (recentAmount === undefined) return 0;
+  if (recentAmount >= SOAKED_ROAD_PRECIPITATION_MM) return 4;
+  if (recentAmount >= DAMP_ROAD_PRECIPITATION_MM) return 2;
+  return 0;
 }
 
 /**
  * Convert UV index to score (max 5 points).
- * - 0–4: comfortable, 5 points.
+ * - 0–4: comfortable, 5 points (default rules).
  * - 5–6: some risk of sunburn, 3 points.
  * - 7 or higher: high risk, 0 points.
  */
-export function uvIndexScore(uv: number): number {
+export function uvIndexScore(
+  uv: number,
+  rules: UvIndexRules = DEFAULT_SCORE_RULE_THRESHOLDS.uvIndex,
+): number {
+  return evaluateUvIndex(uv, rules).score;
+}
+
+export function evaluateUvIndex(
+  uv: number,
+  rules: UvIndexRules = DEFAULT_SCORE_RULE_THRESHOLDS.uvIndex,
+): FactorEvaluation {
   // Type and value validation: 0–20
   z.number().min(0).max(20).parse(uv);
 
-  if (uv <= 4) return 5; // Low UV, no concern
-  if (uv <= 6) return 3; // Moderate UV, some caution needed
-  return 0; // High UV, uncomfortable or risky
+  // Low UV, no concern
+  if (uv <= rules.comfortableMax) {
+    return {
+      score: 5,
+      rationale: {
+        ja: `UV指数${fmt(uv)}は問題ありません`,
+        en: `UV index ${fmt(uv)} is low`,
+      },
+    };
+  }
+  // Moderate UV, some caution needed
+  if (uv <= rules.moderateMax) {
+    return {
+      score: 3,
+      rationale: {
+        ja: `UV指数${fmt(uv)}は日焼けに注意が必要です`,
+        en: `UV index ${fmt(uv)} carries some risk of sunburn`,
+      },
+    };
+  }
+  // High UV, uncomfortable or risky
+  return {
+    score: 0,
+    rationale: {
+      ja: `UV指数${fmt(uv)}は非常に強いです`,
+      en: `UV index ${fmt(uv)} is high`,
+    },
+  };
 }
 
+// Concentrations (µg/m³) up to which a pollutant costs nothing, and from
+// which the factor scores 0 (roughly the US EPA AQI "good" and "unhealthy"
+// breakpoints)
+const AIR_QUALITY_COMPONENT_RANGES: Record<
+  keyof AirQualityComponents,
+  { label: string; clean: number; unhealthy: number }
+> = {
+  pm25: { label: "PM2.5", clean: 12, unhealthy: 55.5 },
+  pm10: { label: "PM10", clean: 54, unhealthy: 255 },
+  o3: { label: "O3", clean: 100, unhealthy: 200 },
+  no2: { label: "NO2", clean: 100, unhealthy: 680 },
+};
+
 /**
- * Convert air quality/pollen level to score (max 5 points).
+ * Convert air quality to score (max 5 points).
+ * With pollutant concentrations, the worst pollutant decides on a
+ * continuous curve: 5 points up to its clean level, falling linearly to 0
+ * at its unhealthy level (PM2.5 12-55.5, PM10 54-255, O3 100-200,
+ * NO2 100-680 µg/m³).
+ * Otherwise the legacy level applies:
  * - 'low': ideal, 5 points.
  * - 'medium': moderate, 3 points.
  * - 'high': bad, 0 points.
  * - undefined: treat as 'low' (best case).
  */
-export function airQualityScore(level: AirQualityLevel | undefined): number {
+export function airQualityScore(
+  level: AirQualityLevel | undefined,
+  components?: AirQualityComponents,
+): number {
+  return evaluateAirQuality(level, components).score;
+}
+
+export function evaluateAirQuality(
+  level: AirQualityLevel | undefined,
+  components?: AirQualityComponents,
+): FactorEvaluation {
   // Allow undefined (treat as 'low'), otherwise must be valid
   if (level !== undefined) {
     AirQualityLevelSchema.parse(level);
   }
+  AirQualityComponentsSchema.optional().parse(components);
+
+  const worst = worstAirQualityComponent(components);
+  if (worst) {
+    const { label, concentration, score } = worst;
+    if (score === 5) {
+      return {
+        score,
+        rationale: { ja: "空気はきれいです", en: "Air quality is good" },
+      };
+    }
+    if (score > 0) {
+      return {
+        score,
+        rationale: {
+          ja: `${label} ${fmt(concentration)} µg/m³で大気汚染がやや見られます`,
+          en: `Air quality is moderate with ${label} at ${fmt(concentration)} µg/m³`,
+        },
+      };
+    }
+    return {
+      score,
+      rationale: {
+        ja: `${label} ${fmt(concentration)} µg/m³で大気汚染がひどく屋外活動に適しません`,
+        en: `Air quality is poor with ${label} at ${fmt(concentration)} µg/m³`,
+      },
+    };
+  }
 
-  if (level === "low" || !level) return 5; // No pollen/smog, perfect
-  if (level === "medium") return 3; // Some discomfort
-  return 0; // Bad air, not recommended for outdoor activity
+  // No pollen/smog, perfect
+  if (level === "low" || !level) {
+    return {
+      score: 5,
+      rationale: { ja: "空気はきれいです", en: "Air quality is good" },
+    };
+  }
+  // Some discomfort
+  if (level === "medium") {
+    return {
+      score: 3,
+      rationale: {
+        ja: "大気汚染がやや見られます",
+        en: "Air quality is moderate",
+      },
+    };
+  }
+  // Bad air, not recommended for outdoor activity
+  return {
+    score: 0,
+    rationale: {
+      ja: "大気汚染がひどく屋外活動に適しません",
+      en: "Air quality is poor",
+    },
+  };
+}
+
+/**
+ * The reported pollutant that costs the most points, scored on its curve
+ * (rounded to 1 decimal).
+ * @returns undefined when no pollutant is reported
+ */
+function worstAirQualityComponent(
+  components: AirQualityComponents | undefined,
+): { label: string; concentration: number; score: number } | undefined {
+  let worst:
+    | { label: string; concentration: number; score: number }
+    | undefined;
+  for (const component of Object.keys(
+    AIR_QUALITY_COMPONENT_RANGES,
+  ) as (keyof AirQualityComponents)[]) {
+    const concentration = components?.[component];
+    if (concentration === undefined) continue;
+
+    const { label, clean, unhealthy } = AIR_QUALITY_COMPONENT_RANGES[component];
+    const excess = Math.max(
+      0,
+      Math.min(1, (concentration - clean) / (unhealthy - clean)),
+    );
+    const score = Math.round(5 * (1 - excess) * 10) / 10;
+    if (!worst || score < worst.score) {
+      worst = { label, concentration, score };
+    }
+  }
+  return worst;
 }
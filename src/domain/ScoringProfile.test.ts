@@ -0,0 +1,34 @@
+import { describe, expect, test } from "bun:test";
+import {
+  getScoringProfile,
+  SCORING_PROFILES,
+  ScoringProfileNameSchema,
+} from "./ScoringProfile";
+import { TOURING_SCORE_MAX } from "./TouringScore";
+
+describe("ScoringProfile", () => {
+  test("defines a profile for every profile name", () => {
+    for (const name of ScoringProfileNameSchema.options) {
+      expect(SCORING_PROFILES[name].name).toBe(name);
+    }
+  });
+
+  test("every profile's weights sum to the maximum index score", () => {
+    for (const profile of Object.values(SCORING_PROFILES)) {
+      const total = Object.values(profile.weights).reduce(
+        (sum, weight) => sum + weight,
+        0,
+      );
+      expect(total).toBe(TOURING_SCORE_MAX);
+    }
+  });
+
+  test("falls back to the standard profile when no name is given", () => {
+    expect(getScoringProfile().name).toBe("standard");
+    expect(getScoringProfile("sport").name).toBe("sport");
+  });
+
+  test("rejects unknown profile names", () => {
+    expect(ScoringProfileNameSchema.safeParse("racing").success).toBe(false);
+  });
+});
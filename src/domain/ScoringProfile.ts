@@ -0,0 +1,169 @@
+import { z } from "zod";
+import { DEFAULT_CRUISING_SPEED_KMH } from "./ApparentTemperature";
+import {
+  DEFAULT_SCORE_RULE_THRESHOLDS,
+  type ScoreRuleThresholds,
+} from "./ScoreRules";
+import { DEFAULT_FACTOR_WEIGHTS, type FactorWeights } from "./TouringScore";
+
+/**
+ * Enum schema for rider scoring profiles.
+ * - 'standard': the original all-round index (default).
+ * - 'commuter': short urban trips on scooters; rain matters most.
+ * - 'sport': spirited riding; wind and grip-related factors dominate.
+ * - 'touring': long days in the saddle; tolerant of cooler temperatures.
+ * - 'adventure': mixed surfaces and remote roads; visibility and rain dominate.
+ */
+export const ScoringProfileNameSchema = z.enum([
+  "standard",
+  "commuter",
+  "sport",
+  "touring",
+  "adventure",
+]);
+export type ScoringProfileName = z.infer<typeof ScoringProfileNameSchema>;
+
+export const DEFAULT_SCORING_PROFILE_NAME: ScoringProfileName = "standard";
+
+/**
+ * A named combination of factor weights, scoring thresholds and the
+ * cruising speed used for the apparent temperature.
+ */
+export interface ScoringProfile {
+  name: ScoringProfileName;
+  weights: FactorWeights;
+  thresholds: ScoreRuleThresholds;
+  cruisingSpeed: number; // km/h
+}
+
+export const SCORING_PROFILES: Readonly<
+  Record<ScoringProfileName, ScoringProfile>
+> = {
+  standard: {
+    name: "standard",
+    cruisingSpeed: DEFAULT_CRUISING_SPEED_KMH,
+    weights: { ...DEFAULT_FACTOR_WEIGHTS },
+    thresholds: DEFAULT_SCORE_RULE_THRESHOLDS,
+  },
+  commuter: {
+    name: "commuter",
+    cruisingSpeed: 40,
+    weights: {
+      weather: 30,
+      temperature: 15,
+      wind: 10,
+      humidity: 5,
+      visibility: 5,
+      precipitationProbability: 25,
+      uvIndex: 5,
+      airQuality: 5,
+    },
+    thresholds: {
+      temperature: { ideal: 20, pointsPerDegree: 0.75 },
+      // Light scooters are pushed around by gusts earlier than big bikes
+      wind: {
+        idealMin: 0,
+        idealMax: 3,
+        tolerableMax: 6,
+        gustTolerance: 2,
+        pointsPerGustMs: 2,
+      },
+      humidity: { ideal: 50, percentPerPoint: 6 },
+      precipitation: { percentPerPoint: 7 },
+      uvIndex: { comfortableMax: 5, moderateMax: 7 },
+    },
+  },
+  sport: {
+    name: "sport",
+    cruisingSpeed: 90,
+    weights: {
+      weather: 30,
+      temperature: 20,
+      wind: 20,
+      humidity: 5,
+      visibility: 5,
+      precipitationProbability: 15,
+      uvIndex: 2,
+      airQuality: 3,
+    },
+    thresholds: {
+      // Leathers shift comfort lower, and cold tyres lose grip quickly
+      temperature: { ideal: 20, pointsPerDegree: 1.25 },
+      wind: {
+        idealMin: 0,
+        idealMax: 3,
+        tolerableMax: 6,
+        gustTolerance: 2,
+        pointsPerGustMs: 2,
+      },
+      humidity: { ideal: 50, percentPerPoint: 5 },
+      precipitation: { percentPerPoint: 8 },
+      uvIndex: { comfortableMax: 5, moderateMax: 7 },
+    },
+  },
+  touring: {
+    name: "touring",
+    cruisingSpeed: 80,
+    weights: {
+      weather: 25,
+      temperature: 20,
+      wind: 15,
+      humidity: 10,
+      visibility: 10,
+      precipitationProbability: 10,
+      uvIndex: 5,
+      airQuality: 5,
+    },
+    thresholds: {
+      // Layered touring gear widens the comfortable band
+      temperature: { ideal: 21.5, pointsPerDegree: 0.8 },
+      wind: {
+        idealMin: 1,
+        idealMax: 5,
+        tolerableMax: 8,
+        gustTolerance: 3,
+        pointsPerGustMs: 1.5,
+      },
+      humidity: { ideal: 50, percentPerPoint: 5 },
+      precipitation: { percentPerPoint: 10 },
+      uvIndex: { comfortableMax: 4, moderateMax: 6 },
+    },
+  },
+  adventure: {
+    name: "adventure",
+    cruisingSpeed: 50,
+    weights: {
+      weather: 20,
+      temperature: 15,
+      wind: 15,
+      humidity: 5,
+      visibility: 15,
+      precipitationProbability: 20,
+      uvIndex: 5,
+      airQuality: 5,
+    },
+    thresholds: {
+      temperature: { ideal: 18, pointsPerDegree: 0.75 },
+      // Upright riding position and slower speeds shrug off gusts better
+      wind: {
+        idealMin: 0,
+        idealMax: 5,
+        tolerableMax: 9,
+        gustTolerance: 4,
+        pointsPerGustMs: 1,
+      },
+      humidity: { ideal: 50, percentPerPoint: 7 },
+      precipitation: { percentPerPoint: 8 },
+      uvIndex: { comfortableMax: 5, moderateMax: 7 },
+    },
+  },
+};
+
+/**
+ * Resolve a scoring profile by name, falling back to the default profile.
+ * @param name - Profile name (optional)
+ * @returns The matching ScoringProfile
+ */
+export function getScoringProfile(name?: ScoringProfileName): ScoringProfile {
+  return SCORING_PROFILES[name ?? DEFAULT_SCORING_PROFILE_NAME];
+}
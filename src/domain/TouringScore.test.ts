@@ -0,0 +1,89 @@
+import { describe, expect, test } from "bun:test";
+import { ZodError } from "zod";
+import {
+  applyFactorWeights,
+  calculateTouringScore,
+  DEFAULT_FACTOR_WEIGHTS,
+  resolveFactorWeights,
+  TOURING_FACTOR_MAX,
+  withoutFactors,
+} from "./TouringScore";
+
+describe("calculateTouringScore", () => {
+  test("sums native subscores with the default weights", () => {
+    expect(calculateTouringScore({ ...TOURING_FACTOR_MAX })).toBe(100);
+  });
+
+  test("rescales each subscore onto its weight", () => {
+    const factors = { ...TOURING_FACTOR_MAX, wind: 0 };
+    const weights = { ...DEFAULT_FACTOR_WEIGHTS, weather: 15, wind: 30 };
+
+    expect(calculateTouringScore(factors, weights)).toBe(70);
+    expect(applyFactorWeights(factors, weights)).toMatchObject({
+      weather: 15,
+      wind: 0,
+    });
+  });
+});
+
+describe("resolveFactorWeights", () => {
+  test("returns the base weights when nothing is overridden", () => {
+    expect(resolveFactorWeights({})).toEqual(DEFAULT_FACTOR_WEIGHTS);
+  });
+
+  test("renormalizes the merged distribution to 100 points", () => {
+    const weights = resolveFactorWeights({ wind: 65 });
+    const total = Object.values(weights).reduce((sum, w) => sum + w, 0);
+
+    expect(weights.wind).toBe(43.33);
+    expect(weights.weather).toBe(20);
+    expect(total).toBeCloseTo(100, 1);
+  });
+
+  test("rejects negative and unknown weights", () => {
+    expect(() => resolveFactorWeights({ wind: -1 })).toThrow(ZodError);
+    expect(() => resolveFactorWeights({ pollen: 5 })).toThrow(ZodError);
+  });
+
+  test("rejects a distribution with fewer than two weighted factors", () => {
+    expect(() =>
+      resolveFactorWeights({
+        weather: 0,
+        temperature: 0,
+        wind: 0,
+        humidity: 0,
+        visibility: 0,
+        precipitationProbability: 0,
+        uvIndex: 0,
+        airQuality: 10,
+      }),
+    ).toThrow("at least two factors");
+  });
+
+  test("rejects a distribution dominated by one factor", () => {
+    expect(() =>
+      resolveFactorWeights({ weather: 100, temperature: 0, wind: 0 }),
+    ).toThrow("weather must not exceed 60% of the total weight");
+  });
+});
+
+describe("withoutFactors", () => {
+  test("returns the weights unchanged when nothing is excluded", () => {
+    expect(withoutFactors(DEFAULT_FACTOR_WEIGHTS, [])).toBe(
+      DEFAULT_FACTOR_WEIGHTS,
+    );
+  });
+
+  test("drops excluded factors and rescales the rest to 100 points", () => {
+    const weights = withoutFactors(DEFAULT_FACTOR_WEIGHTS, [
+      "visibility",
+      "airQuality",
+    ]);
+    const total = Object.values(weights).reduce((sum, w) => sum + w, 0);
+
+    expect(weights.visibility).toBe(0);
+    expect(weights.airQuality).toBe(0);
+    expect(weights.weather).toBeCloseTo(33.33, 2);
+    expect(total).toBeCloseTo(100, 6);
+  });
+});
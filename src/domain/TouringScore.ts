@@ -16,32 +16,209 @@ export const TouringScoreFactorsSchema = z.object({
 });
 export type TouringScoreFactors = z.infer<typeof TouringScoreFactorsSchema>;
 
+export type TouringScoreFactor = keyof TouringScoreFactors;
+
 /**
  * Maximum possible touring comfort index score
  */
 export const TOURING_SCORE_MAX = 100;
 
+/**
+ * Native maximum of each factor subscore, as produced by ScoreRules.ts.
+ */
+export const TOURING_FACTOR_MAX: Readonly<TouringScoreFactors> = {
+  weather: 30,
+  temperature: 20,
+  wind: 15,
+  humidity: 10,
+  visibility: 5,
+  precipitationProbability: 10,
+  uvIndex: 5,
+  airQuality: 5,
+};
+
+/**
+ * Points each factor contributes to the index at full marks.
+ * Weights must sum to TOURING_SCORE_MAX.
+ */
+export type FactorWeights = Record<TouringScoreFactor, number>;
+
+export const DEFAULT_FACTOR_WEIGHTS: Readonly<FactorWeights> =
+  TOURING_FACTOR_MAX;
+
+/**
+ * Largest share of the index (in points) a single factor may carry after
+ * renormalization. Keeps caller-tuned indexes from collapsing onto one factor.
+ */
+export const MAX_FACTOR_WEIGHT_SHARE = 60;
+
+const factorWeightSchema = z.number().finite().min(0).max(TOURING_SCORE_MAX);
+
+/**
+ * Zod schema for caller-supplied per-factor weight overrides.
+ * Every factor is optional; unknown factors are rejected.
+ */
+export const FactorWeightOverridesSchema = z
+  .object({
+    weather: factorWeightSchema.optional(),
+    temperature: factorWeightSchema.optional(),
+    wind: factorWeightSchema.optional(),
+    humidity: factorWeightSchema.optional(),
+    visibility: factorWeightSchema.optional(),
+    precipitationProbability: factorWeightSchema.optional(),
+    uvIndex: factorWeightSchema.optional(),
+    airQuality: factorWeightSchema.optional(),
+  })
+  .strict();
+export type FactorWeightOverrides = z.infer<typeof FactorWeightOverridesSchema>;
+
+/**
+ * Zod schema for a complete weight distribution before renormalization.
+ * The distribution must carry weight on at least two factors, and no
+ * factor may exceed MAX_FACTOR_WEIGHT_SHARE once rescaled to 100 points.
+ */
+export const FactorWeightsSchema = z
+  .object({
+    weather: factorWeightSchema,
+    temperature: factorWeightSchema,
+    wind: factorWeightSchema,
+    humidity: factorWeightSchema,
+    visibility: factorWeightSchema,
+    precipitationProbability: factorWeightSchema,
+    uvIndex: factorWeightSchema,
+    airQuality: factorWeightSchema,
+  })
+  .superRefine((weights, ctx) => {
+    const values = Object.values(weights);
+    const total = values.reduce((sum, weight) => sum + weight, 0);
+    if (values.filter((weight) => weight > 0).length < 2) {
+      ctx.addIssue({
+        code: "custom",
+        message:
+          "weights must assign a positive weight to at least two factors",
+      });
+      return;
+    }
+
+    for (const [factor, weight] of Object.entries(weights)) {
+      if ((weight / total) * TOURING_SCORE_MAX > MAX_FACTOR_WEIGHT_SHARE) {
+        ctx.addIssue({
+          code: "custom",
+          path: [factor],
+          message: `${factor} must not exceed ${MAX_FACTOR_WEIGHT_SHARE}% of the total weight`,
+        });
+      }
+    }
+  });
+
+/**
+ * Merges weight overrides onto a base distribution and rescales the result
+ * so the weights sum to TOURING_SCORE_MAX.
+ * @param overrides - Caller-supplied per-factor weights (possibly untrusted)
+ * @param base - Weights used for factors without an override
+ * @returns Effective weights rounded to 2 decimals
+ * @throws ZodError if the overrides or the merged distribution are invalid
+ */
+export function resolveFactorWeights(
+  overrides: unknown,
+  base: FactorWeights = DEFAULT_FACTOR_WEIGHTS,
+): FactorWeights {
+  const parsedOverrides = FactorWeightOverridesSchema.parse(overrides);
+  const merged = { ...base };
+  for (const factor of Object.keys(parsedOverrides) as TouringScoreFactor[]) {
+    const weight = parsedOverrides[factor];
+    if (weight !== undefined) merged[factor] = weight;
+  }
+
+  const weights = FactorWeightsSchema.parse(merged);
+  const total = Object.values(weights).reduce((sum, weight) => sum + weight, 0);
+
+  const normalized = {} as FactorWeights;
+  for (const factor of Object.keys(
+    TOURING_FACTOR_MAX,
+  ) as TouringScoreFactor[]) {
+    const weight = (weights[factor] * TOURING_SCORE_MAX) / total;
+    normalized[factor] = Math.round(weight * 100) / 100;
+  }
+  return normalized;
+}
+
+/**
+ * Drops factors from a weight distribution and rescales the remaining
+ * weights so they still sum to TOURING_SCORE_MAX. Used for partial scores
+ * when a factor could not be observed.
+ * @param weights - Weight distribution to rescale
+ * @param excluded - Factors to drop (weight 0)
+ * @returns The weights unchanged when nothing is excluded
+ */
+export function withoutFactors(
+  weights: FactorWeights,
+  excluded: TouringScoreFactor[],
+): FactorWeights {
+  if (excluded.length === 0) return weights;
+
+  const remaining = { ...weights };
+  for (const factor of excluded) remaining[factor] = 0;
+  const total = Object.values(remaining).reduce(
+    (sum, weight) => sum + weight,
+    0,
+  );
+
+  const rescaled = {} as FactorWeights;
+  for (const factor of Object.keys(
+    TOURING_FACTOR_MAX,
+  ) as TouringScoreFactor[]) {
+    rescaled[factor] = (remaining[factor] * TOURING_SCORE_MAX) / total;
+  }
+  return rescaled;
+}
+
+/**
+ * Rescales each native subscore onto its weighted share of the index.
+ * With the default weights the subscores are returned unchanged.
+ * @param f - Object with all factor scores
+ * @param weights - Points awarded per factor at full marks
+ * @returns Weighted subscores rounded to 2 decimals
+ * @throws ZodError if any factor is out of expected range
+ */
+export function applyFactorWeights(
+  f: TouringScoreFactors,
+  weights: FactorWeights = DEFAULT_FACTOR_WEIGHTS,
+): TouringScoreFactors {
+  TouringScoreFactorsSchema.parse(f);
+
+  const weighted = {} as TouringScoreFactors;
+  for (const factor of Object.keys(
+    TOURING_FACTOR_MAX,
+  ) as TouringScoreFactor[]) {
+    const value = (f[factor] * weights[factor]) / TOURING_FACTOR_MAX[factor];
+    weighted[factor] = Math.round(value * 100) / 100;
+  }
+  return weighted;
+}
+
 /**
  * Calculates the total comfort index score.
  * All subscores are validated for range/consistency.
  * Returns an integer score, bounded 0–100.
  * @param f - Object with all factor scores (already validated)
+ * @param weights - Points awarded per factor at full marks (defaults to the native maxima)
  * @returns Rounded total score (0–100)
  * @throws ZodError if any factor is out of expected range
  */
-export function calculateTouringScore(f: TouringScoreFactors): number {
+export function calculateTouringScore(
+  f: TouringScoreFactors,
+  weights: FactorWeights = DEFAULT_FACTOR_WEIGHTS,
+): number {
   // Validate all input values strictly via zod
   TouringScoreFactorsSchema.parse(f);
 
-  const score =
-    f.weather +
-    f.temperature +
-    f.wind +
-    f.humidity +
-    f.visibility +
-    f.precipitationProbability +
-    f.uvIndex +
-    f.airQuality;
+  let score = 0;
+  for (const factor of Object.keys(
+    TOURING_FACTOR_MAX,
+  ) as TouringScoreFactor[]) {
+    score += (f[factor] * weights[factor]) / TOURING_FACTOR_MAX[factor];
+  }
 
   // Enforce min and max bounds (0–100)
   return Math.max(0, Math.min(TOURING_SCORE_MAX, Math.round(score)));
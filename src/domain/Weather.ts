@@ -1,8 +1,11 @@
 import { z } from "zod";
+import { WeatherAlertSchema } from "./WeatherAlert";
+import { WeatherEnsembleSchema } from "./WeatherEnsemble";
 
 /**
  * Enum schema for weather condition.
- * Allowed values: 'clear', 'mostly_clear', 'partly_cloudy', 'cloudy', 'overcast', 'fog', 'drizzle', 'rain', 'snow', 'unknown'.
+ * Allowed values: 'clear', 'mostly_clear', 'partly_cloudy', 'cloudy', 'overcast', 'fog', 'drizzle', 'rain', 'heavy_rain', 'thunderstorm', 'sleet', 'freezing_rain', 'snow', 'unknown'.
+ * Values are only ever added, so stored weather keeps parsing.
  */
 export const WeatherConditionSchema = z.enum([
   "clear",
@@ -13,6 +16,10 @@ export const WeatherConditionSchema = z.enum([
   "fog",
   "drizzle",
   "rain",
+  "heavy_rain",
+  "thunderstorm",
+  "sleet",
+  "freezing_rain",
   "snow",
   "unknown",
 ]);
@@ -25,6 +32,34 @@ export type WeatherCondition = z.infer<typeof WeatherConditionSchema>;
 export const AirQualityLevelSchema = z.enum(["low", "medium", "high"]);
 export type AirQualityLevel = z.infer<typeof AirQualityLevelSchema>;
 
+/**
+ * Schema for pollutant concentrations in µg/m³.
+ * Each pollutant is optional; providers do not always report all of them.
+ */
+export const AirQualityComponentsSchema = z.object({
+  pm25: z
+    .number()
+    .min(0, "pm25 must be >= 0")
+    .max(2000, "pm25 is too high")
+    .optional(),
+  pm10: z
+    .number()
+    .min(0, "pm10 must be >= 0")
+    .max(2000, "pm10 is too high")
+    .optional(),
+  o3: z
+    .number()
+    .min(0, "o3 must be >= 0")
+    .max(2000, "o3 is too high")
+    .optional(),
+  no2: z
+    .number()
+    .min(0, "no2 must be >= 0")
+    .max(2000, "no2 is too high")
+    .optional(),
+});
+export type AirQualityComponents = z.infer<typeof AirQualityComponentsSchema>;
+
 /**
  * Main schema for weather data object.
  * All fields are strictly validated by range and type.
@@ -50,6 +85,20 @@ export const WeatherSchema = z.object({
     .min(0, "windSpeed must be >= 0")
     .max(100, "windSpeed is too high"),
 
+  // Wind gust speed in m/s: 0 to 150 (optional)
+  windGust: z
+    .number()
+    .min(0, "windGust must be >= 0")
+    .max(150, "windGust is too high")
+    .optional(),
+
+  // Direction the wind blows from, in degrees: 0 to 360 (optional)
+  windDirection: z
+    .number()
+    .min(0, "windDirection must be >= 0")
+    .max(360, "windDirection must be <= 360")
+    .optional(),
+
   // Humidity in %: 0 to 100
   humidity: z
     .number()
@@ -69,14 +118,67 @@ export const WeatherSchema = z.object({
     .min(0, "precipitationProbability must be >= 0")
     .max(100, "precipitationProbability is too high"),
 
+  // Precipitation amount in mm over the observation period (optional)
+  precipitation: z
+    .number()
+    .min(0, "precipitation must be >= 0")
+    .max(500, "precipitation is too high")
+    .optional(),
+
+  // Rainfall in mm over the preceding hours, used for road wetness (optional)
+  recentPrecipitation: z
+    .number()
+    .min(0, "recentPrecipitation must be >= 0")
+    .max(1000, "recentPrecipitation is too high")
+    .optional(),
+
   // UV index: 0 to 20
   uvIndex: z
     .number()
     .min(0, "uvIndex must be >= 0")
     .max(20, "uvIndex is too high"),
 
-  // Air quality level (optional, see enum)
+  // Air quality level (optional, see enum). Kept for backward
+  // compatibility; scoring prefers airQualityComponents when reported.
   airQuality: AirQualityLevelSchema.optional(),
+
+  // Pollutant concentrations in µg/m³ (optional)
+  airQualityComponents: AirQualityComponentsSchema.optional(),
+
+  // Thunder reported or forecast by the provider (optional)
+  thunder: z.boolean().optional(),
+
+  // Official warnings in effect for the observation (optional)
+  alerts: z.array(WeatherAlertSchema).optional(),
+
+  // Elevation in m of the point the forecast describes (optional)
+  elevation: z
+    .number()
+    .min(-500, "elevation must be >= -500")
+    .max(9000, "elevation is too high")
+    .optional(),
+
+  // Sunrise and sunset for the observation's date, ISO8601 (optional)
+  sunrise: z
+    .string()
+    .refine((v) => !Number.isNaN(Date.parse(v)), {
+      message: "sunrise must be a valid ISO8601 string",
+    })
+    .optional(),
+  sunset: z
+    .string()
+    .refine((v) => !Number.isNaN(Date.parse(v)), {
+      message: "sunset must be a valid ISO8601 string",
+    })
+    .optional(),
+
+  // Weather provider that served the observation, e.g. 'weatherapi', or
+  // 'ensemble' for a blend of several providers (optional)
+  provider: z.string().optional(),
+
+  // Providers blended into the observation and how far they disagree
+  // (optional, ensemble forecasts only)
+  ensemble: WeatherEnsembleSchema.optional(),
 });
 export type Weather = z.infer<typeof WeatherSchema>;
 
@@ -0,0 +1,62 @@
+import { describe, expect, test } from "bun:test";
+import {
+  alertsActiveAt,
+  alertsActiveBetween,
+  isSevereAlert,
+  type WeatherAlert,
+} from "./WeatherAlert";
+
+const warning: WeatherAlert = {
+  event: "Heavy rain warning",
+  severity: "severe",
+  areas: ["Hakone"],
+  effective: "2025-06-01T09:00:00+09:00",
+  expires: "2025-06-01T21:00:00+09:00",
+};
+
+describe("isSevereAlert", () => {
+  test("treats warnings and emergency warnings as severe", () => {
+    expect(isSevereAlert(warning)).toBe(true);
+    expect(isSevereAlert({ ...warning, severity: "extreme" })).toBe(true);
+    expect(isSevereAlert({ ...warning, severity: "moderate" })).toBe(false);
+    expect(isSevereAlert({ ...warning, severity: "minor" })).toBe(false);
+  });
+});
+
+describe("alertsActiveAt", () => {
+  test("includes the start of the validity period and excludes its end", () => {
+    expect(alertsActiveAt([warning], "2025-06-01T09:00:00+09:00")).toEqual([
+      warning,
+    ]);
+    expect(alertsActiveAt([warning], "2025-06-01T03:00:00Z")).toEqual([
+      warning,
+    ]);
+    expect(alertsActiveAt([warning], "2025-06-01T21:00:00+09:00")).toEqual([]);
+    expect(alertsActiveAt([warning], "2025-06-01T08:59:00+09:00")).toEqual([]);
+  });
+});
+
+describe("alertsActiveBetween", () => {
+  test("keeps warnings overlapping the window", () => {
+    const overnight: WeatherAlert = {
+      ...warning,
+      effective: "2025-05-31T22:00:00+09:00",
+      expires: "2025-06-01T02:00:00+09:00",
+    };
+
+    expect(
+      alertsActiveBetween(
+        [warning, overnight],
+        "2025-06-01T00:00:00+09:00",
+        "2025-06-02T00:00:00+09:00",
+      ),
+    ).toEqual([warning, overnight]);
+    expect(
+      alertsActiveBetween(
+        [warning, overnight],
+        "2025-06-02T00:00:00+09:00",
+        "2025-06-03T00:00:00+09:00",
+      ),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,74 @@
+// Domain Layer - Weather Alert Rule
+//
+// Official warnings (e.g. JMA heavy rain, storm and snow warnings) are
+// issued per area for a validity period. A severe warning in effect vetoes
+// a good score regardless of how benign the forecast numbers look.
+
+import { z } from "zod";
+
+/**
+ * Enum schema for warning severity (CAP scale).
+ * - 'minor'/'moderate': advisories; reported, do not cap the score.
+ * - 'severe': warnings; cap the score.
+ * - 'extreme': emergency warnings; cap the score.
+ */
+export const WeatherAlertSeveritySchema = z.enum([
+  "minor",
+  "moderate",
+  "severe",
+  "extreme",
+]);
+export type WeatherAlertSeverity = z.infer<typeof WeatherAlertSeveritySchema>;
+
+const isoDatetime = (field: string) =>
+  z.string().refine((v) => !Number.isNaN(Date.parse(v)), {
+    message: `${field} must be a valid ISO8601 string`,
+  });
+
+export const WeatherAlertSchema = z.object({
+  event: z.string().min(1, "event must not be empty"), // e.g. "Heavy rain warning"
+  headline: z.string().optional(),
+  severity: WeatherAlertSeveritySchema,
+  areas: z.array(z.string()), // Areas the warning is issued for
+  effective: isoDatetime("effective"), // Start of the validity period
+  expires: isoDatetime("expires"), // End of the validity period (exclusive)
+});
+export type WeatherAlert = z.infer<typeof WeatherAlertSchema>;
+
+/**
+ * Whether a warning caps the touring score.
+ */
+export function isSevereAlert(alert: WeatherAlert): boolean {
+  return alert.severity === "severe" || alert.severity === "extreme";
+}
+
+/**
+ * Warnings in effect at `datetime`.
+ */
+export function alertsActiveAt(
+  alerts: WeatherAlert[],
+  datetime: string,
+): WeatherAlert[] {
+  const at = Date.parse(datetime);
+  return alerts.filter(
+    (alert) =>
+      Date.parse(alert.effective) <= at && at < Date.parse(alert.expires),
+  );
+}
+
+/**
+ * Warnings in effect at any time between `start` (inclusive) and `end`
+ * (exclusive), e.g. over a calendar day.
+ */
+export function alertsActiveBetween(
+  alerts: WeatherAlert[],
+  start: string,
+  end: string,
+): WeatherAlert[] {
+  const from = Date.parse(start);
+  const to = Date.parse(end);
+  return alerts.filter(
+    (alert) =>
+      Date.parse(alert.effective) < to && from < Date.parse(alert.expires),
+  );
+}
@@ -0,0 +1,124 @@
+import { describe, expect, test } from "bun:test";
+import type { Weather } from "./Weather";
+import { blendWeather } from "./WeatherEnsemble";
+
+const weatherapi: Weather = {
+  datetime: "2025-06-01T12:00:00+09:00",
+  condition: "partly_cloudy",
+  temperature: 21,
+  windSpeed: 4,
+  windGust: 7,
+  humidity: 60,
+  visibility: 10,
+  precipitationProbability: 20,
+  uvIndex: 6,
+  airQuality: "low",
+  provider: "weatherapi",
+};
+
+const openMeteo: Weather = {
+  datetime: "2025-06-01T12:00:00+09:00",
+  condition: "rain",
+  temperature: 19,
+  windSpeed: 6,
+  humidity: 72,
+  visibility: 8,
+  precipitationProbability: 60,
+  precipitation: 1.2,
+  uvIndex: 5,
+  elevation: 735,
+  provider: "open-meteo",
+};
+
+const third: Weather = {
+  ...openMeteo,
+  temperature: 20,
+  windSpeed: 5,
+  humidity: 66,
+  precipitationProbability: 40,
+  provider: "third",
+};
+
+describe("blendWeather", () => {
+  test("takes the median of numeric fields and the majority condition", () => {
+    const blended = blendWeather([weatherapi, openMeteo, third]);
+
+    expect(blended).toMatchObject({
+      datetime: "2025-06-01T12:00:00+09:00",
+      condition: "rain",
+      temperature: 20,
+      windSpeed: 5,
+      humidity: 66,
+      precipitationProbability: 40,
+      uvIndex: 5,
+      provider: "ensemble",
+    });
+  });
+
+  test("averages the middle pair for an even number of providers", () => {
+    const blended = blendWeather([weatherapi, openMeteo]);
+
+    expect(blended.temperature).toBe(20);
+    expect(blended.precipitationProbability).toBe(40);
+  });
+
+  test("blends optional fields over the providers that report them", () => {
+    const blended = blendWeather([weatherapi, openMeteo]);
+
+    expect(blended.windGust).toBe(7);
+    expect(blended.precipitation).toBe(1.2);
+    expect(blended.recentPrecipitation).toBeUndefined();
+    expect(blended.airQuality).toBe("low");
+    expect(blended.elevation).toBe(735);
+  });
+
+  test("breaks a condition tie in provider priority order", () => {
+    expect(blendWeather([weatherapi, openMeteo]).condition).toBe(
+      "partly_cloudy",
+    );
+    expect(blendWeather([openMeteo, weatherapi]).condition).toBe("rain");
+  });
+
+  test("keeps thunder forecast by any provider", () => {
+    const blended = blendWeather([
+      { ...weatherapi, thunder: false },
+      { ...openMeteo, thunder: true },
+    ]);
+
+    expect(blended.thunder).toBe(true);
+  });
+
+  test("reports the providers and their spread as disagreement", () => {
+    const blended = blendWeather([weatherapi, openMeteo, third]);
+
+    expect(blended.ensemble).toEqual({
+      providers: ["weatherapi", "open-meteo", "third"],
+      disagreement: {
+        temperature: 2,
+        windSpeed: 2,
+        humidity: 12,
+        precipitationProbability: 40,
+        condition: 0.33,
+      },
+    });
+  });
+
+  test("reports no disagreement for a single provider", () => {
+    const blended = blendWeather([weatherapi]);
+
+    expect(blended.temperature).toBe(21);
+    expect(blended.ensemble?.disagreement).toEqual({
+      temperature: 0,
+      windSpeed: 0,
+      humidity: 0,
+      precipitationProbability: 0,
+      condition: 0,
+    });
+  });
+
+  test("rejects an empty ensemble", () => {
+    expect(() => blendWeather([])).toThrow(
+      "At least one forecast is required to blend",
+    );
+  });
+});
@@ -0,0 +1,133 @@
+// Domain Layer - Weather Ensemble Rule
+//
+// Forecasts from several providers for the same point and time are blended
+// into one: numeric fields take the median, and the condition is decided by
+// majority vote. How far the providers are apart is kept as disagreement, so
+// a blended forecast the providers do not agree on can be told apart from
+// one they do.
+
+import { z } from "zod";
+import type { Weather, WeatherCondition } from "./Weather";
+
+/**
+ * Spread (max - min) between providers for the blended fields, in the
+ * fields' own units, and the share (0-1) of providers whose condition lost
+ * the vote.
+ */
+export const EnsembleDisagreementSchema = z.object({
+  temperature: z.number().min(0),
+  windSpeed: z.number().min(0),
+  humidity: z.number().min(0),
+  precipitationProbability: z.number().min(0),
+  condition: z.number().min(0).max(1),
+});
+export type EnsembleDisagreement = z.infer<typeof EnsembleDisagreementSchema>;
+
+export const WeatherEnsembleSchema = z.object({
+  providers: z.array(z.string()).min(1), // Providers blended, in priority order
+  disagreement: EnsembleDisagreementSchema,
+});
+export type WeatherEnsemble = z.infer<typeof WeatherEnsembleSchema>;
+
+const round = (value: number, decimals: number): number =>
+  Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[middle]
+    : round((sorted[middle - 1] + sorted[middle]) / 2, 2);
+}
+
+function spread(values: number[]): number {
+  return round(Math.max(...values) - Math.min(...values), 2);
+}
+
+/**
+ * Most common condition. A tie goes to the condition of the
+ * highest-priority provider among the tied ones.
+ */
+function majorityCondition(members: Weather[]): WeatherCondition {
+  const votes = new Map<WeatherCondition, number>();
+  for (const { condition } of members) {
+    votes.set(condition, (votes.get(condition) ?? 0) + 1);
+  }
+  const mostVotes = Math.max(...votes.values());
+  const winner = members.find(
+    ({ condition }) => votes.get(condition) === mostVotes,
+  );
+  return (winner ?? members[0]).condition;
+}
+
+/**
+ * Blend forecasts for the same point and time from several providers.
+ * Fields that are not blended (wind direction, air quality, warnings,
+ * elevation, daylight) are taken from the highest-priority provider that
+ * reports them; thunder is kept when any provider forecasts it.
+ * @param members Forecasts in provider priority order, each stamped with
+ * its `provider`
+ * @throws Error when there are no forecasts to blend
+ */
+export function blendWeather(members: Weather[]): Weather {
+  if (members.length === 0) {
+    throw new Error("At least one forecast is required to blend");
+  }
+
+  const firstReported = <K extends keyof Weather>(
+    field: K,
+  ): Weather[K] | undefined =>
+    members.find((member) => member[field] !== undefined)?.[field];
+  const medianOf = (
+    field: "windGust" | "visibility" | "precipitation" | "recentPrecipitation",
+  ): number | undefined => {
+    const values = members
+      .map((member) => member[field])
+      .filter((value): value is number => value !== undefined);
+    return values.length > 0 ? median(values) : undefined;
+  };
+
+  const condition = majorityCondition(members);
+  return {
+    datetime: members[0].datetime,
+    condition,
+    temperature: median(members.map((member) => member.temperature)),
+    windSpeed: median(members.map((member) => member.windSpeed)),
+    windGust: medianOf("windGust"),
+    windDirection: firstReported("windDirection"),
+    humidity: median(members.map((member) => member.humidity)),
+    visibility: medianOf("visibility"),
+    precipitationProbability: median(
+      members.map((member) => member.precipitationProbability),
+    ),
+    precipitation: medianOf("precipitation"),
+    recentPrecipitation: medianOf("recentPrecipitation"),
+    uvIndex: median(members.map((member) => member.uvIndex)),
+    airQuality: firstReported("airQuality"),
+    airQualityComponents: firstReported("airQualityComponents"),
+    thunder: members.some((member) => member.thunder)
+      ? true
+      : firstReported("thunder"),
+    alerts: firstReported("alerts"),
+    elevation: firstReported("elevation"),
+    sunrise: firstReported("sunrise"),
+    sunset: firstReported("sunset"),
+    provider: "ensemble",
+    ensemble: {
+      providers: members.map((member) => member.provider ?? "unknown"),
+      disagreement: {
+        temperature: spread(members.map((member) => member.temperature)),
+        windSpeed: spread(members.map((member) => member.windSpeed)),
+        humidity: spread(members.map((member) => member.humidity)),
+        precipitationProbability: spread(
+          members.map((member) => member.precipitationProbability),
+        ),
+        condition: round(
+          members.filter((member) => member.condition !== condition).length /
+            members.length,
+          2,
+        ),
+      },
+    },
+  };
+}
@@ -5,8 +5,10 @@ import { logger } from "./utils/logger";
 
 const port = process.env.PORT || 8000;
 
+// Environment variables stand in for the Worker bindings, so settings such
+// as WEATHER_PROVIDER work on the Node dev server too
 serve({
-  fetch: app.fetch,
+  fetch: (request) => app.fetch(request, process.env),
   port: port as number,
 });
 
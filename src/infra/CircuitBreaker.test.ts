@@ -0,0 +1,123 @@
+import { describe, expect, test } from "bun:test";
+import { CircuitBreaker, sharedCircuitBreaker } from "./CircuitBreaker";
+
+function createBreaker() {
+  const clock = { now: 0 };
+  const breaker = new CircuitBreaker("test", {
+    failureThreshold: 3,
+    resetTimeoutMs: 1000,
+    now: () => clock.now,
+  });
+  return { breaker, clock };
+}
+
+function failTimes(breaker: CircuitBreaker, times: number) {
+  for (let i = 0; i < times; i++) {
+    breaker.allowRequest();
+    breaker.recordFailure();
+  }
+}
+
+describe("CircuitBreaker", () => {
+  test("stays closed below the failure threshold", () => {
+    const { breaker } = createBreaker();
+
+    failTimes(breaker, 2);
+
+    expect(breaker.getState()).toBe("closed");
+    expect(breaker.allowRequest()).toBe(true);
+  });
+
+  test("opens after consecutive failures reach the threshold", () => {
+    const { breaker } = createBreaker();
+
+    failTimes(breaker, 3);
+
+    expect(breaker.getState()).toBe("open");
+    expect(breaker.allowRequest()).toBe(false);
+  });
+
+  test("a success resets the consecutive failure count", () => {
+    const { breaker } = createBreaker();
+
+    failTimes(breaker, 2);
+    breaker.recordSuccess();
+    failTimes(breaker, 2);
+
+    expect(breaker.getState()).toBe("closed");
+  });
+
+  test("lets a single trial request through once the reset timeout elapses", () => {
+    const { breaker, clock } = createBreaker();
+    failTimes(breaker, 3);
+
+    clock.now = 999;
+    expect(breaker.allowRequest()).toBe(false);
+
+    clock.now = 1000;
+    expect(breaker.getState()).toBe("half_open");
+    expect(breaker.allowRequest()).toBe(true);
+    // The trial is still in flight
+    expect(breaker.allowRequest()).toBe(false);
+  });
+
+  test("closes when the trial request succeeds", () => {
+    const { breaker, clock } = createBreaker();
+    failTimes(breaker, 3);
+    clock.now = 1000;
+
+    breaker.allowRequest();
+    breaker.recordSuccess();
+
+    expect(breaker.getState()).toBe("closed");
+    expect(breaker.allowRequest()).toBe(true);
+  });
+
+  test("re-opens for another reset timeout when the trial request fails", () => {
+    const { breaker, clock } = createBreaker();
+    failTimes(breaker, 3);
+    clock.now = 1000;
+
+    breaker.allowRequest();
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe("open");
+    clock.now = 1999;
+    expect(breaker.allowRequest()).toBe(false);
+    clock.now = 2000;
+    expect(breaker.allowRequest()).toBe(true);
+  });
+
+  test("releases the trial slot without closing the circuit", () => {
+    const { breaker, clock } = createBreaker();
+    failTimes(breaker, 3);
+    clock.now = 1000;
+
+    breaker.allowRequest();
+    breaker.releaseTrial();
+
+    expect(breaker.getState()).toBe("half_open");
+    // The next request becomes the trial
+    expect(breaker.allowRequest()).toBe(true);
+    expect(breaker.allowRequest()).toBe(false);
+  });
+
+  test("keeps the failure count when releasing outside a trial", () => {
+    const { breaker } = createBreaker();
+    failTimes(breaker, 2);
+
+    breaker.releaseTrial();
+    failTimes(breaker, 1);
+
+    expect(breaker.getState()).toBe("open");
+  });
+
+  test("shares one breaker per name", () => {
+    expect(sharedCircuitBreaker("shared-test")).toBe(
+      sharedCircuitBreaker("shared-test"),
+    );
+    expect(sharedCircuitBreaker("shared-test")).not.toBe(
+      sharedCircuitBreaker("other-test"),
+    );
+  });
+});
@@ -0,0 +1,111 @@
+import { APP_CONFIG } from "../constants/appConfig";
+import { logger } from "../utils/logger";
+
+/**
+ * - 'closed': requests flow; consecutive failures are counted.
+ * - 'open': requests are refused until the reset timeout elapses.
+ * - 'half_open': a single trial request decides between closing and
+ *   re-opening.
+ */
+export type CircuitState = "closed" | "open" | "half_open";
+
+export type CircuitBreakerOptions = {
+  failureThreshold: number; // Consecutive failures that open the circuit
+  resetTimeoutMs: number; // Time open before a trial request is allowed
+  now?: () => number;
+};
+
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  private readonly now: () => number;
+
+  constructor(
+    readonly name: string,
+    private readonly options: CircuitBreakerOptions = {
+      failureThreshold: APP_CONFIG.WEATHER_PROVIDER_FAILURE_THRESHOLD,
+      resetTimeoutMs: APP_CONFIG.WEATHER_PROVIDER_RESET_TIMEOUT_MS,
+    },
+  ) {
+    this.now = options.now ?? Date.now;
+  }
+
+  getState(): CircuitState {
+    if (
+      this.state === "open" &&
+      this.now() - this.openedAt >= this.options.resetTimeoutMs
+    ) {
+      this.transition("half_open");
+    }
+    return this.state;
+  }
+
+  /**
+   * Whether a request may be sent. In half-open state only one trial
+   * request is let through at a time.
+   */
+  allowRequest(): boolean {
+    const state = this.getState();
+    if (state === "closed") return true;
+    if (state === "open" || this.trialInFlight) return false;
+
+    this.trialInFlight = true;
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+    if (this.state !== "closed") this.transition("closed");
+  }
+
+  /**
+   * End a half-open trial without judging the provider, e.g. when the
+   * request failed for a reason of its own. The state and failure count are
+   * kept, and the next request becomes the trial.
+   */
+  releaseTrial(): void {
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+    if (
+      this.state === "half_open" ||
+      this.consecutiveFailures >= this.options.failureThreshold
+    ) {
+      this.openedAt = this.now();
+      if (this.state !== "open") this.transition("open");
+    }
+  }
+
+  private transition(state: CircuitState): void {
+    logger.warn("Circuit breaker state changed", {
+      operation: "circuit_breaker_transition",
+      circuit: this.name,
+      from: this.state,
+      to: state,
+      consecutiveFailures: this.consecutiveFailures,
+    });
+    this.state = state;
+  }
+}
+
+// Breakers live at module scope, so their state carries across the
+// requests and scheduled runs served by the same Worker isolate
+const sharedBreakers = new Map<string, CircuitBreaker>();
+
+/**
+ * The isolate-wide circuit breaker for `name`, created on first use.
+ */
+export function sharedCircuitBreaker(name: string): CircuitBreaker {
+  let breaker = sharedBreakers.get(name);
+  if (!breaker) {
+    breaker = new CircuitBreaker(name);
+    sharedBreakers.set(name, breaker);
+  }
+  return breaker;
+}
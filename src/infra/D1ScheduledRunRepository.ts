@@ -12,6 +12,7 @@ interface ScheduledRunRow {
   status: string;
   expected_count: number;
   committed_count: number;
+  partial_score_count: number;
   failure_count: number;
   duration_ms: number;
   error_summary: string | null;
@@ -25,6 +26,7 @@ function toRecord(row: ScheduledRunRow): ScheduledRunRecord {
     status: row.status as ScheduledRunStatus,
     expectedCount: row.expected_count,
     committedCount: row.committed_count,
+    partialScoreCount: row.partial_score_count,
     failureCount: row.failure_count,
     durationMs: row.duration_ms,
     errorSummary: row.error_summary ?? undefined,
@@ -50,8 +52,8 @@ export class D1ScheduledRunRepository implements ScheduledRunRepository {
 
     const sql = `
       INSERT INTO scheduled_run_log
-      (run_id, started_at, finished_at, status, expected_count, committed_count, failure_count, duration_ms, error_summary)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      (run_id, started_at, finished_at, status, expected_count, committed_count, partial_score_count, failure_count, duration_ms, error_summary)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `;
 
     try {
@@ -64,6 +66,7 @@ export class D1ScheduledRunRepository implements ScheduledRunRepository {
           record.status,
           record.expectedCount,
           record.committedCount,
+          record.partialScoreCount ?? 0,
           record.failureCount,
           record.durationMs,
           record.errorSummary ?? null,
@@ -94,7 +97,7 @@ export class D1ScheduledRunRepository implements ScheduledRunRepository {
     logger.debug("Fetching latest scheduled run", context);
 
     const sql = `
-      SELECT run_id, started_at, finished_at, status, expected_count, committed_count, failure_count, duration_ms, error_summary
+      SELECT run_id, started_at, finished_at, status, expected_count, committed_count, partial_score_count, failure_count, duration_ms, error_summary
       FROM scheduled_run_log
       ORDER BY finished_at DESC, id DESC
       LIMIT 1
@@ -0,0 +1,58 @@
+import { describe, expect, mock, test } from "bun:test";
+import { buildScoreDistribution } from "../domain/ScoreClimatology";
+import { D1ScoreClimatologyRepository } from "./D1ScoreClimatologyRepository";
+
+describe("D1ScoreClimatologyRepository", () => {
+  test("replaces every distribution in one D1 batch", async () => {
+    const bind = mock((..._values: unknown[]) => ({}) as D1PreparedStatement);
+    const prepare = mock(
+      (_sql: string) => ({ bind }) as unknown as D1PreparedStatement,
+    );
+    const batch = mock(async (_statements: D1PreparedStatement[]) => []);
+    const repository = new D1ScoreClimatologyRepository({
+      prepare,
+      batch,
+    } as unknown as D1Database);
+
+    const distribution = buildScoreDistribution(13, 6, [
+      { score: 70, count: 2 },
+    ]);
+    await expect(
+      repository.replaceScoreDistributions(1, [distribution]),
+    ).resolves.toBe(1);
+
+    expect(batch).toHaveBeenCalledTimes(1);
+    expect(batch.mock.calls[0][0]).toHaveLength(2);
+    expect(prepare.mock.calls[1][0]).toBe("DELETE FROM score_climatology");
+    expect(bind.mock.calls[0]).toEqual([
+      13,
+      6,
+      1,
+      2,
+      JSON.stringify(distribution.histogram),
+    ]);
+  });
+
+  test("parses stored histograms", async () => {
+    const histogram = new Array(101).fill(0);
+    histogram[70] = 2;
+    const all = mock(async () => ({
+      results: [
+        {
+          prefecture_id: 13,
+          month: 6,
+          rules_version: 1,
+          sample_count: 2,
+          histogram_json: JSON.stringify(histogram),
+        },
+      ],
+    }));
+    const repository = new D1ScoreClimatologyRepository({
+      prepare: () => ({ bind: () => ({ all }) }),
+    } as unknown as D1Database);
+
+    await expect(repository.getScoreDistributions(13, 1)).resolves.toEqual([
+      { prefectureId: 13, month: 6, sampleCount: 2, histogram },
+    ]);
+  });
+});
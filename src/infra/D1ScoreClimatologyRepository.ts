@@ -0,0 +1,210 @@
+import type { ScoreDistribution } from "../domain/ScoreClimatology";
+import type {
+  MonthlyScoreCount,
+  ScoreClimatologyRepository,
+} from "../usecase/RefreshScoreClimatology";
+import { logger } from "../utils/logger";
+
+interface ScoreClimatologyRow {
+  prefecture_id: number;
+  month: number;
+  rules_version: number;
+  sample_count: number;
+  histogram_json: string;
+}
+
+function toDistribution(row: ScoreClimatologyRow): ScoreDistribution {
+  return {
+    prefectureId: row.prefecture_id,
+    month: row.month,
+    sampleCount: row.sample_count,
+    histogram: JSON.parse(row.histogram_json),
+  };
+}
+
+export class D1ScoreClimatologyRepository
+  implements ScoreClimatologyRepository
+{
+  constructor(private db: D1Database) {
+    logger.info("D1ScoreClimatologyRepository initialized", {
+      operation: "repository_init",
+      database: "D1",
+    });
+  }
+
+  /**
+   * Count stored days per prefecture, calendar month and rounded score,
+   * for days before `beforeDate` calculated under `rulesVersion`.
+   */
+  async getMonthlyScoreCounts(
+    rulesVersion: number,
+    beforeDate: string,
+  ): Promise<MonthlyScoreCount[]> {
+    const context = {
+      operation: "get_monthly_score_counts",
+      rulesVersion,
+      beforeDate,
+    };
+
+    logger.debug("Starting monthly score count", context);
+
+    const sql = `
+      SELECT prefecture_id,
+        CAST(strftime('%m', date) AS INTEGER) AS month,
+        CAST(ROUND(score) AS INTEGER) AS score,
+        COUNT(*) AS count
+      FROM touring_index_daily
+      WHERE rules_version = ? AND date < ?
+      GROUP BY prefecture_id, month, CAST(ROUND(score) AS INTEGER)
+    `;
+
+    try {
+      const dbStartTime = Date.now();
+      const result = await this.db
+        .prepare(sql)
+        .bind(rulesVersion, beforeDate)
+        .all<MonthlyScoreCount>();
+      const dbDuration = Date.now() - dbStartTime;
+
+      logger.debug("Monthly score count completed", {
+        ...context,
+        operation: "get_monthly_score_counts_success",
+        dbDuration,
+        rowsCount: result.results?.length || 0,
+      });
+
+      return result.results || [];
+    } catch (error) {
+      logger.error(
+        "Failed to count monthly scores",
+        {
+          ...context,
+          operation: "get_monthly_score_counts_error",
+          sql: sql.replace(/\s+/g, " ").trim(),
+          errorMessage: error instanceof Error ? error.message : String(error),
+        },
+        error as Error,
+      );
+
+      throw new Error(`Failed to count monthly scores: ${error}`);
+    }
+  }
+
+  /**
+   * Atomically replace every stored distribution with `distributions`.
+   */
+  async replaceScoreDistributions(
+    rulesVersion: number,
+    distributions: ScoreDistribution[],
+  ): Promise<number> {
+    const context = {
+      operation: "replace_score_distributions",
+      rulesVersion,
+      distributionsCount: distributions.length,
+    };
+
+    logger.debug("Starting score distribution replacement", context);
+
+    const sql = `
+      INSERT INTO score_climatology
+      (prefecture_id, month, rules_version, sample_count, histogram_json)
+      VALUES (?, ?, ?, ?, ?)
+    `;
+
+    try {
+      const dbStartTime = Date.now();
+      const statement = this.db.prepare(sql);
+      await this.db.batch([
+        this.db.prepare("DELETE FROM score_climatology"),
+        ...distributions.map((distribution) =>
+          statement.bind(
+            distribution.prefectureId,
+            distribution.month,
+            rulesVersion,
+            distribution.sampleCount,
+            JSON.stringify(distribution.histogram),
+          ),
+        ),
+      ]);
+      const dbDuration = Date.now() - dbStartTime;
+
+      logger.debug("Score distribution replacement completed", {
+        ...context,
+        operation: "replace_score_distributions_success",
+        dbDuration,
+      });
+
+      return distributions.length;
+    } catch (error) {
+      logger.error(
+        "Failed to replace score distributions",
+        {
+          ...context,
+          operation: "replace_score_distributions_error",
+          sql: sql.replace(/\s+/g, " ").trim(),
+          errorMessage: error instanceof Error ? error.message : String(error),
+        },
+        error as Error,
+      );
+
+      throw new Error(`Failed to replace score distributions: ${error}`);
+    }
+  }
+
+  /**
+   * Get a prefecture's stored per-month distributions built under
+   * `rulesVersion`.
+   */
+  async getScoreDistributions(
+    prefectureId: number,
+    rulesVersion: number,
+  ): Promise<ScoreDistribution[]> {
+    const context = {
+      operation: "get_score_distributions",
+      prefecture_id: prefectureId,
+      rulesVersion,
+    };
+
+    logger.debug("Starting score distribution fetch", context);
+
+    const sql = `
+      SELECT prefecture_id, month, rules_version, sample_count, histogram_json
+      FROM score_climatology
+      WHERE prefecture_id = ? AND rules_version = ?
+      ORDER BY month
+    `;
+
+    try {
+      const dbStartTime = Date.now();
+      const result = await this.db
+        .prepare(sql)
+        .bind(prefectureId, rulesVersion)
+        .all<ScoreClimatologyRow>();
+      const dbDuration = Date.now() - dbStartTime;
+
+      logger.debug("Score distribution fetch completed", {
+        ...context,
+        operation: "get_score_distributions_success",
+        dbDuration,
+        recordsCount: result.results?.length || 0,
+      });
+
+      return (result.results || []).map(toDistribution);
+    } catch (error) {
+      logger.error(
+        "Failed to fetch score distributions",
+        {
+          ...context,
+          operation: "get_score_distributions_error",
+          sql: sql.replace(/\s+/g, " ").trim(),
+          errorMessage: error instanceof Error ? error.message : String(error),
+        },
+        error as Error,
+      );
+
+      throw new Error(
+        `Failed to fetch score distributions for prefecture ${prefectureId}: ${error}`,
+      );
+    }
+  }
+}
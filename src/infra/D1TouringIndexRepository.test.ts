@@ -9,6 +9,9 @@ const items: TouringIndexBatchItem[] = [
     score: 90,
     weather_factors_json: '{"weather":30}',
     weather_raw_json: '{"condition":"clear"}',
+    confidence_json: '{"value":0.95}',
+    partial: false,
+    rules_version: 1,
   },
   {
     prefecture_id: 13,
@@ -16,6 +19,9 @@ const items: TouringIndexBatchItem[] = [
     score: 85,
     weather_factors_json: '{"weather":25}',
     weather_raw_json: '{"condition":"cloudy"}',
+    confidence_json: '{"value":0.91}',
+    partial: true,
+    rules_version: 1,
   },
 ];
 
@@ -55,14 +61,51 @@ describe("D1TouringIndexRepository", () => {
       90,
       '{"weather":30}',
       '{"condition":"clear"}',
+      '{"value":0.95}',
+      0,
+      1,
       null,
     ]);
+    expect((bind.mock.calls as unknown[][])[1][6]).toBe(1);
 
     const sql = prepare.mock.calls[0][0] as string;
     expect(sql).toContain("ON CONFLICT(prefecture_id, date) DO UPDATE");
     expect(sql).not.toContain("INSERT OR REPLACE");
   });
 
+  test("selects rows calculated under older or unversioned rules after the cursor", async () => {
+    const all = mock(async () => ({ results: [] }));
+    const bind = mock(() => ({ all }) as unknown as D1PreparedStatement);
+    const prepare = mock(() => ({ bind }) as unknown as D1PreparedStatement);
+    const repository = new D1TouringIndexRepository({
+      prepare,
+    } as unknown as D1Database);
+
+    await expect(
+      repository.getStaleTouringIndexes(
+        2,
+        undefined,
+        "2026-08-31",
+        { date: "2026-08-01", prefecture_id: 13 },
+        100,
+      ),
+    ).resolves.toEqual([]);
+
+    expect((bind.mock.calls as unknown[][])[0]).toEqual([
+      2,
+      null,
+      "2026-08-31",
+      "2026-08-01",
+      "2026-08-01",
+      13,
+      100,
+    ]);
+    const sql = (prepare.mock.calls as unknown[][])[0][0] as string;
+    expect(sql).toContain("rules_version IS NULL OR rules_version < ?");
+    expect(sql).toContain("(date = ? AND prefecture_id > ?)");
+    expect(sql).toContain("LIMIT ?");
+  });
+
   test("does not report a commit when D1 does not confirm every statement", async () => {
     const bind = mock(() => ({}) as D1PreparedStatement);
     const repository = new D1TouringIndexRepository({
@@ -3,6 +3,10 @@ import type {
   TouringIndexBatchItem,
   TouringIndexRepository,
 } from "../usecase/BatchCalculateTouringIndex";
+import type {
+  RecomputeCursor,
+  TouringIndexRecomputeRepository,
+} from "../usecase/RecomputeTouringIndex";
 import { logger } from "../utils/logger";
 
 interface TouringIndexRecord {
@@ -12,6 +16,9 @@ interface TouringIndexRecord {
   score: number;
   weather_factors_json: string;
   weather_raw_json: string;
+  confidence_json: string | null;
+  partial: number; // SQLite boolean: 1 when scored without some factors
+  rules_version: number | null; // NULL for rows calculated before rules were versioned
   calculated_at: string;
 }
 
@@ -23,7 +30,9 @@ function toSqliteDatetime(isoTimestamp: string): string {
   return isoTimestamp.replace("T", " ").slice(0, 19);
 }
 
-export class D1TouringIndexRepository implements TouringIndexRepository {
+export class D1TouringIndexRepository
+  implements TouringIndexRepository, TouringIndexRecomputeRepository
+{
   constructor(private db: D1Database) {
     logger.info("D1TouringIndexRepository initialized", {
       operation: "repository_init",
@@ -51,12 +60,15 @@ export class D1TouringIndexRepository implements TouringIndexRepository {
 
     const sql = `
       INSERT INTO touring_index_daily
-      (prefecture_id, date, score, weather_factors_json, weather_raw_json, calculated_at)
-      VALUES (?, ?, ?, ?, ?, COALESCE(?, datetime('now')))
+      (prefecture_id, date, score, weather_factors_json, weather_raw_json, confidence_json, partial, rules_version, calculated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, COALESCE(?, datetime('now')))
       ON CONFLICT(prefecture_id, date) DO UPDATE SET
         score = excluded.score,
         weather_factors_json = excluded.weather_factors_json,
         weather_raw_json = excluded.weather_raw_json,
+        confidence_json = excluded.confidence_json,
+        partial = excluded.partial,
+        rules_version = excluded.rules_version,
         calculated_at = excluded.calculated_at
     `;
 
@@ -71,6 +83,9 @@ export class D1TouringIndexRepository implements TouringIndexRepository {
             item.score,
             item.weather_factors_json,
             item.weather_raw_json,
+            item.confidence_json,
+            item.partial ? 1 : 0,
+            item.rules_version,
             item.calculated_at || null,
           ),
         ),
@@ -188,7 +203,7 @@ export class D1TouringIndexRepository implements TouringIndexRepository {
     logger.debug("Starting touring index fetch by date range", context);
 
     const sql = `
-      SELECT id, prefecture_id, date, score, weather_factors_json, weather_raw_json, calculated_at
+      SELECT id, prefecture_id, date, score, weather_factors_json, weather_raw_json, confidence_json, partial, rules_version, calculated_at
       FROM touring_index_daily
       WHERE prefecture_id = ? AND date >= ? AND date <= ?
       ORDER BY date
@@ -331,6 +346,194 @@ export class D1TouringIndexRepository implements TouringIndexRepository {
     }
   }
 
+  /**
+   * Count rows committed by a specific run that were scored partially
+   * (without visibility or air quality), using the same window as
+   * getCommittedCoverageCount.
+   */
+  async getCommittedPartialScoreCount(
+    startDate: string,
+    endDate: string,
+    sinceIso: string,
+  ): Promise<number> {
+    const context = {
+      operation: "get_committed_partial_score_count",
+      startDate,
+      endDate,
+      sinceIso,
+    };
+
+    logger.debug("Starting committed partial score count", context);
+
+    const sql = `
+      SELECT COUNT(*) as count
+      FROM touring_index_daily
+      WHERE date >= ? AND date <= ? AND calculated_at >= ? AND partial = 1
+    `;
+
+    try {
+      const dbStartTime = Date.now();
+      const result = await this.db
+        .prepare(sql)
+        .bind(startDate, endDate, toSqliteDatetime(sinceIso))
+        .first<{ count: number }>();
+      const dbDuration = Date.now() - dbStartTime;
+      const count = result?.count || 0;
+
+      logger.debug("Committed partial score count completed", {
+        ...context,
+        operation: "get_committed_partial_score_count_success",
+        dbDuration,
+        count,
+      });
+
+      return count;
+    } catch (error) {
+      logger.error(
+        "Failed to get committed partial score count",
+        {
+          ...context,
+          operation: "get_committed_partial_score_count_error",
+          sql: sql.replace(/\s+/g, " ").trim(),
+          errorMessage: error instanceof Error ? error.message : String(error),
+        },
+        error as Error,
+      );
+
+      throw new Error(`Failed to get committed partial score count: ${error}`);
+    }
+  }
+
+  /**
+   * Get rows calculated under an older rule set than `rulesVersion` (or
+   * before rules were versioned), oldest date first, after the `after`
+   * row when given. Either bound of the date range may be omitted.
+   */
+  async getStaleTouringIndexes(
+    rulesVersion: number,
+    startDate: string | undefined,
+    endDate: string | undefined,
+    after: RecomputeCursor | undefined,
+    limit: number,
+  ): Promise<TouringIndexRecord[]> {
+    const context = {
+      operation: "get_stale_touring_indexes",
+      rulesVersion,
+      startDate,
+      endDate,
+      after,
+      limit,
+    };
+
+    logger.debug("Starting stale touring index fetch", context);
+
+    const sql = `
+      SELECT id, prefecture_id, date, score, weather_factors_json, weather_raw_json, confidence_json, partial, rules_version, calculated_at
+      FROM touring_index_daily
+      WHERE (rules_version IS NULL OR rules_version < ?)
+        AND date >= COALESCE(?, date) AND date <= COALESCE(?, date)
+        AND (date > COALESCE(?, '') OR (date = ? AND prefecture_id > ?))
+      ORDER BY date, prefecture_id
+      LIMIT ?
+    `;
+
+    try {
+      const dbStartTime = Date.now();
+      const result = await this.db
+        .prepare(sql)
+        .bind(
+          rulesVersion,
+          startDate ?? null,
+          endDate ?? null,
+          after?.date ?? null,
+          after?.date ?? null,
+          after?.prefecture_id ?? null,
+          limit,
+        )
+        .all<TouringIndexRecord>();
+      const dbDuration = Date.now() - dbStartTime;
+
+      logger.debug("Stale touring index fetch completed", {
+        ...context,
+        operation: "get_stale_touring_indexes_success",
+        dbDuration,
+        recordsCount: result.results?.length || 0,
+      });
+
+      return result.results || [];
+    } catch (error) {
+      logger.error(
+        "Failed to fetch stale touring index data",
+        {
+          ...context,
+          operation: "get_stale_touring_indexes_error",
+          sql: sql.replace(/\s+/g, " ").trim(),
+          errorMessage: error instanceof Error ? error.message : String(error),
+        },
+        error as Error,
+      );
+
+      throw new Error(`Failed to fetch stale touring index data: ${error}`);
+    }
+  }
+
+  /**
+   * Count rows getStaleTouringIndexes would return without a limit.
+   */
+  async countStaleTouringIndexes(
+    rulesVersion: number,
+    startDate: string | undefined,
+    endDate: string | undefined,
+  ): Promise<number> {
+    const context = {
+      operation: "count_stale_touring_indexes",
+      rulesVersion,
+      startDate,
+      endDate,
+    };
+
+    logger.debug("Starting stale touring index count", context);
+
+    const sql = `
+      SELECT COUNT(*) as count
+      FROM touring_index_daily
+      WHERE (rules_version IS NULL OR rules_version < ?)
+        AND date >= COALESCE(?, date) AND date <= COALESCE(?, date)
+    `;
+
+    try {
+      const dbStartTime = Date.now();
+      const result = await this.db
+        .prepare(sql)
+        .bind(rulesVersion, startDate ?? null, endDate ?? null)
+        .first<{ count: number }>();
+      const dbDuration = Date.now() - dbStartTime;
+      const count = result?.count || 0;
+
+      logger.debug("Stale touring index count completed", {
+        ...context,
+        operation: "count_stale_touring_indexes_success",
+        dbDuration,
+        count,
+      });
+
+      return count;
+    } catch (error) {
+      logger.error(
+        "Failed to count stale touring index data",
+        {
+          ...context,
+          operation: "count_stale_touring_indexes_error",
+          sql: sql.replace(/\s+/g, " ").trim(),
+          errorMessage: error instanceof Error ? error.message : String(error),
+        },
+        error as Error,
+      );
+
+      throw new Error(`Failed to count stale touring index data: ${error}`);
+    }
+  }
+
   /**
    * Delete touring index data for a specific date range
    * Useful for cleanup or re-processing
@@ -0,0 +1,179 @@
+import { describe, expect, mock, test } from "bun:test";
+import { ERROR_CODES } from "../constants/errorCodes";
+import { HTTP_STATUS } from "../constants/httpStatus";
+import { HttpError } from "../domain/HttpError";
+import type { Weather } from "../domain/Weather";
+import { EnsembleWeatherRepository } from "./EnsembleWeatherRepository";
+import type { WeatherRepository } from "./WeatherRepository";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function forecast(
+  provider: string,
+  datetime: string,
+  temperature: number,
+): Weather {
+  return {
+    datetime,
+    condition: "clear",
+    temperature,
+    windSpeed: 3,
+    humidity: 55,
+    visibility: 20,
+    precipitationProbability: 0,
+    uvIndex: 5,
+    provider,
+  };
+}
+
+function member(overrides: Partial<WeatherRepository>): WeatherRepository {
+  return {
+    getWeather: mock(async () => {
+      throw new Error("not stubbed");
+    }),
+    getHourlyWeather: mock(async () => []),
+    getWeatherBatch: mock(async () => []),
+    ...overrides,
+  };
+}
+
+const unavailable = () =>
+  new HttpError(HTTP_STATUS.SERVICE_UNAVAILABLE, "Upstream unavailable", {
+    code: ERROR_CODES.WEATHER_UPSTREAM_UNAVAILABLE,
+  });
+
+describe("EnsembleWeatherRepository", () => {
+  test("blends the forecasts of every member", async () => {
+    const repository = new EnsembleWeatherRepository([
+      member({
+        getWeather: async () =>
+          forecast("weatherapi", "2025-06-01T12:00:00+09:00", 20),
+      }),
+      member({
+        getWeather: async () =>
+          forecast("open-meteo", "2025-06-01T12:00:00+09:00", 22),
+      }),
+    ]);
+
+    const weather = await repository.getWeather(
+      35,
+      139,
+      "2025-06-01T12:00:00+09:00",
+    );
+
+    expect(weather.temperature).toBe(21);
+    expect(weather.provider).toBe("ensemble");
+    expect(weather.ensemble?.providers).toEqual(["weatherapi", "open-meteo"]);
+    expect(weather.ensemble?.disagreement.temperature).toBe(2);
+  });
+
+  test("matches hours by instant across datetime formats", async () => {
+    const repository = new EnsembleWeatherRepository([
+      member({
+        getHourlyWeather: async () => [
+          forecast("weatherapi", "2025-06-01T09:00:00+09:00", 18),
+          forecast("weatherapi", "2025-06-01T10:00:00+09:00", 20),
+        ],
+      }),
+      member({
+        getHourlyWeather: async () => [
+          forecast("open-meteo", "2025-06-01T01:00:00Z", 22),
+        ],
+      }),
+    ]);
+
+    const hours = await repository.getHourlyWeather(35, 139, "2025-06-01");
+
+    expect(hours.map((hour) => hour.temperature)).toEqual([18, 21]);
+    expect(hours[0].ensemble?.providers).toEqual(["weatherapi"]);
+    expect(hours[1].ensemble?.providers).toEqual(["weatherapi", "open-meteo"]);
+  });
+
+  test("blends a batch day by day", async () => {
+    const repository = new EnsembleWeatherRepository([
+      member({
+        getWeatherBatch: async () => [
+          forecast("weatherapi", "2025-06-01T03:00:00Z", 20),
+          forecast("weatherapi", "2025-06-02T03:00:00Z", 24),
+        ],
+      }),
+      member({
+        getWeatherBatch: async () => [
+          forecast("open-meteo", "2025-06-01T03:00:00Z", 22),
+          forecast("open-meteo", "2025-06-02T03:00:00Z", 18),
+        ],
+      }),
+    ]);
+
+    const days = await repository.getWeatherBatch(
+      35,
+      139,
+      "2025-06-01",
+      "2025-06-02",
+    );
+
+    expect(days.map((day) => day.temperature)).toEqual([21, 21]);
+    expect(days.map((day) => day.ensemble?.disagreement.temperature)).toEqual([
+      2, 6,
+    ]);
+  });
+
+  test("blends the remaining members when one has an upstream failure", async () => {
+    const repository = new EnsembleWeatherRepository([
+      member({
+        getWeather: async () => {
+          throw unavailable();
+        },
+      }),
+      member({
+        getWeather: async () =>
+          forecast("open-meteo", "2025-06-01T12:00:00+09:00", 22),
+      }),
+    ]);
+
+    const weather = await repository.getWeather(
+      35,
+      139,
+      "2025-06-01T12:00:00+09:00",
+    );
+
+    expect(weather.temperature).toBe(22);
+    expect(weather.ensemble?.providers).toEqual(["open-meteo"]);
+  });
+
+  test("rethrows an upstream failure when no member answers", async () => {
+    const repository = new EnsembleWeatherRepository([
+      member({
+        getWeather: async () => {
+          throw unavailable();
+        },
+      }),
+    ]);
+
+    await expect(
+      repository.getWeather(35, 139, "2025-06-01T12:00:00+09:00"),
+    ).rejects.toMatchObject({
+      code: ERROR_CODES.WEATHER_UPSTREAM_UNAVAILABLE,
+    });
+  });
+
+  test("rethrows errors every member would repeat", async () => {
+    const repository = new EnsembleWeatherRepository([
+      member({
+        getWeather: async () => {
+          throw new HttpError(HTTP_STATUS.BAD_REQUEST, "Invalid datetime");
+        },
+      }),
+      member({
+        getWeather: async () =>
+          forecast("open-meteo", "2025-06-01T12:00:00+09:00", 22),
+      }),
+    ]);
+
+    await expect(
+      repository.getWeather(35, 139, "not-a-date"),
+    ).rejects.toMatchObject({ status: HTTP_STATUS.BAD_REQUEST });
+  });
+});
@@ -0,0 +1,105 @@
+import type { Weather } from "../domain/Weather";
+import { blendWeather } from "../domain/WeatherEnsemble";
+import { logger } from "../utils/logger";
+import { isProviderFailure } from "./FailoverWeatherRepository";
+import type { WeatherRepository } from "./WeatherRepository";
+
+/**
+ * Composite WeatherRepository that queries every member for the same point
+ * and time and blends their forecasts (see `blendWeather`). A member that
+ * fails with an upstream error is left out of the blend; the request fails
+ * only when no member answers.
+ */
+export class EnsembleWeatherRepository implements WeatherRepository {
+  /**
+   * @param members Repositories in priority order, each stamping the
+   * weather it serves with its `provider`
+   */
+  constructor(private readonly members: WeatherRepository[]) {
+    if (members.length === 0) {
+      throw new Error("At least one ensemble member is required");
+    }
+  }
+
+  async getWeather(
+    lat: number,
+    lon: number,
+    datetime: string,
+  ): Promise<Weather> {
+    const forecasts = await this.fromEveryAvailable("getWeather", (member) =>
+      member.getWeather(lat, lon, datetime),
+    );
+    return blendWeather(forecasts);
+  }
+
+  async getHourlyWeather(
+    lat: number,
+    lon: number,
+    date: string,
+  ): Promise<Weather[]> {
+    const forecasts = await this.fromEveryAvailable(
+      "getHourlyWeather",
+      (member) => member.getHourlyWeather(lat, lon, date),
+    );
+
+    // Providers format datetimes differently, so hours are matched by instant
+    return forecasts[0].map((hour) => {
+      const instant = Date.parse(hour.datetime);
+      return blendWeather(
+        forecasts.flatMap((hours) =>
+          hours.filter((other) => Date.parse(other.datetime) === instant),
+        ),
+      );
+    });
+  }
+
+  async getWeatherBatch(
+    lat: number,
+    lon: number,
+    startDate: string,
+    endDate: string,
+  ): Promise<Weather[]> {
+    const forecasts = await this.fromEveryAvailable(
+      "getWeatherBatch",
+      (member) => member.getWeatherBatch(lat, lon, startDate, endDate),
+    );
+
+    // Every member answers one record per date of the range, in order
+    return forecasts[0].map((_, day) =>
+      blendWeather(forecasts.map((days) => days[day])),
+    );
+  }
+
+  /**
+   * @returns Each answering member's result, in priority order
+   * @throws The first error that is not an upstream failure, since every
+   * member would fail the same way
+   * @throws The first upstream failure when no member answered
+   */
+  private async fromEveryAvailable<T>(
+    operation: string,
+    request: (member: WeatherRepository) => Promise<T>,
+  ): Promise<T[]> {
+    const results = await Promise.allSettled(this.members.map(request));
+
+    const failures = results.flatMap((result) =>
+      result.status === "rejected" ? [result.reason] : [],
+    );
+    const requestError = failures.find((error) => !isProviderFailure(error));
+    if (requestError) throw requestError;
+
+    const forecasts = results.flatMap((result) =>
+      result.status === "fulfilled" ? [result.value] : [],
+    );
+    if (forecasts.length === 0) throw failures[0];
+
+    if (failures.length > 0) {
+      logger.warn("Ensemble members failed, blending the others", {
+        operation,
+        members: this.members.length,
+        failedMembers: failures.length,
+      });
+    }
+    return forecasts;
+  }
+}
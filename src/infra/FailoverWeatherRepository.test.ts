@@ -0,0 +1,245 @@
+import { describe, expect, mock, test } from "bun:test";
+import { ERROR_CODES } from "../constants/errorCodes";
+import { HTTP_STATUS } from "../constants/httpStatus";
+import { HttpError } from "../domain/HttpError";
+import type { Weather } from "../domain/Weather";
+import { getJstDateString } from "../utils/dateUtils";
+import { CircuitBreaker } from "./CircuitBreaker";
+import { FailoverWeatherRepository } from "./FailoverWeatherRepository";
+import { WeatherApiWeatherRepository } from "./WeatherApiWeatherRepository";
+import type { WeatherRepository } from "./WeatherRepository";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const weather: Weather = {
+  datetime: "2025-06-01T12:00:00+09:00",
+  condition: "clear",
+  temperature: 22,
+  windSpeed: 3,
+  humidity: 55,
+  visibility: 20,
+  precipitationProbability: 0,
+  uvIndex: 5,
+  airQuality: "low",
+};
+
+const unavailable = () =>
+  new HttpError(HTTP_STATUS.SERVICE_UNAVAILABLE, "Upstream unavailable", {
+    code: ERROR_CODES.WEATHER_UPSTREAM_UNAVAILABLE,
+  });
+
+function fakeRepository(getWeather: () => Promise<Weather>): WeatherRepository {
+  return {
+    getWeather: mock(getWeather),
+    getHourlyWeather: mock(async () => [weather, weather]),
+    getWeatherBatch: mock(async () => [weather]),
+  };
+}
+
+function provider(name: string, repository: WeatherRepository) {
+  return {
+    name,
+    repository,
+    breaker: new CircuitBreaker(name, {
+      failureThreshold: 2,
+      resetTimeoutMs: 60_000,
+    }),
+  };
+}
+
+describe("FailoverWeatherRepository", () => {
+  test("serves from the first provider and reports it", async () => {
+    const primary = fakeRepository(async () => weather);
+    const secondary = fakeRepository(async () => weather);
+    const repository = new FailoverWeatherRepository([
+      provider("weatherapi", primary),
+      provider("open-meteo", secondary),
+    ]);
+
+    const result = await repository.getWeather(35, 139, weather.datetime);
+
+    expect(result).toEqual({ ...weather, provider: "weatherapi" });
+    expect(secondary.getWeather).not.toHaveBeenCalled();
+  });
+
+  test("falls through to the next provider on an upstream failure", async () => {
+    const repository = new FailoverWeatherRepository([
+      provider(
+        "weatherapi",
+        fakeRepository(async () => {
+          throw unavailable();
+        }),
+      ),
+      provider(
+        "open-meteo",
+        fakeRepository(async () => weather),
+      ),
+    ]);
+
+    const result = await repository.getWeather(35, 139, weather.datetime);
+
+    expect(result.provider).toBe("open-meteo");
+  });
+
+  test("stamps every record of a batch", async () => {
+    const repository = new FailoverWeatherRepository([
+      provider(
+        "open-meteo",
+        fakeRepository(async () => weather),
+      ),
+    ]);
+
+    const hours = await repository.getHourlyWeather(35, 139, "2025-06-01");
+
+    expect(hours.map((hour) => hour.provider)).toEqual([
+      "open-meteo",
+      "open-meteo",
+    ]);
+  });
+
+  test("fails over when the primary's batch request cannot reach WeatherAPI", async () => {
+    const today = getJstDateString();
+    const primary = provider(
+      "weatherapi",
+      new WeatherApiWeatherRepository("test-key", {
+        transport: async () => {
+          throw new TypeError("fetch failed");
+        },
+      }),
+    );
+    const secondary = fakeRepository(async () => weather);
+    const repository = new FailoverWeatherRepository([
+      primary,
+      provider("open-meteo", secondary),
+    ]);
+
+    const days = await repository.getWeatherBatch(35, 139, today, today);
+
+    expect(days.map((day) => day.provider)).toEqual(["open-meteo"]);
+    expect(secondary.getWeatherBatch).toHaveBeenCalledTimes(1);
+  });
+
+  test("does not fail over on errors every provider would repeat", async () => {
+    const secondary = fakeRepository(async () => weather);
+    const primary = provider(
+      "weatherapi",
+      fakeRepository(async () => {
+        throw new HttpError(HTTP_STATUS.NOT_FOUND, "No data", {
+          code: ERROR_CODES.WEATHER_DATA_NOT_FOUND,
+        });
+      }),
+    );
+    const repository = new FailoverWeatherRepository([
+      primary,
+      provider("open-meteo", secondary),
+    ]);
+
+    await expect(
+      repository.getWeather(35, 139, weather.datetime),
+    ).rejects.toMatchObject({ code: ERROR_CODES.WEATHER_DATA_NOT_FOUND });
+    expect(secondary.getWeather).not.toHaveBeenCalled();
+    expect(primary.breaker.getState()).toBe("closed");
+  });
+
+  test("keeps a half-open circuit half-open after an error the provider is not to blame for", async () => {
+    const clock = { now: 0 };
+    let failure: () => Error = unavailable;
+    const primary = {
+      name: "weatherapi",
+      repository: fakeRepository(async () => {
+        throw failure();
+      }),
+      breaker: new CircuitBreaker("weatherapi", {
+        failureThreshold: 2,
+        resetTimeoutMs: 60_000,
+        now: () => clock.now,
+      }),
+    };
+    const repository = new FailoverWeatherRepository([primary]);
+    for (let i = 0; i < 2; i++) {
+      await repository.getWeather(35, 139, weather.datetime).catch(() => {});
+    }
+    clock.now = 60_000;
+    failure = () =>
+      new HttpError(HTTP_STATUS.NOT_FOUND, "No data", {
+        code: ERROR_CODES.WEATHER_DATA_NOT_FOUND,
+      });
+
+    await expect(
+      repository.getWeather(35, 139, weather.datetime),
+    ).rejects.toMatchObject({ code: ERROR_CODES.WEATHER_DATA_NOT_FOUND });
+
+    expect(primary.breaker.getState()).toBe("half_open");
+    // The slot is free again for the next trial
+    expect(primary.breaker.allowRequest()).toBe(true);
+  });
+
+  test("skips a provider once its circuit opens", async () => {
+    const primary = provider(
+      "weatherapi",
+      fakeRepository(async () => {
+        throw unavailable();
+      }),
+    );
+    const repository = new FailoverWeatherRepository([
+      primary,
+      provider(
+        "open-meteo",
+        fakeRepository(async () => weather),
+      ),
+    ]);
+
+    for (let i = 0; i < 3; i++) {
+      await repository.getWeather(35, 139, weather.datetime);
+    }
+
+    expect(primary.breaker.getState()).toBe("open");
+    expect(primary.repository.getWeather).toHaveBeenCalledTimes(2);
+  });
+
+  test("rethrows the last upstream failure when every provider fails", async () => {
+    const repository = new FailoverWeatherRepository([
+      provider(
+        "weatherapi",
+        fakeRepository(async () => {
+          throw unavailable();
+        }),
+      ),
+      provider(
+        "open-meteo",
+        fakeRepository(async () => {
+          throw new HttpError(HTTP_STATUS.GATEWAY_TIMEOUT, "Timed out", {
+            code: ERROR_CODES.WEATHER_UPSTREAM_TIMEOUT,
+          });
+        }),
+      ),
+    ]);
+
+    await expect(
+      repository.getWeather(35, 139, weather.datetime),
+    ).rejects.toMatchObject({
+      status: HTTP_STATUS.GATEWAY_TIMEOUT,
+      code: ERROR_CODES.WEATHER_UPSTREAM_TIMEOUT,
+    });
+  });
+
+  test("answers 503 when every provider's circuit is open", async () => {
+    const only = provider(
+      "weatherapi",
+      fakeRepository(async () => weather),
+    );
+    only.breaker.recordFailure();
+    only.breaker.recordFailure();
+    const repository = new FailoverWeatherRepository([only]);
+
+    await expect(
+      repository.getWeather(35, 139, weather.datetime),
+    ).rejects.toMatchObject({
+      status: HTTP_STATUS.SERVICE_UNAVAILABLE,
+      code: ERROR_CODES.WEATHER_UPSTREAM_UNAVAILABLE,
+    });
+    expect(only.repository.getWeather).not.toHaveBeenCalled();
+  });
+});
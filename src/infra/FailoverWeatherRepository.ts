@@ -0,0 +1,118 @@
+import { ERROR_CODES } from "../constants/errorCodes";
+import { HTTP_STATUS } from "../constants/httpStatus";
+import { HttpError } from "../domain/HttpError";
+import type { Weather } from "../domain/Weather";
+import { logger } from "../utils/logger";
+import type { CircuitBreaker } from "./CircuitBreaker";
+import type { WeatherRepository } from "./WeatherRepository";
+
+export type WeatherProvider = {
+  name: string; // Reported as `provider` on the weather it serves
+  repository: WeatherRepository;
+  breaker: CircuitBreaker;
+};
+
+/**
+ * Whether a provider error is the provider's fault, so the next provider
+ * should be tried. Upstream failures surface as 5xx HttpErrors; anything
+ * else (an invalid datetime, a date out of range, no data for the location)
+ * would fail the same way on every provider.
+ */
+export function isProviderFailure(error: unknown): boolean {
+  return error instanceof HttpError && error.status >= 500;
+}
+
+/**
+ * Composite WeatherRepository that tries providers in priority order.
+ * A provider whose circuit breaker is open is skipped, and every weather
+ * record is stamped with the name of the provider that served it.
+ */
+export class FailoverWeatherRepository implements WeatherRepository {
+  constructor(private readonly providers: WeatherProvider[]) {
+    if (providers.length === 0) {
+      throw new Error("At least one weather provider is required");
+    }
+  }
+
+  async getWeather(
+    lat: number,
+    lon: number,
+    datetime: string,
+  ): Promise<Weather> {
+    const [weather] = await this.fromFirstAvailable(
+      "getWeather",
+      async (repository) => [await repository.getWeather(lat, lon, datetime)],
+    );
+    return weather;
+  }
+
+  getHourlyWeather(lat: number, lon: number, date: string): Promise<Weather[]> {
+    return this.fromFirstAvailable("getHourlyWeather", (repository) =>
+      repository.getHourlyWeather(lat, lon, date),
+    );
+  }
+
+  getWeatherBatch(
+    lat: number,
+    lon: number,
+    startDate: string,
+    endDate: string,
+  ): Promise<Weather[]> {
+    return this.fromFirstAvailable("getWeatherBatch", (repository) =>
+      repository.getWeatherBatch(lat, lon, startDate, endDate),
+    );
+  }
+
+  /**
+   * @throws The last provider failure when every available provider failed
+   * @throws HttpError 503 when every provider's circuit is open
+   */
+  private async fromFirstAvailable(
+    operation: string,
+    request: (repository: WeatherRepository) => Promise<Weather[]>,
+  ): Promise<Weather[]> {
+    let lastFailure: unknown;
+
+    for (const { name, repository, breaker } of this.providers) {
+      if (!breaker.allowRequest()) {
+        logger.warn("Skipping weather provider with open circuit", {
+          operation,
+          provider: name,
+        });
+        continue;
+      }
+
+      try {
+        const weathers = await request(repository);
+        breaker.recordSuccess();
+        return weathers.map((weather) => ({ ...weather, provider: name }));
+      } catch (error) {
+        if (!isProviderFailure(error)) {
+          // Not the provider's fault, so its circuit stays as it was; only a
+          // half-open trial slot has to be released
+          breaker.releaseTrial();
+          throw error;
+        }
+
+        breaker.recordFailure();
+        lastFailure = error;
+        logger.warn(
+          "Weather provider failed, trying the next one",
+          { operation, provider: name, circuitState: breaker.getState() },
+          error instanceof Error ? error : undefined,
+        );
+      }
+    }
+
+    if (lastFailure) throw lastFailure;
+
+    throw new HttpError(
+      HTTP_STATUS.SERVICE_UNAVAILABLE,
+      "All weather providers are temporarily unavailable",
+      {
+        code: ERROR_CODES.WEATHER_UPSTREAM_UNAVAILABLE,
+        details: { providers: this.providers.map(({ name }) => name) },
+      },
+    );
+  }
+}
@@ -0,0 +1,153 @@
+import { describe, expect, test } from "bun:test";
+import { addDaysToDateString, getJstDateString } from "../utils/dateUtils";
+import { FixtureWeatherRepository } from "./FixtureWeatherRepository";
+import {
+  DEFAULT_WEATHER_FIXTURE_DIR,
+  loadWeatherApiRecordings,
+  type WeatherApiRecording,
+} from "./weatherApiRecording";
+
+// The recordings shipped for offline development: a three-day forecast from
+// 2025-06-01 (fair, morning drizzle, cloudy) and the history of 2025-05-31
+const recordings = () => loadWeatherApiRecordings(DEFAULT_WEATHER_FIXTURE_DIR);
+
+describe("FixtureWeatherRepository", () => {
+  test("replays the recorded forecast as today's", async () => {
+    const today = getJstDateString();
+    const repository = new FixtureWeatherRepository(recordings);
+
+    const weather = await repository.getWeather(
+      35.6762,
+      139.6503,
+      `${today}T12:00:00+09:00`,
+    );
+
+    expect(weather).toMatchObject({
+      datetime: `${today}T12:00:00+09:00`,
+      condition: "clear",
+      humidity: 68,
+      precipitationProbability: 0,
+      airQuality: "low",
+      sunrise: `${today}T04:25:00+09:00`,
+      sunset: `${today}T18:52:00+09:00`,
+    });
+  });
+
+  test("answers the same way for any location", async () => {
+    const today = getJstDateString();
+    const repository = new FixtureWeatherRepository(recordings);
+
+    const tokyo = await repository.getWeather(
+      35.6762,
+      139.6503,
+      `${today}T12:00:00+09:00`,
+    );
+    const sapporo = await repository.getWeather(
+      43.0642,
+      141.3469,
+      `${today}T12:00:00+09:00`,
+    );
+
+    // Only the bundled elevation of the Hokkaido centroid tells them apart
+    const { elevation, ...sapporoWeather } = sapporo;
+    expect(sapporoWeather).toEqual(tokyo);
+    expect(elevation).toBe(20);
+  });
+
+  test("replays the recorded history for past dates", async () => {
+    const lastWeek = addDaysToDateString(getJstDateString(), -7);
+    const repository = new FixtureWeatherRepository(recordings);
+
+    const hours = await repository.getHourlyWeather(
+      35.6762,
+      139.6503,
+      lastWeek,
+    );
+
+    expect(hours).toHaveLength(24);
+    expect(hours[0].datetime).toBe(`${lastWeek}T00:00:00+09:00`);
+    expect(hours[5].condition).toBe("drizzle");
+    // History carries no air quality
+    expect(hours[5].airQuality).toBeUndefined();
+  });
+
+  test("cycles through the recorded days for a longer batch", async () => {
+    const today = getJstDateString();
+    const repository = new FixtureWeatherRepository(recordings);
+
+    const days = await repository.getWeatherBatch(
+      35.6762,
+      139.6503,
+      today,
+      addDaysToDateString(today, 13),
+    );
+
+    expect(days).toHaveLength(14);
+    expect(days[13].datetime).toBe(
+      `${addDaysToDateString(today, 13)}T03:00:00Z`,
+    );
+    expect(days.slice(0, 4).map((day) => day.condition)).toEqual([
+      "clear",
+      "drizzle",
+      "cloudy",
+      "clear",
+    ]);
+  });
+
+  test("prefers the recording closest to the requested location", async () => {
+    const today = getJstDateString();
+    const [forecast] = (await recordings()).filter(
+      (recording) => recording.endpoint === "forecast",
+    );
+    const overcast: WeatherApiRecording = {
+      ...forecast,
+      params: { ...forecast.params, q: "43.0642,141.3469" },
+      response: {
+        ...forecast.response,
+        forecast: {
+          forecastday: forecast.response.forecast.forecastday.map(
+            (day: any) => ({
+              ...day,
+              hour: day.hour.map((hour: any) => ({
+                ...hour,
+                condition: { text: "Overcast", code: 1009 },
+              })),
+            }),
+          ),
+        },
+      },
+    };
+    const repository = new FixtureWeatherRepository(async () => [
+      forecast,
+      overcast,
+    ]);
+
+    const sapporo = await repository.getWeather(
+      43.06,
+      141.35,
+      `${today}T12:00:00+09:00`,
+    );
+    const tokyo = await repository.getWeather(
+      35.68,
+      139.65,
+      `${today}T12:00:00+09:00`,
+    );
+
+    expect(sapporo.condition).toBe("overcast");
+    expect(tokyo.condition).toBe("clear");
+  });
+
+  test("loads the recordings once", async () => {
+    let loads = 0;
+    const repository = new FixtureWeatherRepository(async () => {
+      loads++;
+      return recordings();
+    });
+    const today = getJstDateString();
+
+    await repository.getWeather(35.68, 139.65, `${today}T09:00:00+09:00`);
+    await repository.getWeather(35.68, 139.65, `${today}T15:00:00+09:00`);
+
+    expect(loads).toBe(1);
+  });
+});
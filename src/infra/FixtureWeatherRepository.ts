@@ -0,0 +1,134 @@
+import type { Weather } from "../domain/Weather";
+import { addDaysToDateString, getJstDateString } from "../utils/dateUtils";
+import {
+  type WeatherApiTransport,
+  WeatherApiWeatherRepository,
+} from "./WeatherApiWeatherRepository";
+import type { WeatherRepository } from "./WeatherRepository";
+import {
+  endpointOf,
+  shiftWeatherApiDates,
+  type WeatherApiRecording,
+} from "./weatherApiRecording";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function daysBetween(from: string, to: string): number {
+  return Math.round(
+    (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) /
+      MS_PER_DAY,
+  );
+}
+
+function distance(q: string | undefined, lat: number, lon: number): number {
+  const [recordedLat, recordedLon] = (q ?? "").split(",").map(Number);
+  if (Number.isNaN(recordedLat) || Number.isNaN(recordedLon)) {
+    return Number.POSITIVE_INFINITY;
+  }
+  return Math.hypot(recordedLat - lat, recordedLon - lon);
+}
+
+/**
+ * Pick the recording to replay: one from the same endpoint when there is
+ * one, then the one recorded closest to the requested location. Ties go to
+ * the earlier recording, so a request always gets the same answer.
+ */
+function selectRecording(
+  recordings: WeatherApiRecording[],
+  endpoint: WeatherApiRecording["endpoint"],
+  lat: number,
+  lon: number,
+): WeatherApiRecording {
+  const sameEndpoint = recordings.filter(
+    (recording) => recording.endpoint === endpoint,
+  );
+  const candidates = sameEndpoint.length > 0 ? sameEndpoint : recordings;
+  return candidates.reduce((closest, recording) =>
+    distance(recording.params.q, lat, lon) <
+    distance(closest.params.q, lat, lon)
+      ? recording
+      : closest,
+  );
+}
+
+/**
+ * Replay a recording as the response to a WeatherAPI request. The recorded
+ * days are moved onto the requested dates (the `dt` of a history request,
+ * today onwards for a forecast), cycling through them when more days are
+ * requested than were recorded.
+ */
+function replay(
+  recordings: WeatherApiRecording[],
+  url: string,
+  params: Record<string, string>,
+): any {
+  const endpoint = endpointOf(url);
+  const [lat, lon] = (params.q ?? "").split(",").map(Number);
+  const { response } = selectRecording(recordings, endpoint, lat, lon);
+  const recordedDays: any[] = response?.forecast?.forecastday ?? [];
+  if (recordedDays.length === 0) return response;
+
+  const firstDate =
+    endpoint === "history" && params.dt ? params.dt : getJstDateString();
+  const dayCount = endpoint === "history" ? 1 : Number(params.days ?? 1);
+  const forecastday = Array.from({ length: dayCount }, (_, index) => {
+    const recordedDay = recordedDays[index % recordedDays.length];
+    return shiftWeatherApiDates(
+      recordedDay,
+      daysBetween(recordedDay.date, addDaysToDateString(firstDate, index)),
+    );
+  });
+
+  return {
+    ...shiftWeatherApiDates(
+      { ...response, forecast: undefined },
+      daysBetween(recordedDays[0].date, firstDate),
+    ),
+    forecast: { forecastday },
+  };
+}
+
+/**
+ * WeatherRepository that answers every request from recorded WeatherAPI
+ * responses (see `createRecordingTransport`), for running the API without a
+ * WeatherAPI key. Recordings go through the same mapping as live WeatherAPI
+ * responses, time-shifted so that old recordings read as current forecasts.
+ */
+export class FixtureWeatherRepository implements WeatherRepository {
+  private readonly weatherApi: WeatherApiWeatherRepository;
+  private recordings?: Promise<WeatherApiRecording[]>;
+
+  /**
+   * @param loadRecordings Called once, on the first request
+   */
+  constructor(loadRecordings: () => Promise<WeatherApiRecording[]>) {
+    const transport: WeatherApiTransport = async (url, params) => {
+      this.recordings ??= loadRecordings();
+      const recordings = await this.recordings;
+      if (recordings.length === 0) {
+        throw new Error("No WeatherAPI recordings to replay");
+      }
+      return { status: 200, data: replay(recordings, url, params) };
+    };
+    this.weatherApi = new WeatherApiWeatherRepository("fixture", {
+      transport,
+    });
+  }
+
+  getWeather(lat: number, lon: number, datetime: string): Promise<Weather> {
+    return this.weatherApi.getWeather(lat, lon, datetime);
+  }
+
+  getHourlyWeather(lat: number, lon: number, date: string): Promise<Weather[]> {
+    return this.weatherApi.getHourlyWeather(lat, lon, date);
+  }
+
+  getWeatherBatch(
+    lat: number,
+    lon: number,
+    startDate: string,
+    endDate: string,
+  ): Promise<Weather[]> {
+    return this.weatherApi.getWeatherBatch(lat, lon, startDate, endDate);
+  }
+}
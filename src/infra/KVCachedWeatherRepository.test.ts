@@ -0,0 +1,152 @@
+import { beforeEach, describe, expect, mock, test } from "bun:test";
+import type { Weather } from "../domain/Weather";
+import { addDaysToDateString, getJstDateString } from "../utils/dateUtils";
+import {
+  KVCachedWeatherRepository,
+  type WeatherCacheStatus,
+} from "./KVCachedWeatherRepository";
+import type { WeatherRepository } from "./WeatherRepository";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+class MockKVNamespace {
+  readonly storage = new Map<string, string>();
+  readonly ttls = new Map<string, number | undefined>();
+  failing = false;
+
+  async get(key: string): Promise<string | null> {
+    if (this.failing) throw new Error("KV unavailable");
+    return this.storage.get(key) ?? null;
+  }
+
+  async put(
+    key: string,
+    value: string,
+    options?: { expirationTtl?: number },
+  ): Promise<void> {
+    if (this.failing) throw new Error("KV unavailable");
+    this.storage.set(key, value);
+    this.ttls.set(key, options?.expirationTtl);
+  }
+}
+
+const weather: Weather = {
+  datetime: "2025-06-01T12:00:00+09:00",
+  condition: "clear",
+  temperature: 22,
+  windSpeed: 3,
+  humidity: 55,
+  visibility: 20,
+  precipitationProbability: 0,
+  uvIndex: 5,
+  airQuality: "low",
+  provider: "weatherapi",
+};
+
+describe("KVCachedWeatherRepository", () => {
+  let kv: MockKVNamespace;
+  let inner: WeatherRepository;
+  let lookups: WeatherCacheStatus[];
+  let repository: KVCachedWeatherRepository;
+
+  beforeEach(() => {
+    kv = new MockKVNamespace();
+    inner = {
+      getWeather: mock(async () => weather),
+      getHourlyWeather: mock(async () => [weather]),
+      getWeatherBatch: mock(async () => [weather]),
+    };
+    lookups = [];
+    repository = new KVCachedWeatherRepository(
+      kv as unknown as KVNamespace,
+      inner,
+      {
+        coordinatePrecision: 2,
+        forecastTtlSeconds: 1800,
+        historyTtlSeconds: 604800,
+        onLookup: (status) => lookups.push(status),
+      },
+    );
+  });
+
+  test("answers a repeated lookup from the cache", async () => {
+    const datetime = `${getJstDateString()}T12:00:00+09:00`;
+
+    const first = await repository.getWeather(35.6762, 139.6503, datetime);
+    const second = await repository.getWeather(35.6762, 139.6503, datetime);
+
+    expect(second).toEqual(first);
+    expect(inner.getWeather).toHaveBeenCalledTimes(1);
+    expect(lookups).toEqual(["MISS", "HIT"]);
+  });
+
+  test("keys by rounded coordinates and the nearest JST hour", async () => {
+    const date = getJstDateString();
+
+    await repository.getWeather(35.6762, 139.6503, `${date}T12:20:00+09:00`);
+    await repository.getWeather(35.6801, 139.6549, `${date}T03:00:00Z`);
+    await repository.getWeather(35.6762, 139.6503, `${date}T12:40:00+09:00`);
+
+    expect([...kv.storage.keys()]).toEqual([
+      `weather:v1:35.68:139.65:${date}T12`,
+      `weather:v1:35.68:139.65:${date}T13`,
+    ]);
+    expect(lookups).toEqual(["MISS", "HIT", "MISS"]);
+  });
+
+  test("keeps past hours longer than forecasts", async () => {
+    const today = getJstDateString();
+    const lastWeek = addDaysToDateString(today, -7);
+    const tomorrow = addDaysToDateString(today, 1);
+
+    await repository.getWeather(35.68, 139.65, `${lastWeek}T12:00:00+09:00`);
+    await repository.getWeather(35.68, 139.65, `${tomorrow}T12:00:00+09:00`);
+
+    expect(kv.ttls.get(`weather:v1:35.68:139.65:${lastWeek}T12`)).toBe(604800);
+    expect(kv.ttls.get(`weather:v1:35.68:139.65:${tomorrow}T12`)).toBe(1800);
+  });
+
+  test("treats an unreadable entry as a miss", async () => {
+    const date = getJstDateString();
+    kv.storage.set(
+      `weather:v1:35.68:139.65:${date}T12`,
+      JSON.stringify({ condition: "sunny" }),
+    );
+
+    const result = await repository.getWeather(
+      35.68,
+      139.65,
+      `${date}T12:00:00+09:00`,
+    );
+
+    expect(result).toEqual(weather);
+    expect(lookups).toEqual(["MISS"]);
+  });
+
+  test("serves from the provider when KV fails", async () => {
+    kv.failing = true;
+
+    const result = await repository.getWeather(
+      35.68,
+      139.65,
+      `${getJstDateString()}T12:00:00+09:00`,
+    );
+
+    expect(result).toEqual(weather);
+    expect(lookups).toEqual(["MISS"]);
+  });
+
+  test("passes hourly and batch lookups through uncached", async () => {
+    const date = getJstDateString();
+
+    await repository.getHourlyWeather(35.68, 139.65, date);
+    await repository.getWeatherBatch(35.68, 139.65, date, date);
+
+    expect(inner.getHourlyWeather).toHaveBeenCalledTimes(1);
+    expect(inner.getWeatherBatch).toHaveBeenCalledTimes(1);
+    expect(kv.storage.size).toBe(0);
+    expect(lookups).toEqual([]);
+  });
+});
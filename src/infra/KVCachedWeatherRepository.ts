@@ -0,0 +1,139 @@
+// Infrastructure Layer - KV Storage Implementation
+
+import { APP_CONFIG } from "../constants/appConfig";
+import { type Weather, WeatherSchema } from "../domain/Weather";
+import { formatJstDatetime } from "../utils/dateUtils";
+import { logger } from "../utils/logger";
+import { parseRequestedDatetime } from "./upstreamRequest";
+import type { WeatherRepository } from "./WeatherRepository";
+
+export type WeatherCacheStatus = "HIT" | "MISS";
+
+export type WeatherCacheOptions = {
+  // Decimal places coordinates are rounded to in the cache key
+  coordinatePrecision?: number;
+  forecastTtlSeconds?: number;
+  historyTtlSeconds?: number;
+  // Told whether each getWeather call was answered from the cache
+  onLookup?: (status: WeatherCacheStatus) => void;
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Caches single-hour weather lookups in KV in front of another
+ * WeatherRepository. Entries are keyed by the coordinates rounded to
+ * `coordinatePrecision` and the JST hour the provider's nearest hourly
+ * record falls on. Past hours no longer change and are kept longer than
+ * forecasts. Hourly and batch lookups are passed through uncached.
+ *
+ * KV failures never fail a request: a failed read counts as a miss and a
+ * failed write is only logged.
+ */
+export class KVCachedWeatherRepository implements WeatherRepository {
+  private readonly coordinatePrecision: number;
+  private readonly forecastTtlSeconds: number;
+  private readonly historyTtlSeconds: number;
+
+  constructor(
+    private readonly kv: KVNamespace,
+    private readonly inner: WeatherRepository,
+    private readonly options: WeatherCacheOptions = {},
+  ) {
+    this.coordinatePrecision =
+      options.coordinatePrecision ??
+      APP_CONFIG.WEATHER_CACHE_COORDINATE_PRECISION;
+    this.forecastTtlSeconds =
+      options.forecastTtlSeconds ??
+      APP_CONFIG.WEATHER_CACHE_FORECAST_TTL_SECONDS;
+    this.historyTtlSeconds =
+      options.historyTtlSeconds ?? APP_CONFIG.WEATHER_CACHE_HISTORY_TTL_SECONDS;
+  }
+
+  async getWeather(
+    lat: number,
+    lon: number,
+    datetime: string,
+  ): Promise<Weather> {
+    // Providers answer with the nearest hourly record
+    const hour = new Date(
+      Math.round(parseRequestedDatetime(datetime).getTime() / HOUR_MS) *
+        HOUR_MS,
+    );
+    const key = this.cacheKey(lat, lon, hour);
+
+    const cached = await this.read(key);
+    this.options.onLookup?.(cached ? "HIT" : "MISS");
+    if (cached) return cached;
+
+    const weather = await this.inner.getWeather(lat, lon, datetime);
+    const currentHour = Math.floor(Date.now() / HOUR_MS) * HOUR_MS;
+    await this.write(
+      key,
+      weather,
+      hour.getTime() < currentHour
+        ? this.historyTtlSeconds
+        : this.forecastTtlSeconds,
+    );
+    return weather;
+  }
+
+  getHourlyWeather(lat: number, lon: number, date: string): Promise<Weather[]> {
+    return this.inner.getHourlyWeather(lat, lon, date);
+  }
+
+  getWeatherBatch(
+    lat: number,
+    lon: number,
+    startDate: string,
+    endDate: string,
+  ): Promise<Weather[]> {
+    return this.inner.getWeatherBatch(lat, lon, startDate, endDate);
+  }
+
+  // e.g. "weather:v1:35.68:139.65:2025-06-01T12"
+  private cacheKey(lat: number, lon: number, hour: Date): string {
+    return [
+      "weather:v1",
+      lat.toFixed(this.coordinatePrecision),
+      lon.toFixed(this.coordinatePrecision),
+      formatJstDatetime(hour).slice(0, 13),
+    ].join(":");
+  }
+
+  private async read(key: string): Promise<Weather | null> {
+    try {
+      const data = await this.kv.get(key);
+      if (!data) return null;
+
+      // Entries that no longer match the weather schema count as misses
+      const parsed = WeatherSchema.safeParse(JSON.parse(data));
+      return parsed.success ? parsed.data : null;
+    } catch (error) {
+      logger.warn(
+        "Failed to read cached weather",
+        { operation: "weather_cache_read", key },
+        error instanceof Error ? error : undefined,
+      );
+      return null;
+    }
+  }
+
+  private async write(
+    key: string,
+    weather: Weather,
+    ttlSeconds: number,
+  ): Promise<void> {
+    try {
+      await this.kv.put(key, JSON.stringify(weather), {
+        expirationTtl: ttlSeconds,
+      });
+    } catch (error) {
+      logger.warn(
+        "Failed to cache weather",
+        { operation: "weather_cache_write", key },
+        error instanceof Error ? error : undefined,
+      );
+    }
+  }
+}
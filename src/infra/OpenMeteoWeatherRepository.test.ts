@@ -0,0 +1,307 @@
+import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
+import { ERROR_CODES } from "../constants/errorCodes";
+import { HTTP_STATUS } from "../constants/httpStatus";
+import { addDaysToDateString, getJstDateString } from "../utils/dateUtils";
+import airQualityPayload from "./__fixtures__/open-meteo/air-quality.json";
+import outOfRangePayload from "./__fixtures__/open-meteo/error-out-of-range.json";
+import forecastDailyPayload from "./__fixtures__/open-meteo/forecast-daily.json";
+import forecastHourlyPayload from "./__fixtures__/open-meteo/forecast-hourly.json";
+import { OpenMeteoWeatherRepository } from "./OpenMeteoWeatherRepository";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+// Payloads were recorded for 2025-06-01 and 2025-06-02 (JST); move them to
+// the dates under test
+function recordedFor(payload: object, firstDate: string) {
+  return JSON.parse(
+    JSON.stringify(payload)
+      .replaceAll("2025-06-01", firstDate)
+      .replaceAll("2025-06-02", addDaysToDateString(firstDate, 1)),
+  );
+}
+
+// Answer forecast and air quality requests with their recorded payloads
+function mockOpenMeteo(
+  forecast: object,
+  airQuality: object | null,
+  status = 200,
+) {
+  const calls: URL[] = [];
+  globalThis.fetch = mock(async (input: any) => {
+    const url = new URL(String(input));
+    calls.push(url);
+    const isAirQuality = url.hostname.includes("air-quality");
+    if (isAirQuality && airQuality === null) {
+      throw new TypeError("fetch failed");
+    }
+    return new Response(JSON.stringify(isAirQuality ? airQuality : forecast), {
+      status: isAirQuality ? 200 : status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }) as any;
+  return calls;
+}
+
+describe("OpenMeteoWeatherRepository", () => {
+  let originalFetch: typeof globalThis.fetch;
+
+  beforeEach(() => {
+    originalFetch = globalThis.fetch;
+  });
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  describe("getWeather", () => {
+    test("maps the nearest hourly record with its air quality", async () => {
+      const today = getJstDateString();
+      const calls = mockOpenMeteo(
+        recordedFor(forecastHourlyPayload, today),
+        recordedFor(airQualityPayload, today),
+      );
+      const repository = new OpenMeteoWeatherRepository();
+
+      const weather = await repository.getWeather(
+        35.232,
+        139.02,
+        `${today}T12:20:00+09:00`,
+      );
+
+      expect(weather).toEqual({
+        datetime: `${today}T12:00:00+09:00`,
+        condition: "mostly_clear",
+        temperature: 20.5,
+        windSpeed: 3.6,
+        windGust: 7.56,
+        windDirection: 212,
+        humidity: 62,
+        visibility: 24.14,
+        precipitationProbability: 10,
+        precipitation: 0,
+        // Morning rain within the lookback window
+        recentPrecipitation: 6,
+        uvIndex: 7.5,
+        airQuality: "low",
+        airQualityComponents: { pm25: 6.2, pm10: 9.5, o3: 68, no2: 4.1 },
+        thunder: false,
+        elevation: 735,
+        sunrise: `${today}T04:27:00+09:00`,
+        sunset: `${today}T18:52:00+09:00`,
+      });
+
+      const forecastCall = calls.find(
+        (url) => url.hostname === "api.open-meteo.com",
+      );
+      expect(forecastCall?.searchParams.get("start_date")).toBe(today);
+      expect(forecastCall?.searchParams.get("timezone")).toBe("Asia/Tokyo");
+      expect(forecastCall?.searchParams.get("wind_speed_unit")).toBe("ms");
+    });
+
+    test("reads past dates from the archived forecasts", async () => {
+      const yesterday = addDaysToDateString(getJstDateString(), -1);
+      const calls = mockOpenMeteo(
+        recordedFor(forecastHourlyPayload, yesterday),
+        recordedFor(airQualityPayload, yesterday),
+      );
+      const repository = new OpenMeteoWeatherRepository();
+
+      const weather = await repository.getWeather(
+        35.232,
+        139.02,
+        `${yesterday}T05:00:00+09:00`,
+      );
+
+      expect(weather.condition).toBe("rain");
+      expect(calls.map((url) => url.hostname)).toContain(
+        "historical-forecast-api.open-meteo.com",
+      );
+    });
+
+    test("uses the commercial hosts when an API key is configured", async () => {
+      const today = getJstDateString();
+      const calls = mockOpenMeteo(
+        recordedFor(forecastHourlyPayload, today),
+        recordedFor(airQualityPayload, today),
+      );
+      const repository = new OpenMeteoWeatherRepository("test-key");
+
+      await repository.getWeather(35.232, 139.02, `${today}T12:00:00+09:00`);
+
+      expect(calls.map((url) => url.hostname).sort()).toEqual([
+        "customer-air-quality-api.open-meteo.com",
+        "customer-api.open-meteo.com",
+      ]);
+      expect(calls.every((url) => url.searchParams.get("apikey"))).toBe(true);
+    });
+
+    test("scores without air quality when its request fails", async () => {
+      const today = getJstDateString();
+      mockOpenMeteo(recordedFor(forecastHourlyPayload, today), null);
+      const repository = new OpenMeteoWeatherRepository(undefined, {
+        maxAttempts: 1,
+      });
+
+      const weather = await repository.getWeather(
+        35.232,
+        139.02,
+        `${today}T12:00:00+09:00`,
+      );
+
+      expect(weather.temperature).toBe(20.5);
+      expect(weather.airQuality).toBeUndefined();
+      expect(weather.airQualityComponents).toBeUndefined();
+    });
+
+    test("maps an out-of-range request to an upstream client error", async () => {
+      const today = getJstDateString();
+      mockOpenMeteo(outOfRangePayload, airQualityPayload, 400);
+      const repository = new OpenMeteoWeatherRepository();
+
+      await expect(
+        repository.getWeather(35.232, 139.02, `${today}T12:00:00+09:00`),
+      ).rejects.toMatchObject({
+        status: HTTP_STATUS.BAD_GATEWAY,
+        code: ERROR_CODES.WEATHER_UPSTREAM_CLIENT_ERROR,
+      });
+      // 4xx responses are not retried
+      expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    test("maps an upstream 5xx response to unavailable", async () => {
+      const today = getJstDateString();
+      mockOpenMeteo({ error: true, reason: "Internal error" }, null, 503);
+      const repository = new OpenMeteoWeatherRepository(undefined, {
+        maxAttempts: 1,
+      });
+
+      await expect(
+        repository.getWeather(35.232, 139.02, `${today}T12:00:00+09:00`),
+      ).rejects.toMatchObject({
+        status: HTTP_STATUS.SERVICE_UNAVAILABLE,
+        code: ERROR_CODES.WEATHER_UPSTREAM_UNAVAILABLE,
+      });
+    });
+
+    test("answers 404 when the response has no hours for the date", async () => {
+      const today = getJstDateString();
+      mockOpenMeteo(
+        { ...forecastHourlyPayload, hourly: { time: [] } },
+        airQualityPayload,
+      );
+      const repository = new OpenMeteoWeatherRepository();
+
+      await expect(
+        repository.getWeather(35.232, 139.02, `${today}T12:00:00+09:00`),
+      ).rejects.toMatchObject({
+        status: HTTP_STATUS.NOT_FOUND,
+        code: ERROR_CODES.WEATHER_DATA_NOT_FOUND,
+      });
+    });
+  });
+
+  describe("getHourlyWeather", () => {
+    test("maps every hourly record of the day in chronological order", async () => {
+      const today = getJstDateString();
+      mockOpenMeteo(
+        recordedFor(forecastHourlyPayload, today),
+        recordedFor(airQualityPayload, today),
+      );
+      const repository = new OpenMeteoWeatherRepository();
+
+      const hours = await repository.getHourlyWeather(35.232, 139.02, today);
+
+      expect(hours).toHaveLength(24);
+      expect(hours[0].datetime).toBe(`${today}T00:00:00+09:00`);
+      expect(hours[23].datetime).toBe(`${today}T23:00:00+09:00`);
+      expect(hours.slice(3, 7).map((hour) => hour.condition)).toEqual([
+        "drizzle",
+        "rain",
+        "rain",
+        "drizzle",
+      ]);
+    });
+  });
+
+  describe("getWeatherBatch", () => {
+    test("maps one daily record per date from a single forecast request", async () => {
+      const today = getJstDateString();
+      const tomorrow = addDaysToDateString(today, 1);
+      const calls = mockOpenMeteo(
+        recordedFor(forecastDailyPayload, today),
+        recordedFor(airQualityPayload, today),
+      );
+      const repository = new OpenMeteoWeatherRepository();
+
+      const [first, second] = await repository.getWeatherBatch(
+        35.232,
+        139.02,
+        today,
+        tomorrow,
+      );
+
+      expect(calls).toHaveLength(2);
+      expect(first).toMatchObject({
+        datetime: `${today}T03:00:00Z`,
+        condition: "rain",
+        temperature: 17.2,
+        // The morning rain counts as earlier rain, not in the day's total
+        precipitation: 0,
+        recentPrecipitation: 6,
+        airQuality: "low",
+      });
+      expect(second).toMatchObject({
+        datetime: `${tomorrow}T03:00:00Z`,
+        condition: "thunderstorm",
+        thunder: true,
+        windSpeed: 4.1,
+        windGust: 12.4,
+        humidity: 71,
+        precipitationProbability: 90,
+        recentPrecipitation: 0,
+        uvIndex: 5.1,
+        airQuality: "medium",
+        airQualityComponents: { pm25: 14.8, pm10: 21, o3: 96, no2: 7.9 },
+        elevation: 735,
+      });
+      // Daily visibility is the mean of the day's hours
+      expect(second.visibility).toBeCloseTo(14.558, 3);
+    });
+
+    test("rejects a batch range that starts before today", async () => {
+      const today = getJstDateString();
+      const repository = new OpenMeteoWeatherRepository();
+
+      await expect(
+        repository.getWeatherBatch(
+          35.232,
+          139.02,
+          addDaysToDateString(today, -1),
+          today,
+        ),
+      ).rejects.toThrow("Batch weather range must start on or after today");
+    });
+
+    test("rejects a response missing a requested date", async () => {
+      const today = getJstDateString();
+      mockOpenMeteo(
+        recordedFor(forecastDailyPayload, today),
+        recordedFor(airQualityPayload, today),
+      );
+      const repository = new OpenMeteoWeatherRepository();
+
+      await expect(
+        repository.getWeatherBatch(
+          35.232,
+          139.02,
+          today,
+          addDaysToDateString(today, 2),
+        ),
+      ).rejects.toMatchObject({
+        status: HTTP_STATUS.BAD_GATEWAY,
+        code: ERROR_CODES.WEATHER_UPSTREAM_INVALID_RESPONSE,
+      });
+    });
+  });
+});
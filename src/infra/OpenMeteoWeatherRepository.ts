@@ -0,0 +1,718 @@
+import { APP_CONFIG } from "../constants/appConfig";
+import { ERROR_CODES } from "../constants/errorCodes";
+import { HTTP_STATUS } from "../constants/httpStatus";
+import { HttpError } from "../domain/HttpError";
+import {
+  type AirQualityComponents,
+  type AirQualityLevel,
+  type Weather,
+  type WeatherCondition,
+  WeatherSchema,
+} from "../domain/Weather";
+import { addDaysToDateString, getJstDateString } from "../utils/dateUtils";
+import { type LogContext, logger } from "../utils/logger";
+import {
+  FetchHttpError,
+  parseRequestedDatetime,
+  requestUpstreamJson,
+} from "./upstreamRequest";
+import type { WeatherRepository } from "./WeatherRepository";
+
+// Open-Meteo hosts; the commercial API serves the same paths from
+// "customer-" prefixed hosts and requires an `apikey` parameter
+const OPEN_METEO_HOSTS = {
+  forecast: "api.open-meteo.com",
+  // Archived forecasts, with the same variables as the forecast API
+  history: "historical-forecast-api.open-meteo.com",
+  airQuality: "air-quality-api.open-meteo.com",
+};
+
+const HOURLY_VARIABLES = [
+  "temperature_2m",
+  "relative_humidity_2m",
+  "precipitation_probability",
+  "precipitation",
+  "weather_code",
+  "wind_speed_10m",
+  "wind_gusts_10m",
+  "wind_direction_10m",
+  "visibility",
+  "uv_index",
+];
+
+const DAILY_VARIABLES = [
+  "weather_code",
+  "temperature_2m_mean",
+  "relative_humidity_2m_mean",
+  "wind_speed_10m_max",
+  "wind_gusts_10m_max",
+  "wind_direction_10m_dominant",
+  "precipitation_probability_max",
+  "uv_index_max",
+  "sunrise",
+  "sunset",
+];
+
+const AIR_QUALITY_VARIABLES = [
+  "us_aqi",
+  "pm2_5",
+  "pm10",
+  "ozone",
+  "nitrogen_dioxide",
+];
+
+// WMO weather interpretation code mapping (coarse mapping to our domain)
+// Ref: https://open-meteo.com/en/docs#weather_variable_documentation
+function mapOpenMeteoCodeToCondition(code: number): WeatherCondition {
+  if (code === 0) return "clear";
+  if (code === 1) return "mostly_clear";
+  if (code === 2) return "partly_cloudy";
+  if (code === 3) return "overcast";
+  // Fog and depositing rime fog
+  if ([45, 48].includes(code)) return "fog";
+  // Drizzle and slight rain, as WeatherAPI's light rain
+  if ([51, 53, 55, 61].includes(code)) return "drizzle";
+  // Moderate rain and slight/moderate showers
+  if ([63, 80, 81].includes(code)) return "rain";
+  // Heavy rain and violent showers
+  if ([65, 82].includes(code)) return "heavy_rain";
+  // Freezing drizzle / freezing rain
+  if ([56, 57, 66, 67].includes(code)) return "freezing_rain";
+  // Snow fall, snow grains and snow showers
+  if ([71, 73, 75, 77, 85, 86].includes(code)) return "snow";
+  // Thunderstorm, with or without hail
+  if ([95, 96, 99].includes(code)) return "thunderstorm";
+  return "unknown";
+}
+
+const OPEN_METEO_THUNDER_CODES = [95, 96, 99];
+
+/**
+ * Legacy air quality level from the US AQI (the EPA index buckets 0-50,
+ * 51-100 and above).
+ */
+function mapUsAqiToLevel(value: unknown): AirQualityLevel | undefined {
+  const aqi = optionalNumber(value);
+  if (aqi === undefined || aqi < 0) return undefined;
+  if (aqi <= 50) return "low";
+  if (aqi <= 100) return "medium";
+  return "high";
+}
+
+type OpenMeteoSeries = { time?: unknown } & Record<string, unknown>;
+
+type OpenMeteoResponse = {
+  elevation?: unknown;
+  hourly?: OpenMeteoSeries;
+  daily?: OpenMeteoSeries;
+};
+
+function optionalNumber(value: unknown): number | undefined {
+  return typeof value === "number" && !Number.isNaN(value) ? value : undefined;
+}
+
+function seriesValue(
+  series: OpenMeteoSeries | undefined,
+  variable: string,
+  index: number,
+): unknown {
+  const values = series?.[variable];
+  return Array.isArray(values) ? values[index] : undefined;
+}
+
+function seriesTimes(series: OpenMeteoSeries | undefined): string[] {
+  return Array.isArray(series?.time) ? (series.time as string[]) : [];
+}
+
+/**
+ * Open-Meteo local time ("2025-06-01T12:00", requested in Asia/Tokyo) as
+ * ISO 8601 with the JST offset. Undefined for bad input.
+ */
+function toJstDatetime(value: unknown): string | undefined {
+  if (typeof value !== "string") return undefined;
+  return /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/.test(value)
+    ? `${value}:00+09:00`
+    : undefined;
+}
+
+function meanOf(values: (number | undefined)[]): number | undefined {
+  const present = values.filter((value) => value !== undefined);
+  if (present.length === 0) return undefined;
+  return present.reduce((sum, value) => sum + value, 0) / present.length;
+}
+
+// Indexes of the hourly records on a JST calendar date
+function hourIndexesOn(series: OpenMeteoSeries | undefined, date: string) {
+  return seriesTimes(series).flatMap((time, index) =>
+    typeof time === "string" && time.startsWith(date) ? [index] : [],
+  );
+}
+
+/**
+ * Air quality at the given air-quality API hour indexes: pollutant
+ * concentrations (µg/m³) and the legacy level, averaged over the hours.
+ */
+function mapOpenMeteoAirQuality(
+  airQuality: OpenMeteoResponse | undefined,
+  indexes: number[],
+): Pick<Weather, "airQuality" | "airQualityComponents"> {
+  const mean = (variable: string) => {
+    const value = meanOf(
+      indexes.map((index) =>
+        optionalNumber(seriesValue(airQuality?.hourly, variable, index)),
+      ),
+    );
+    return value === undefined ? undefined : Math.round(value * 10) / 10;
+  };
+  const components: AirQualityComponents = {
+    pm25: mean("pm2_5"),
+    pm10: mean("pm10"),
+    o3: mean("ozone"),
+    no2: mean("nitrogen_dioxide"),
+  };
+  const reported = Object.entries(components).filter(
+    ([, value]) => value !== undefined,
+  );
+  return {
+    airQuality: mapUsAqiToLevel(mean("us_aqi")),
+    airQualityComponents:
+      reported.length > 0 ? Object.fromEntries(reported) : undefined,
+  };
+}
+
+/**
+ * Rainfall (mm) over the WET_ROAD_LOOKBACK_HOURS before `before`, summed
+ * from the hourly records of the same response. Undefined when the
+ * response holds no earlier hour with a precipitation amount.
+ */
+function recentHourlyPrecipitation(
+  forecast: OpenMeteoResponse,
+  before: string,
+): number | undefined {
+  const beforeMs = Date.parse(before);
+  const windowStart = beforeMs - APP_CONFIG.WET_ROAD_LOOKBACK_HOURS * 3600_000;
+  let total: number | undefined;
+  seriesTimes(forecast.hourly).forEach((time, index) => {
+    const at = Date.parse(toJstDatetime(time) ?? "");
+    const amount = optionalNumber(
+      seriesValue(forecast.hourly, "precipitation", index),
+    );
+    if (amount !== undefined && at >= windowStart && at < beforeMs) {
+      total = (total ?? 0) + amount;
+    }
+  });
+  return total === undefined ? undefined : Math.round(total * 10) / 10;
+}
+
+/**
+ * Rainfall (mm) in the hour starting at `at`, from the hourly records of the
+ * same response. Undefined when that hour has no precipitation amount.
+ */
+function hourlyPrecipitationAt(
+  forecast: OpenMeteoResponse,
+  at: string,
+): number | undefined {
+  const atMs = Date.parse(at);
+  const index = seriesTimes(forecast.hourly).findIndex((time) => {
+    const start = Date.parse(toJstDatetime(time) ?? "");
+    return start <= atMs && atMs < start + 3600_000;
+  });
+  return index < 0
+    ? undefined
+    : optionalNumber(seriesValue(forecast.hourly, "precipitation", index));
+}
+
+function mapOpenMeteoAstro(
+  forecast: OpenMeteoResponse,
+  date: string,
+): Pick<Weather, "sunrise" | "sunset"> {
+  const index = seriesTimes(forecast.daily).indexOf(date);
+  if (index < 0) return {};
+  return {
+    sunrise: toJstDatetime(seriesValue(forecast.daily, "sunrise", index)),
+    sunset: toJstDatetime(seriesValue(forecast.daily, "sunset", index)),
+  };
+}
+
+function clampPrecipitationProbability(value: unknown): unknown {
+  return typeof value === "number" ? Math.max(0, Math.min(100, value)) : value;
+}
+
+// Open-Meteo visibility in m -> km
+function optionalMetersToKm(value: number | undefined): number | undefined {
+  return value === undefined ? undefined : value / 1000;
+}
+
+function validateOpenMeteoWeather(
+  weather: unknown,
+  location: { lat: number; lon: number },
+  targetDate: string,
+): Weather {
+  const result = WeatherSchema.safeParse(weather);
+  if (result.success) return result.data;
+
+  const field = result.error.issues[0]?.path.join(".") || "weather";
+  throw new HttpError(
+    HTTP_STATUS.BAD_GATEWAY,
+    `Invalid Open-Meteo response: ${field}`,
+    {
+      code: ERROR_CODES.WEATHER_UPSTREAM_INVALID_RESPONSE,
+      details: { field, location, targetDate },
+    },
+  );
+}
+
+function mapOpenMeteoHour(
+  forecast: OpenMeteoResponse,
+  airQuality: OpenMeteoResponse | undefined,
+  index: number,
+  location: { lat: number; lon: number },
+  targetDate: string,
+): Weather {
+  const value = (variable: string) =>
+    seriesValue(forecast.hourly, variable, index);
+  const time = seriesTimes(forecast.hourly)[index];
+  const datetime = toJstDatetime(time);
+  const conditionCode = optionalNumber(value("weather_code"));
+
+  const weather = {
+    datetime,
+    condition:
+      conditionCode === undefined
+        ? "unknown"
+        : mapOpenMeteoCodeToCondition(conditionCode),
+    temperature: value("temperature_2m"),
+    windSpeed: value("wind_speed_10m"),
+    windGust: optionalNumber(value("wind_gusts_10m")),
+    windDirection: optionalNumber(value("wind_direction_10m")),
+    humidity: value("relative_humidity_2m"),
+    visibility: optionalMetersToKm(optionalNumber(value("visibility"))),
+    precipitationProbability: clampPrecipitationProbability(
+      value("precipitation_probability"),
+    ),
+    precipitation: optionalNumber(value("precipitation")),
+    recentPrecipitation: datetime
+      ? recentHourlyPrecipitation(forecast, datetime)
+      : undefined,
+    uvIndex: value("uv_index"),
+    ...mapOpenMeteoAirQuality(
+      airQuality,
+      seriesTimes(airQuality?.hourly).includes(time)
+        ? [seriesTimes(airQuality?.hourly).indexOf(time)]
+        : [],
+    ),
+    thunder:
+      conditionCode !== undefined &&
+      OPEN_METEO_THUNDER_CODES.includes(conditionCode),
+    elevation: optionalNumber(forecast.elevation),
+    ...mapOpenMeteoAstro(forecast, targetDate),
+  };
+
+  return validateOpenMeteoWeather(weather, location, targetDate);
+}
+
+/**
+ * Map a failed Open-Meteo request onto the weather error codes: 4xx to
+ * WEATHER_UPSTREAM_CLIENT_ERROR, timeouts to WEATHER_UPSTREAM_TIMEOUT and
+ * anything else to WEATHER_UPSTREAM_UNAVAILABLE.
+ */
+function toUpstreamHttpError(error: unknown, context: LogContext): unknown {
+  if (error instanceof HttpError) return error;
+
+  if (error instanceof FetchHttpError) {
+    const errorContext = {
+      ...context,
+      operation: "api_request_error",
+      failurePoint: "open_meteo_request",
+      statusCode: error.status,
+      statusText: error.statusText,
+      upstreamMessage: error.data?.reason,
+      upstreamResponse: error.data,
+      errorCode: error.name,
+    };
+    logger.error("Open-Meteo request failed", errorContext, error);
+
+    if (error.status >= 400 && error.status < 500) {
+      return new HttpError(
+        HTTP_STATUS.BAD_GATEWAY,
+        "Failed to retrieve valid weather data from upstream provider",
+        {
+          code: ERROR_CODES.WEATHER_UPSTREAM_CLIENT_ERROR,
+          details: errorContext,
+          cause: error,
+        },
+      );
+    }
+    return new HttpError(
+      HTTP_STATUS.SERVICE_UNAVAILABLE,
+      "Weather provider is unavailable",
+      {
+        code: ERROR_CODES.WEATHER_UPSTREAM_UNAVAILABLE,
+        details: errorContext,
+        cause: error,
+      },
+    );
+  }
+
+  // Network errors (TypeError) and timeouts (AbortError)
+  if (error instanceof Error) {
+    const errorContext = {
+      ...context,
+      operation: "api_request_error",
+      failurePoint: "open_meteo_request",
+      errorCode: error.name,
+    };
+    logger.error("Open-Meteo request failed", errorContext, error);
+
+    if (error.name === "AbortError" || error.name === "TimeoutError") {
+      return new HttpError(
+        HTTP_STATUS.GATEWAY_TIMEOUT,
+        "Weather provider request timed out",
+        {
+          code: ERROR_CODES.WEATHER_UPSTREAM_TIMEOUT,
+          details: errorContext,
+          cause: error,
+        },
+      );
+    }
+    return new HttpError(
+      HTTP_STATUS.SERVICE_UNAVAILABLE,
+      "Weather provider is unavailable",
+      {
+        code: ERROR_CODES.WEATHER_UPSTREAM_UNAVAILABLE,
+        details: errorContext,
+        cause: error,
+      },
+    );
+  }
+
+  return error;
+}
+
+export class OpenMeteoWeatherRepository implements WeatherRepository {
+  private readonly apiKey?: string;
+  private readonly requestTimeoutMs: number;
+  private readonly maxAttempts: number;
+
+  /**
+   * @param apiKey Commercial API key (optional; the free API needs none)
+   */
+  constructor(
+    apiKey?: string,
+    options: {
+      requestTimeoutMs?: number;
+      maxAttempts?: number;
+    } = {},
+  ) {
+    this.apiKey = apiKey;
+    this.requestTimeoutMs =
+      options.requestTimeoutMs ?? APP_CONFIG.WEATHER_API_REQUEST_TIMEOUT_MS;
+    this.maxAttempts =
+      options.maxAttempts ?? APP_CONFIG.WEATHER_API_MAX_ATTEMPTS;
+    logger.info("OpenMeteoWeatherRepository initialized", {
+      operation: "repository_init",
+      plan: apiKey ? "commercial" : "free",
+      requestTimeoutMs: this.requestTimeoutMs,
+      maxAttempts: this.maxAttempts,
+    });
+  }
+
+  async getWeather(
+    lat: number,
+    lon: number,
+    datetime: string,
+  ): Promise<Weather> {
+    const requestedAt = parseRequestedDatetime(datetime);
+    const targetDate = getJstDateString(requestedAt);
+    const { forecast, airQuality } = await this.fetchRange(
+      lat,
+      lon,
+      targetDate,
+      targetDate,
+    );
+    const indexes = this.requireHours(forecast, { lat, lon }, targetDate);
+
+    // Nearest hour, the later one on ties
+    let selected = indexes[0];
+    let selectedDistanceMs = Number.POSITIVE_INFINITY;
+    for (const index of indexes) {
+      const at = Date.parse(
+        toJstDatetime(seriesTimes(forecast.hourly)[index]) ?? "",
+      );
+      const distanceMs = Math.abs(at - requestedAt.getTime());
+      if (distanceMs <= selectedDistanceMs) {
+        selected = index;
+        selectedDistanceMs = distanceMs;
+      }
+    }
+
+    return mapOpenMeteoHour(
+      forecast,
+      airQuality,
+      selected,
+      { lat, lon },
+      targetDate,
+    );
+  }
+
+  /**
+   * Get every hourly record Open-Meteo provides for a JST calendar date,
+   * ordered by time.
+   * @param date Date string in YYYY-MM-DD format
+   */
+  async getHourlyWeather(
+    lat: number,
+    lon: number,
+    date: string,
+  ): Promise<Weather[]> {
+    const targetDate = getJstDateString(parseRequestedDatetime(date));
+    const { forecast, airQuality } = await this.fetchRange(
+      lat,
+      lon,
+      targetDate,
+      targetDate,
+    );
+
+    return this.requireHours(forecast, { lat, lon }, targetDate)
+      .map((index) =>
+        mapOpenMeteoHour(forecast, airQuality, index, { lat, lon }, targetDate),
+      )
+      .sort((a, b) => Date.parse(a.datetime) - Date.parse(b.datetime));
+  }
+
+  async getWeatherBatch(
+    lat: number,
+    lon: number,
+    startDate: string,
+    endDate: string,
+  ): Promise<Weather[]> {
+    const start = new Date(`${startDate}T00:00:00Z`);
+    const end = new Date(`${endDate}T00:00:00Z`);
+
+    // Validate that both dates are valid
+    if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+      throw new Error("Invalid date range for getWeatherBatch");
+    }
+
+    // Validate that start <= end
+    if (start.getTime() > end.getTime()) {
+      throw new Error("Start date must be less than or equal to end date");
+    }
+
+    const today = getJstDateString();
+    const maxForecastDate = addDaysToDateString(
+      today,
+      APP_CONFIG.MAX_FORECAST_DAYS - 1,
+    );
+    if (startDate < today) {
+      throw new Error("Batch weather range must start on or after today");
+    }
+    if (endDate > maxForecastDate) {
+      throw new Error(
+        `Batch weather range exceeds forecast boundary: ${maxForecastDate}`,
+      );
+    }
+
+    const { forecast, airQuality } = await this.fetchRange(
+      lat,
+      lon,
+      startDate,
+      endDate,
+      { daily: true },
+    );
+
+    const targetDates: string[] = [];
+    for (let date = startDate; date <= endDate; ) {
+      targetDates.push(date);
+      date = addDaysToDateString(date, 1);
+    }
+
+    return targetDates.map((date) => {
+      const index = seriesTimes(forecast.daily).indexOf(date);
+      const value = (variable: string) =>
+        seriesValue(forecast.daily, variable, index);
+      if (index < 0) {
+        throw new HttpError(
+          HTTP_STATUS.BAD_GATEWAY,
+          `Open-Meteo response is missing weather data for ${date}`,
+          {
+            code: ERROR_CODES.WEATHER_UPSTREAM_INVALID_RESPONSE,
+            details: { location: { lat, lon }, date },
+          },
+        );
+      }
+
+      const conditionCode = optionalNumber(value("weather_code"));
+      const hours = hourIndexesOn(forecast.hourly, date);
+      const datetime = `${date}T03:00:00Z`;
+      return validateOpenMeteoWeather(
+        {
+          datetime,
+          condition:
+            conditionCode === undefined
+              ? "unknown"
+              : mapOpenMeteoCodeToCondition(conditionCode),
+          temperature: value("temperature_2m_mean"),
+          windSpeed: value("wind_speed_10m_max"),
+          windGust: optionalNumber(value("wind_gusts_10m_max")),
+          windDirection: optionalNumber(value("wind_direction_10m_dominant")),
+          humidity: value("relative_humidity_2m_mean"),
+          // Daily summaries carry no visibility; average the day's hours
+          visibility: optionalMetersToKm(
+            meanOf(
+              hours.map((hour) =>
+                optionalNumber(
+                  seriesValue(forecast.hourly, "visibility", hour),
+                ),
+              ),
+            ),
+          ),
+          precipitationProbability: clampPrecipitationProbability(
+            value("precipitation_probability_max"),
+          ),
+          // Rain in the representative midday hour, and earlier in the day
+          // (overnight and morning) before it, as for WeatherAPI
+          precipitation: hourlyPrecipitationAt(forecast, datetime),
+          recentPrecipitation: recentHourlyPrecipitation(forecast, datetime),
+          uvIndex: value("uv_index_max"),
+          ...mapOpenMeteoAirQuality(
+            airQuality,
+            hourIndexesOn(airQuality?.hourly, date),
+          ),
+          thunder:
+            conditionCode !== undefined &&
+            OPEN_METEO_THUNDER_CODES.includes(conditionCode),
+          elevation: optionalNumber(forecast.elevation),
+          ...mapOpenMeteoAstro(forecast, date),
+        },
+        { lat, lon },
+        date,
+      );
+    });
+  }
+
+  // Hour indexes for `targetDate`, or 404 when the response has none
+  private requireHours(
+    forecast: OpenMeteoResponse,
+    location: { lat: number; lon: number },
+    targetDate: string,
+  ): number[] {
+    const indexes = hourIndexesOn(forecast.hourly, targetDate);
+    if (indexes.length === 0) {
+      throw new HttpError(
+        HTTP_STATUS.NOT_FOUND,
+        "Weather data is unavailable for the specified coordinates/date",
+        {
+          code: ERROR_CODES.WEATHER_DATA_NOT_FOUND,
+          details: { location, targetDate, missing: "hourly.time" },
+        },
+      );
+    }
+    return indexes;
+  }
+
+  /**
+   * Fetch the forecast (today onwards) or archived forecast (past dates)
+   * for a JST date range, with air quality for the same range. Air quality
+   * is optional in the domain, so when its request fails the weather is
+   * returned without it.
+   */
+  private async fetchRange(
+    lat: number,
+    lon: number,
+    startDate: string,
+    endDate: string,
+    options: { daily?: boolean } = {},
+  ): Promise<{ forecast: OpenMeteoResponse; airQuality?: OpenMeteoResponse }> {
+    const today = getJstDateString();
+    const maxForecastDate = addDaysToDateString(
+      today,
+      APP_CONFIG.MAX_FORECAST_DAYS - 1,
+    );
+    if (endDate > maxForecastDate) {
+      throw new Error(
+        `Date ${endDate} is beyond Open-Meteo forecast range (max ${APP_CONFIG.MAX_FORECAST_DAYS - 1} days ahead)`,
+      );
+    }
+
+    const isHistorical = endDate < today;
+    const commonParams: Record<string, string> = {
+      latitude: String(lat),
+      longitude: String(lon),
+      timezone: APP_CONFIG.DEFAULT_TIMEZONE,
+      start_date: startDate,
+      end_date: endDate,
+      ...(this.apiKey && { apikey: this.apiKey }),
+    };
+    const forecastUrl = this.url(
+      isHistorical ? "history" : "forecast",
+      "/v1/forecast",
+    );
+    const forecastParams = {
+      ...commonParams,
+      hourly: HOURLY_VARIABLES.join(","),
+      // Sunrise and sunset come from the daily block either way
+      daily: options.daily ? DAILY_VARIABLES.join(",") : "sunrise,sunset",
+      wind_speed_unit: "ms",
+    };
+    const airQualityUrl = this.url("airQuality", "/v1/air-quality");
+    const airQualityParams = {
+      ...commonParams,
+      hourly: AIR_QUALITY_VARIABLES.join(","),
+    };
+    const context = {
+      location: { lat, lon },
+      startDate,
+      endDate,
+      url: forecastUrl,
+    };
+
+    logger.externalApiCall("Open-Meteo", forecastUrl, {
+      operation: "fetch_open_meteo",
+      params: {
+        latitude: lat,
+        longitude: lon,
+        startDate,
+        endDate,
+        endpoint: isHistorical ? "history" : "forecast",
+      },
+    });
+
+    try {
+      const [forecast, airQuality] = await Promise.all([
+        this.request(forecastUrl, forecastParams),
+        this.request(airQualityUrl, airQualityParams).catch((error) => {
+          logger.warn(
+            "Open-Meteo air quality is unavailable; continuing without it",
+            {
+              ...context,
+              operation: "fetch_open_meteo_air_quality",
+              url: airQualityUrl,
+              errorCode: error instanceof Error ? error.name : undefined,
+            },
+          );
+          return undefined;
+        }),
+      ]);
+      return { forecast, airQuality };
+    } catch (error) {
+      throw toUpstreamHttpError(error, context);
+    }
+  }
+
+  private url(host: keyof typeof OPEN_METEO_HOSTS, path: string): string {
+    const prefix = this.apiKey ? "customer-" : "";
+    return `https://${prefix}${OPEN_METEO_HOSTS[host]}${path}`;
+  }
+
+  private async request(
+    url: string,
+    params: Record<string, string>,
+  ): Promise<OpenMeteoResponse> {
+    const { data } = await requestUpstreamJson("Open-Meteo", url, params, {
+      requestTimeoutMs: this.requestTimeoutMs,
+      maxAttempts: this.maxAttempts,
+    });
+    return data ?? {};
+  }
+}
@@ -1,5 +1,6 @@
 import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
 import { APP_CONFIG } from "../constants/appConfig";
+import type { WeatherCondition } from "../domain/Weather";
 import { addDaysToDateString, getJstDateString } from "../utils/dateUtils";
 import { WeatherApiWeatherRepository } from "./WeatherApiWeatherRepository";
 
@@ -117,6 +118,27 @@ describe("WeatherApiWeatherRepository condition mapping", () => {
     expect(weather.condition).toBe("rain");
   });
 
+  test.each([
+    [1195, "heavy_rain"],
+    [1246, "heavy_rain"],
+    [1087, "thunderstorm"],
+    [1273, "thunderstorm"],
+    [1276, "thunderstorm"],
+    [1069, "sleet"],
+    [1207, "sleet"],
+    [1168, "freezing_rain"],
+    [1201, "freezing_rain"],
+    [1225, "snow"],
+  ] as [number, WeatherCondition][])(
+    "code %d maps to %s",
+    async (code, condition) => {
+      mockFetch(buildForecastResponse(code, TARGET_DATE));
+      const repo = new WeatherApiWeatherRepository("dummy-key");
+      const weather = await repo.getWeather(35.68, 139.69, DATETIME);
+      expect(weather.condition).toBe(condition);
+    },
+  );
+
   test("code 1183 (Light rain) maps to drizzle", async () => {
     mockFetch(buildForecastResponse(1183, TARGET_DATE));
     const repo = new WeatherApiWeatherRepository("dummy-key");
@@ -150,6 +172,28 @@ describe("WeatherApiWeatherRepository condition mapping", () => {
     expect(weather.airQuality).toBe("high");
   });
 
+  test("carries pollutant concentrations and drops unmeasured ones", async () => {
+    const body = buildForecastResponse(1000, TARGET_DATE, 3);
+    body.forecast.forecastday[0].hour[0].air_quality = {
+      "us-epa-index": 3,
+      pm2_5: 38.2,
+      pm10: 61.4,
+      o3: 95,
+      no2: -1,
+    } as any;
+    mockFetch(body);
+    const repo = new WeatherApiWeatherRepository("dummy-key");
+
+    const weather = await repo.getWeather(35.68, 139.69, DATETIME);
+
+    expect(weather.airQuality).toBe("high");
+    expect(weather.airQualityComponents).toEqual({
+      pm25: 38.2,
+      pm10: 61.4,
+      o3: 95,
+    });
+  });
+
   test("rejects an invalid EPA air quality value from the upstream provider", async () => {
     mockFetch(buildForecastResponse(1000, TARGET_DATE, 0));
     const repo = new WeatherApiWeatherRepository("dummy-key");
@@ -217,6 +261,200 @@ describe("WeatherApiWeatherRepository hourly weather selection", () => {
     expect(weather.airQuality).toBe("medium");
     expect(weather.datetime).toBe(`${targetDate}T11:00:00+09:00`);
   });
+
+  test("maps gust speed and wind direction from the hourly record", async () => {
+    const targetDate = getJstDateString();
+    mockFetch({
+      forecast: {
+        forecastday: [
+          {
+            date: targetDate,
+            hour: [
+              {
+                time_epoch: Date.parse(`${targetDate}T03:00:00Z`) / 1000,
+                temp_c: 20,
+                wind_kph: 18,
+                gust_kph: 36,
+                wind_degree: 225,
+                humidity: 55,
+                vis_km: 12,
+                chance_of_rain: 20,
+                uv: 3,
+                condition: { code: 1000 },
+                air_quality: { "us-epa-index": 1 },
+              },
+            ],
+          },
+        ],
+      },
+    });
+    const repository = new WeatherApiWeatherRepository("dummy-key");
+
+    const weather = await repository.getWeather(
+      35.68,
+      139.69,
+      `${targetDate}T12:00:00+09:00`,
+    );
+
+    expect(weather.windSpeed).toBe(5);
+    expect(weather.windGust).toBe(10);
+    expect(weather.windDirection).toBe(225);
+  });
+
+  test("maps sunrise and sunset from the astro block", async () => {
+    const targetDate = getJstDateString();
+    const response = buildForecastResponse(1000, targetDate);
+    Object.assign(response.forecast.forecastday[0], {
+      astro: { sunrise: "06:47 AM", sunset: "04:01 PM" },
+    });
+    mockFetch(response);
+    const repository = new WeatherApiWeatherRepository("dummy-key");
+
+    const weather = await repository.getWeather(
+      35.68,
+      139.69,
+      `${targetDate}T12:00:00+09:00`,
+    );
+
+    expect(weather.sunrise).toBe(`${targetDate}T06:47:00+09:00`);
+    expect(weather.sunset).toBe(`${targetDate}T16:01:00+09:00`);
+  });
+
+  test("leaves sunrise and sunset unset for polar days", async () => {
+    const targetDate = getJstDateString();
+    const response = buildForecastResponse(1000, targetDate);
+    Object.assign(response.forecast.forecastday[0], {
+      astro: { sunrise: "No sunrise", sunset: "No sunset" },
+    });
+    mockFetch(response);
+    const repository = new WeatherApiWeatherRepository("dummy-key");
+
+    const weather = await repository.getWeather(
+      35.68,
+      139.69,
+      `${targetDate}T12:00:00+09:00`,
+    );
+
+    expect(weather.sunrise).toBeUndefined();
+    expect(weather.sunset).toBeUndefined();
+  });
+
+  test("reports the bundled elevation of a prefecture centroid", async () => {
+    const targetDate = getJstDateString();
+    mockFetch(buildForecastResponse(1000, targetDate));
+    const repository = new WeatherApiWeatherRepository("dummy-key");
+
+    const nagano = await repository.getWeather(
+      36.6513,
+      138.1812,
+      `${targetDate}T12:00:00+09:00`,
+    );
+    const offCentroid = await repository.getWeather(
+      36.7,
+      138.5,
+      `${targetDate}T12:00:00+09:00`,
+    );
+
+    expect(nagano.elevation).toBe(370);
+    expect(offCentroid.elevation).toBeUndefined();
+  });
+});
+
+describe("WeatherApiWeatherRepository getHourlyWeather", () => {
+  let originalFetch: typeof globalThis.fetch;
+
+  beforeEach(() => {
+    originalFetch = globalThis.fetch;
+  });
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("maps every hourly record of the day in chronological order", async () => {
+    const targetDate = getJstDateString();
+    const buildHour = (utcHour: string, temp: number) => ({
+      time_epoch: Date.parse(`${targetDate}T${utcHour}:00:00Z`) / 1000,
+      temp_c: temp,
+      wind_kph: 18,
+      humidity: 55,
+      vis_km: 12,
+      chance_of_rain: 20,
+      uv: 3,
+      condition: { code: 1000 },
+      air_quality: { "us-epa-index": 1 },
+    });
+    mockFetch({
+      forecast: {
+        forecastday: [
+          {
+            date: targetDate,
+            hour: [buildHour("02", 22), buildHour("01", 21)],
+          },
+        ],
+      },
+    });
+    const repository = new WeatherApiWeatherRepository("dummy-key");
+
+    const hours = await repository.getHourlyWeather(35.68, 139.69, targetDate);
+
+    expect(hours.map((hour) => hour.datetime)).toEqual([
+      `${targetDate}T10:00:00+09:00`,
+      `${targetDate}T11:00:00+09:00`,
+    ]);
+    expect(hours.map((hour) => hour.temperature)).toEqual([21, 22]);
+  });
+
+  test("sums rainfall from the preceding hours for road wetness", async () => {
+    const targetDate = getJstDateString();
+    const buildHour = (utcHour: string, precip: number) => ({
+      time_epoch: Date.parse(`${targetDate}T${utcHour}:00:00Z`) / 1000,
+      temp_c: 20,
+      wind_kph: 10,
+      humidity: 55,
+      vis_km: 12,
+      chance_of_rain: 20,
+      precip_mm: precip,
+      uv: 3,
+      condition: { code: 1000 },
+      air_quality: { "us-epa-index": 1 },
+    });
+    mockFetch({
+      forecast: {
+        forecastday: [
+          {
+            date: targetDate,
+            hour: [
+              buildHour("00", 1.5),
+              buildHour("01", 2),
+              buildHour("02", 0.4),
+            ],
+          },
+        ],
+      },
+    });
+    const repository = new WeatherApiWeatherRepository("dummy-key");
+
+    const hours = await repository.getHourlyWeather(35.68, 139.69, targetDate);
+
+    expect(hours.map((hour) => hour.precipitation)).toEqual([1.5, 2, 0.4]);
+    expect(hours.map((hour) => hour.recentPrecipitation)).toEqual([
+      undefined,
+      1.5,
+      3.5,
+    ]);
+  });
+
+  test("throws 404 when the forecast day has no hourly records", async () => {
+    const targetDate = getJstDateString();
+    mockFetch({
+      forecast: { forecastday: [{ date: targetDate, hour: [] }] },
+    });
+    const repository = new WeatherApiWeatherRepository("dummy-key");
+
+    await expect(
+      repository.getHourlyWeather(35.68, 139.69, targetDate),
+    ).rejects.toMatchObject({ status: 404 });
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -273,6 +511,105 @@ describe("WeatherApiWeatherRepository forecast day-range boundary", () => {
   });
 });
 
+describe("WeatherApiWeatherRepository official warnings", () => {
+  let originalFetch: typeof globalThis.fetch;
+
+  beforeEach(() => {
+    originalFetch = globalThis.fetch;
+  });
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  function alertsBlock(date: string) {
+    return {
+      alert: [
+        {
+          event: "Heavy rain warning",
+          headline: "Heavy rain warning for Hakone",
+          severity: "",
+          areas: "Hakone; Odawara",
+          effective: `${date}T09:00:00+09:00`,
+          expires: `${date}T21:00:00+09:00`,
+        },
+        {
+          event: "Thunderstorm advisory",
+          severity: "",
+          areas: "Hakone",
+          effective: `${date}T15:00:00+09:00`,
+          expires: `${date}T23:00:00+09:00`,
+        },
+        {
+          event: "Gale warning",
+          severity: "Extreme",
+          areas: "Sagami Bay",
+          effective: `${addDaysToDateString(date, 1)}T06:00:00+09:00`,
+          expires: `${addDaysToDateString(date, 1)}T18:00:00+09:00`,
+        },
+        // No validity period; skipped
+        { event: "Dense fog advisory", areas: "Hakone" },
+      ],
+    };
+  }
+
+  test("requests alerts and keeps the warnings in effect at the selected hour", async () => {
+    const targetDate = getJstDateString();
+    const calls = mockFetchCapturingUrl({
+      ...buildForecastResponse(1000, targetDate),
+      alerts: alertsBlock(targetDate),
+    });
+    const repository = new WeatherApiWeatherRepository("dummy-key");
+
+    // The only hourly record is 12:00 JST
+    const weather = await repository.getWeather(
+      35.68,
+      139.69,
+      `${targetDate}T12:00:00+09:00`,
+    );
+
+    expect(new URL(calls[0]).searchParams.get("alerts")).toBe("yes");
+    expect(weather.alerts).toEqual([
+      {
+        event: "Heavy rain warning",
+        headline: "Heavy rain warning for Hakone",
+        severity: "severe",
+        areas: ["Hakone", "Odawara"],
+        effective: `${targetDate}T09:00:00+09:00`,
+        expires: `${targetDate}T21:00:00+09:00`,
+      },
+    ]);
+  });
+
+  test("keeps the warnings in effect during each JST day of a batch", async () => {
+    const startDate = getJstDateString();
+    const targetDates = [startDate, addDaysToDateString(startDate, 1)];
+    mockFetch({
+      ...buildForecastRangeResponse(targetDates),
+      alerts: alertsBlock(startDate),
+    });
+    const repository = new WeatherApiWeatherRepository("dummy-key");
+
+    const result = await repository.getWeatherBatch(
+      35.68,
+      139.69,
+      targetDates[0],
+      targetDates[1],
+    );
+
+    expect(
+      result.map((weather) =>
+        weather.alerts?.map((alert) => [alert.event, alert.severity]),
+      ),
+    ).toEqual([
+      [
+        ["Heavy rain warning", "severe"],
+        ["Thunderstorm advisory", "moderate"],
+      ],
+      [["Gale warning", "extreme"]],
+    ]);
+  });
+});
+
 describe("WeatherApiWeatherRepository bounded acquisition", () => {
   let originalFetch: typeof globalThis.fetch;
 
@@ -311,6 +648,84 @@ describe("WeatherApiWeatherRepository bounded acquisition", () => {
     );
   });
 
+  test("takes the strongest hourly gust for a forecast day", async () => {
+    const startDate = getJstDateString();
+    const response = buildForecastRangeResponse([startDate]);
+    Object.assign(response.forecast.forecastday[0], {
+      hour: [
+        { gust_kph: 18, wind_degree: 90 },
+        { gust_kph: 54, wind_degree: 270 },
+        { gust_kph: 36, wind_degree: 180 },
+      ],
+    });
+    mockFetch(response);
+    const repository = new WeatherApiWeatherRepository("dummy-key");
+
+    const [weather] = await repository.getWeatherBatch(
+      35.68,
+      139.69,
+      startDate,
+      startDate,
+    );
+
+    expect(weather.windGust).toBe(15);
+    expect(weather.windDirection).toBe(270);
+  });
+
+  test("maps the rain in the midday hour and before it", async () => {
+    const startDate = getJstDateString();
+    const response = buildForecastRangeResponse([startDate]);
+    Object.assign(response.forecast.forecastday[0].day, {
+      totalprecip_mm: 8.2,
+    });
+    Object.assign(response.forecast.forecastday[0], {
+      hour: [
+        // 06:00 and 11:00 JST count; 12:00 JST is the representative hour
+        {
+          time_epoch: Date.parse(`${startDate}T06:00:00+09:00`) / 1000,
+          precip_mm: 3,
+        },
+        {
+          time_epoch: Date.parse(`${startDate}T11:00:00+09:00`) / 1000,
+          precip_mm: 1.2,
+        },
+        {
+          time_epoch: Date.parse(`${startDate}T12:00:00+09:00`) / 1000,
+          precip_mm: 4,
+        },
+      ],
+    });
+    mockFetch(response);
+    const repository = new WeatherApiWeatherRepository("dummy-key");
+
+    const [weather] = await repository.getWeatherBatch(
+      35.68,
+      139.69,
+      startDate,
+      startDate,
+    );
+
+    // The daily total is not used: it already holds the morning rain
+    expect(weather.precipitation).toBe(4);
+    expect(weather.recentPrecipitation).toBe(4.2);
+  });
+
+  test("reports an unreadable batch response as an unavailable provider", async () => {
+    const today = getJstDateString();
+    const repository = new WeatherApiWeatherRepository("dummy-key", {
+      transport: async () => {
+        throw new SyntaxError("Unexpected token '<'");
+      },
+    });
+
+    await expect(
+      repository.getWeatherBatch(35.68, 139.69, today, today),
+    ).rejects.toMatchObject({
+      status: 503,
+      code: "WEATHER_UPSTREAM_UNAVAILABLE",
+    });
+  });
+
   test("rejects a batch range that starts before today", async () => {
     const today = getJstDateString();
     const repository = new WeatherApiWeatherRepository("dummy-key");
@@ -2,14 +2,34 @@ import { APP_CONFIG } from "../constants/appConfig";
 import { ERROR_CODES } from "../constants/errorCodes";
 import { HTTP_STATUS } from "../constants/httpStatus";
 import { HttpError } from "../domain/HttpError";
+import { prefectureCentroidElevation } from "../domain/PrefectureElevation";
 import {
+  type AirQualityComponents,
   type AirQualityLevel,
   type Weather,
   type WeatherCondition,
   WeatherSchema,
 } from "../domain/Weather";
-import { addDaysToDateString, getJstDateString } from "../utils/dateUtils";
+import {
+  alertsActiveAt,
+  alertsActiveBetween,
+  type WeatherAlert,
+  WeatherAlertSchema,
+  type WeatherAlertSeverity,
+  WeatherAlertSeveritySchema,
+} from "../domain/WeatherAlert";
+import {
+  addDaysToDateString,
+  formatJstDatetime,
+  getJstDateString,
+} from "../utils/dateUtils";
 import { logger } from "../utils/logger";
+import {
+  FetchHttpError,
+  parseRequestedDatetime,
+  requestUpstreamJson,
+  type UpstreamRequestPolicy,
+} from "./upstreamRequest";
 import type { WeatherRepository } from "./WeatherRepository";
 
 // WeatherAPI.com condition code mapping (coarse mapping to our domain)
@@ -26,22 +46,32 @@ function mapWeatherApiCodeToCondition(code: number): WeatherCondition {
   if ([1030, 1135, 1147].includes(code)) return "fog";
   // Drizzle / light rain-ish
   // 1063 = "Patchy rain possible": rain may occur but is not guaranteed; treat as drizzle
-  if ([1063, 1150, 1153, 1168, 1171, 1180, 1183].includes(code))
-    return "drizzle";
-  // Rain (moderate to heavy: showers, thunder with rain)
-  if ([1186, 1189, 1192, 1195, 1240, 1243, 1246, 1273, 1276].includes(code))
-    return "rain";
-  // Snow / sleet / ice pellets (including sleet showers)
+  if ([1063, 1150, 1153, 1180, 1183].includes(code)) return "drizzle";
+  // Rain (moderate, including light and moderate showers)
+  if ([1186, 1189, 1240, 1243].includes(code)) return "rain";
+  // Heavy rain (heavy at times, torrential showers)
+  if ([1192, 1195, 1246].includes(code)) return "heavy_rain";
+  // Thundery outbreaks and rain with thunder
+  if ([1087, 1273, 1276].includes(code)) return "thunderstorm";
+  // Freezing drizzle / freezing rain
+  if ([1072, 1168, 1171, 1198, 1201].includes(code)) return "freezing_rain";
+  // Sleet / ice pellets (including sleet showers)
+  if ([1069, 1204, 1207, 1237, 1249, 1252, 1261, 1264].includes(code))
+    return "sleet";
+  // Snow (including snow with thunder)
   if (
     [
-      1066, 1069, 1072, 1114, 1117, 1210, 1213, 1216, 1219, 1222, 1225, 1237,
-      1249, 1252, 1255, 1258, 1261, 1264, 1279, 1282,
+      1066, 1114, 1117, 1210, 1213, 1216, 1219, 1222, 1225, 1255, 1258, 1279,
+      1282,
     ].includes(code)
   )
     return "snow";
   return "unknown";
 }
 
+// Thundery outbreaks and thunder with rain/snow
+const WEATHER_API_THUNDER_CODES = [1087, 1273, 1276, 1279, 1282];
+
 /**
  * Parses precipitation probability from WeatherAPI response and clamps to 0-100 range
  * Handles both string and number types as WeatherAPI sometimes returns strings
@@ -116,12 +146,116 @@ function mapWeatherApiAirQuality(value: unknown): AirQualityLevel | undefined {
   return "high";
 }
 
+type WeatherApiAirQuality = {
+  "us-epa-index"?: unknown;
+  pm2_5?: unknown;
+  pm10?: unknown;
+  o3?: unknown;
+  no2?: unknown;
+};
+
+/**
+ * Pollutant concentrations (µg/m³) from WeatherAPI's air quality block.
+ * Negative values mark pollutants the station did not measure.
+ */
+function mapWeatherApiAirQualityComponents(
+  airQuality: WeatherApiAirQuality | undefined,
+): AirQualityComponents | undefined {
+  const concentration = (value: unknown) => {
+    const parsed = optionalNumber(value);
+    return parsed !== undefined && parsed >= 0 ? parsed : undefined;
+  };
+  const components: AirQualityComponents = {
+    pm25: concentration(airQuality?.pm2_5),
+    pm10: concentration(airQuality?.pm10),
+    o3: concentration(airQuality?.o3),
+    no2: concentration(airQuality?.no2),
+  };
+  const reported = Object.entries(components).filter(
+    ([, value]) => value !== undefined,
+  );
+  return reported.length > 0 ? Object.fromEntries(reported) : undefined;
+}
+
+/**
+ * Official warnings from WeatherAPI's alerts block. A CAP severity is only
+ * reported by some providers (JMA warnings usually leave it blank), so it
+ * is otherwise inferred from the event name. Malformed entries are skipped
+ * rather than failing the request.
+ */
+function mapWeatherApiAlerts(data: any): WeatherAlert[] {
+  const entries = data?.alerts?.alert;
+  if (!Array.isArray(entries)) return [];
+
+  return entries.flatMap((entry: any) => {
+    const event = typeof entry?.event === "string" ? entry.event.trim() : "";
+    const result = WeatherAlertSchema.safeParse({
+      event,
+      headline:
+        typeof entry?.headline === "string" && entry.headline
+          ? entry.headline
+          : undefined,
+      severity: mapWeatherApiAlertSeverity(entry?.severity, event),
+      areas:
+        typeof entry?.areas === "string"
+          ? entry.areas
+              .split(";")
+              .map((area: string) => area.trim())
+              .filter(Boolean)
+          : [],
+      effective: entry?.effective,
+      expires: entry?.expires,
+    });
+    if (result.success) return [result.data];
+
+    logger.warn("Skipping malformed WeatherAPI alert", {
+      operation: "api_response_validation",
+      failurePoint: "alert",
+      field: result.error.issues[0]?.path.join("."),
+      event,
+    });
+    return [];
+  });
+}
+
+function mapWeatherApiAlertSeverity(
+  severity: unknown,
+  event: string,
+): WeatherAlertSeverity {
+  const parsed = WeatherAlertSeveritySchema.safeParse(
+    typeof severity === "string" ? severity.trim().toLowerCase() : severity,
+  );
+  if (parsed.success) return parsed.data;
+  if (/emergency warning/i.test(event)) return "extreme";
+  if (/warning/i.test(event)) return "severe";
+  if (/advisory/i.test(event)) return "moderate";
+  return "minor";
+}
+
+// Alerts in effect at an hourly record's time; undefined when alerts were
+// not available (history)
+function hourlyAlerts(
+  alerts: WeatherAlert[] | undefined,
+  hour: WeatherApiHourlyRecord,
+): WeatherAlert[] | undefined {
+  if (!alerts) return undefined;
+  return alertsActiveAt(
+    alerts,
+    new Date(Number(hour.time_epoch) * 1000).toISOString(),
+  );
+}
+
 function validateWeatherApiWeather(
   weather: unknown,
   location: { lat: number; lon: number },
   targetDate: string,
 ): Weather {
-  const result = WeatherSchema.safeParse(weather);
+  // WeatherAPI reports no forecast point elevation; the bundled one of a
+  // prefecture centroid lets the route elevation correction run there
+  const elevation = prefectureCentroidElevation(location.lat, location.lon);
+  const result = WeatherSchema.safeParse(
+    elevation === undefined ? weather : { elevation, ...(weather as object) },
+  );
   if (result.success) return result.data;
 
   const field = result.error.issues[0]?.path.join(".") || "weather";
@@ -139,47 +273,126 @@ type WeatherApiHourlyRecord = {
   time_epoch?: unknown;
   temp_c?: unknown;
   wind_kph?: unknown;
+  gust_kph?: unknown;
+  wind_degree?: unknown;
   humidity?: unknown;
   vis_km?: unknown;
   chance_of_rain?: unknown;
+  precip_mm?: unknown;
   uv?: unknown;
   condition?: { code?: unknown };
-  air_quality?: { "us-epa-index"?: unknown };
+  air_quality?: WeatherApiAirQuality;
 };
 
-function parseRequestedDatetime(datetime: string): Date {
-  const normalized = /^\d{4}-\d{2}-\d{2}$/.test(datetime)
-    ? `${datetime}T00:00:00+09:00`
-    : /(?:Z|[+-]\d{2}:\d{2})$/i.test(datetime)
-      ? datetime
-      : `${datetime}+09:00`;
-  const date = new Date(normalized);
+// WeatherAPI kph -> m/s; optional fields that are absent or malformed are dropped
+function optionalKphToMs(value: unknown): number | undefined {
+  return typeof value === "number" && !Number.isNaN(value)
+    ? value / 3.6
+    : undefined;
+}
 
-  if (Number.isNaN(date.getTime())) {
-    throw new HttpError(
-      HTTP_STATUS.BAD_REQUEST,
-      "datetime must be a valid ISO 8601 datetime",
-    );
+function optionalNumber(value: unknown): number | undefined {
+  return typeof value === "number" && !Number.isNaN(value) ? value : undefined;
+}
+
+/**
+ * The strongest gust of the day and the direction it blows from. Daily
+ * summaries carry no gust data, so it is taken from the hourly records.
+ */
+function strongestHourlyGust(hours: unknown): {
+  windGust?: number;
+  windDirection?: number;
+} {
+  if (!Array.isArray(hours)) return {};
+
+  let strongest: { gustKph: number; hour: WeatherApiHourlyRecord } | undefined;
+  for (const hour of hours as WeatherApiHourlyRecord[]) {
+    const gustKph = optionalNumber(hour?.gust_kph);
+    if (gustKph !== undefined && (!strongest || gustKph > strongest.gustKph)) {
+      strongest = { gustKph, hour };
+    }
   }
+  if (!strongest) return {};
+
+  return {
+    windGust: strongest.gustKph / 3.6,
+    windDirection: optionalNumber(strongest.hour.wind_degree),
+  };
+}
 
-  return date;
+/**
+ * Parse a WeatherAPI astro time ("06:45 AM") on `date` into ISO 8601.
+ * Astro times are local to the location; the service covers Japan, so they
+ * are read as JST. Undefined for "No sunrise"/"No sunset" and bad input.
+ */
+function parseWeatherApiAstroTime(
+  date: unknown,
+  value: unknown,
+): string | undefined {
+  if (typeof date !== "string" || typeof value !== "string") return undefined;
+
+  const match = /^(\d{1,2}):(\d{2})\s*(AM|PM)$/i.exec(value.trim());
+  if (!match) return undefined;
+
+  const hour =
+    (Number(match[1]) % 12) + (match[3].toUpperCase() === "PM" ? 12 : 0);
+  return `${date}T${String(hour).padStart(2, "0")}:${match[2]}:00+09:00`;
+}
+
+function mapWeatherApiAstro(
+  forecastDay: any,
+): Pick<Weather, "sunrise" | "sunset"> {
+  return {
+    sunrise: parseWeatherApiAstroTime(
+      forecastDay?.date,
+      forecastDay?.astro?.sunrise,
+    ),
+    sunset: parseWeatherApiAstroTime(
+      forecastDay?.date,
+      forecastDay?.astro?.sunset,
+    ),
+  };
+}
+
+/**
+ * Rainfall (mm) over the WET_ROAD_LOOKBACK_HOURS before `beforeEpoch`,
+ * summed from the hourly records of the same response. Undefined when the
+ * response holds no earlier hour with a precipitation amount.
+ */
+function recentHourlyPrecipitation(
+  hours: unknown,
+  beforeEpoch: number,
+): number | undefined {
+  if (!Array.isArray(hours)) return undefined;
+
+  const windowStart = beforeEpoch - APP_CONFIG.WET_ROAD_LOOKBACK_HOURS * 3600;
+  let total: number | undefined;
+  for (const hour of hours as WeatherApiHourlyRecord[]) {
+    const epoch = Number(hour?.time_epoch);
+    const amount = optionalNumber(hour?.precip_mm);
+    if (amount !== undefined && epoch >= windowStart && epoch < beforeEpoch) {
+      total = (total ?? 0) + amount;
+    }
+  }
+  return total === undefined ? undefined : Math.round(total * 10) / 10;
 }
 
-function formatJstDatetime(date: Date): string {
-  const parts = new Intl.DateTimeFormat("en-CA", {
-    timeZone: APP_CONFIG.DEFAULT_TIMEZONE,
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-    hour: "2-digit",
-    minute: "2-digit",
-    second: "2-digit",
-    hourCycle: "h23",
-  }).formatToParts(date);
-  const value = (type: string) =>
-    parts.find((part) => part.type === type)?.value;
-
-  return `${value("year")}-${value("month")}-${value("day")}T${value("hour")}:${value("minute")}:${value("second")}+09:00`;
+/**
+ * Rainfall (mm) in the hour starting at `atEpoch` (seconds), from the hourly
+ * records of the same response. Undefined when that hour has no
+ * precipitation amount.
+ */
+function hourlyPrecipitationAt(
+  hours: unknown,
+  atEpoch: number,
+): number | undefined {
+  if (!Array.isArray(hours)) return undefined;
+
+  const hour = (hours as WeatherApiHourlyRecord[]).find((record) => {
+    const epoch = Number(record?.time_epoch);
+    return epoch <= atEpoch && atEpoch < epoch + 3600;
+  });
+  return optionalNumber(hour?.precip_mm);
 }
 
 function selectNearestHourlyRecord(
@@ -240,37 +453,78 @@ function selectNearestHourlyRecord(
   return selected;
 }
 
+function mapWeatherApiHourlyRecord(
+  hour: WeatherApiHourlyRecord,
+  location: { lat: number; lon: number },
+  targetDate: string,
+  derived: Pick<
+    Weather,
+    "recentPrecipitation" | "sunrise" | "sunset" | "alerts"
+  > = {},
+): Weather {
+  const precipitationProbability = parseAndClampPrecipitationProbability(
+    hour.chance_of_rain,
+    "chance_of_rain",
+  );
+
+  const conditionCode = hour.condition?.code;
+  const condition: WeatherCondition = conditionCode
+    ? mapWeatherApiCodeToCondition(Number(conditionCode))
+    : "unknown";
+
+  const weather = {
+    datetime: formatJstDatetime(new Date(Number(hour.time_epoch) * 1000)),
+    condition,
+    temperature: hour.temp_c,
+    // WeatherAPI kph -> m/s
+    windSpeed:
+      typeof hour.wind_kph === "number" ? hour.wind_kph / 3.6 : hour.wind_kph,
+    windGust: optionalKphToMs(hour.gust_kph),
+    windDirection: optionalNumber(hour.wind_degree),
+    humidity: hour.humidity,
+    visibility: hour.vis_km,
+    precipitationProbability: precipitationProbability,
+    precipitation: optionalNumber(hour.precip_mm),
+    uvIndex: hour.uv,
+    airQuality: mapWeatherApiAirQuality(hour.air_quality?.["us-epa-index"]),
+    airQualityComponents: mapWeatherApiAirQualityComponents(hour.air_quality),
+    thunder: WEATHER_API_THUNDER_CODES.includes(Number(conditionCode)),
+    ...derived,
+  };
+
+  return validateWeatherApiWeather(weather, location, targetDate);
+}
+
 /**
- * Represents an HTTP error from a fetch response (non-2xx status).
- * Used internally to carry status/body through retry and error-handling logic.
+ * Sends a WeatherAPI request and returns the raw JSON response. The default
+ * goes to WeatherAPI; recording and replay substitute their own.
+ * @throws FetchHttpError for a non-2xx response, or the fetch error
  */
-class FetchHttpError extends Error {
-  readonly status: number;
-  readonly statusText: string;
-  readonly data: any;
-
-  constructor(status: number, statusText: string, data: any) {
-    super(`HTTP ${status}: ${statusText}`);
-    this.name = "FetchHttpError";
-    this.status = status;
-    this.statusText = statusText;
-    this.data = data;
-  }
-}
+export type WeatherApiTransport = (
+  url: string,
+  params: Record<string, string>,
+  policy: UpstreamRequestPolicy,
+) => Promise<{ status: number; data: any }>;
+
+const requestWeatherApiUpstream: WeatherApiTransport = (url, params, policy) =>
+  requestUpstreamJson("WeatherAPI", url, params, policy);
 
 export class WeatherApiWeatherRepository implements WeatherRepository {
   private readonly apiKey?: string;
   private readonly requestTimeoutMs: number;
   private readonly maxAttempts: number;
+  private readonly transport: WeatherApiTransport;
 
   constructor(
     apiKey?: string,
     options: {
       requestTimeoutMs?: number;
       maxAttempts?: number;
+      transport?: WeatherApiTransport;
     } = {},
   ) {
     this.apiKey = apiKey;
+    this.transport = options.transport ?? requestWeatherApiUpstream;
     this.requestTimeoutMs =
       options.requestTimeoutMs ?? APP_CONFIG.WEATHER_API_REQUEST_TIMEOUT_MS;
     this.maxAttempts =
@@ -305,67 +559,49 @@ export class WeatherApiWeatherRepository implements WeatherRepository {
     return this.fetchFromApi(lat, lon, datetime);
   }
 
+  /**
+   * Get every hourly record WeatherAPI provides for a JST calendar date,
+   * ordered by time.
+   * @param date Date string in YYYY-MM-DD format
+   */
+  async getHourlyWeather(
+    lat: number,
+    lon: number,
+    date: string,
+  ): Promise<Weather[]> {
+    const requestedAt = parseRequestedDatetime(date);
+    const { forecastDay, targetDate, alerts } = await this.fetchForecastDay(
+      lat,
+      lon,
+      requestedAt,
+    );
+    const context = { location: { lat, lon }, targetDate };
+
+    // Reuse nearest-hour validation for the empty/malformed array checks
+    selectNearestHourlyRecord(forecastDay.hour, requestedAt, context);
+
+    return (forecastDay.hour as WeatherApiHourlyRecord[])
+      .map((hour) =>
+        mapWeatherApiHourlyRecord(hour, { lat, lon }, targetDate, {
+          recentPrecipitation: recentHourlyPrecipitation(
+            forecastDay.hour,
+            Number(hour.time_epoch),
+          ),
+          ...mapWeatherApiAstro(forecastDay),
+          alerts: hourlyAlerts(alerts, hour),
+        }),
+      )
+      .sort((a, b) => Date.parse(a.datetime) - Date.parse(b.datetime));
+  }
+
   private async requestWeatherApi(
     url: string,
     params: Record<string, string>,
   ): Promise<{ status: number; data: any }> {
-    const shouldRetry = (error: unknown) => {
-      if (error instanceof FetchHttpError) {
-        return error.status < 400 || error.status >= 500;
-      }
-      return true;
-    };
-
-    const fullUrl = `${url}?${new URLSearchParams(params).toString()}`;
-    for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
-      const startedAt = Date.now();
-      try {
-        const response = await fetch(fullUrl, {
-          signal: AbortSignal.timeout(this.requestTimeoutMs),
-        });
-        const data = await response.json();
-
-        if (!response.ok) {
-          throw new FetchHttpError(response.status, response.statusText, data);
-        }
-
-        logger.externalApiResponse(
-          "WeatherAPI",
-          url,
-          response.status,
-          Date.now() - startedAt,
-          { responseSize: JSON.stringify(data).length, attempt },
-        );
-        return { status: response.status, data };
-      } catch (error) {
-        const status =
-          error instanceof FetchHttpError ? error.status : undefined;
-        const statusText =
-          error instanceof FetchHttpError ? error.statusText : undefined;
-        const willRetry = shouldRetry(error) && attempt < this.maxAttempts;
-        logger.warn(
-          "WeatherAPI request error",
-          {
-            operation: "api_request_error",
-            attempt,
-            willRetry,
-            statusCode: status,
-            statusText,
-            errorCode: error instanceof Error ? error.name : undefined,
-            url,
-          },
-          error instanceof Error ? error : undefined,
-        );
-        if (!willRetry) throw error;
-
-        const backoff = Math.min(3000, 300 * 2 ** (attempt - 1));
-        await new Promise((resolve) =>
-          setTimeout(resolve, Math.floor(Math.random() * backoff)),
-        );
-      }
-    }
-
-    throw new Error("WeatherAPI attempt budget exhausted");
+    return this.transport(url, params, {
+      requestTimeoutMs: this.requestTimeoutMs,
+      maxAttempts: this.maxAttempts,
+    });
   }
 
   private async fetchFromApi(
@@ -373,9 +609,44 @@ export class WeatherApiWeatherRepository implements WeatherRepository {
     lon: number,
     datetime: string,
   ): Promise<Weather> {
+    const requestedAt = parseRequestedDatetime(datetime);
+    const { forecastDay, targetDate, alerts } = await this.fetchForecastDay(
+      lat,
+      lon,
+      requestedAt,
+    );
+
+    const hour = selectNearestHourlyRecord(forecastDay.hour, requestedAt, {
+      location: { lat, lon },
+      targetDate,
+    });
+    return mapWeatherApiHourlyRecord(hour, { lat, lon }, targetDate, {
+      recentPrecipitation: recentHourlyPrecipitation(
+        forecastDay.hour,
+        Number(hour.time_epoch),
+      ),
+      ...mapWeatherApiAstro(forecastDay),
+      alerts: hourlyAlerts(alerts, hour),
+    });
+  }
+
+  /**
+   * Fetch the WeatherAPI forecast/history day containing `requestedAt`
+   * (forecast.json for today onwards, history.json for past dates), with
+   * the official warnings issued for the location. History carries no
+   * warnings, so `alerts` is undefined for past dates.
+   */
+  private async fetchForecastDay(
+    lat: number,
+    lon: number,
+    requestedAt: Date,
+  ): Promise<{
+    forecastDay: any;
+    targetDate: string;
+    alerts?: WeatherAlert[];
+  }> {
     const key = this.getApiKey();
 
-    const requestedAt = parseRequestedDatetime(datetime);
     const targetDate = getJstDateString(requestedAt);
     const today = getJstDateString();
 
@@ -436,7 +707,7 @@ export class WeatherApiWeatherRepository implements WeatherRepository {
         days: String(days),
         dt: targetDate,
         aqi: "yes",
-        alerts: "no",
+        alerts: "yes",
       };
     } else {
       // Date is too far in the future, fall back to history API
@@ -498,37 +769,11 @@ export class WeatherApiWeatherRepository implements WeatherRepository {
         );
       }
 
-      const hour = selectNearestHourlyRecord(forecastDay.hour, requestedAt, {
-        location: { lat, lon },
+      return {
+        forecastDay,
         targetDate,
-      });
-      const precipitationProbability = parseAndClampPrecipitationProbability(
-        hour.chance_of_rain,
-        "chance_of_rain",
-      );
-
-      const conditionCode = hour.condition?.code;
-      const condition: WeatherCondition = conditionCode
-        ? mapWeatherApiCodeToCondition(Number(conditionCode))
-        : "unknown";
-
-      const weather = {
-        datetime: formatJstDatetime(new Date(Number(hour.time_epoch) * 1000)),
-        condition,
-        temperature: hour.temp_c,
-        // WeatherAPI kph -> m/s
-        windSpeed:
-          typeof hour.wind_kph === "number"
-            ? hour.wind_kph / 3.6
-            : hour.wind_kph,
-        humidity: hour.humidity,
-        visibility: hour.vis_km,
-        precipitationProbability: precipitationProbability,
-        uvIndex: hour.uv,
-        airQuality: mapWeatherApiAirQuality(hour.air_quality?.["us-epa-index"]),
+        alerts: isHistorical ? undefined : mapWeatherApiAlerts(res.data),
       };
-
-      return validateWeatherApiWeather(weather, { lat, lon }, targetDate);
     } catch (error) {
       if (error instanceof HttpError) {
         throw error;
@@ -671,20 +916,21 @@ export class WeatherApiWeatherRepository implements WeatherRepository {
     }
 
     const url = "https://api.weatherapi.com/v1/forecast.json";
-    const params = {
-      key: this.getApiKey(),
-      q: `${lat},${lon}`,
-      days: String(targetDates.length),
-      aqi: "yes",
-      alerts: "no",
-    };
-    logger.externalApiCall("WeatherAPI", url, {
-      operation: "fetch_weather_api_batch",
-      params: { q: params.q, days: params.days, endpoint: "forecast" },
-    });
-
     try {
+      const params = {
+        key: this.getApiKey(),
+        q: `${lat},${lon}`,
+        days: String(targetDates.length),
+        aqi: "yes",
+        alerts: "yes",
+      };
+      logger.externalApiCall("WeatherAPI", url, {
+        operation: "fetch_weather_api_batch",
+        params: { q: params.q, days: params.days, endpoint: "forecast" },
+      });
+
       const response = await this.requestWeatherApi(url, params);
+      const alerts = mapWeatherApiAlerts(response.data);
       const daysByDate = new Map<string, any>(
         (response.data?.forecast?.forecastday ?? []).map((forecastDay: any) => [
           forecastDay.date,
@@ -725,24 +971,48 @@ export class WeatherApiWeatherRepository implements WeatherRepository {
         }
 
         const conditionCode: number | undefined = day.condition?.code;
+        const datetime = `${date}T03:00:00Z`;
         return validateWeatherApiWeather(
           {
-            datetime: `${date}T03:00:00Z`,
+            datetime,
             condition: conditionCode
               ? mapWeatherApiCodeToCondition(conditionCode)
               : "unknown",
             temperature: day.avgtemp_c,
             windSpeed: day.maxwind_kph / 3.6,
+            ...strongestHourlyGust(forecastDay.hour),
             humidity: day.avghumidity,
             visibility: day.avgvis_km,
             precipitationProbability: parseAndClampPrecipitationProbability(
               day.daily_chance_of_rain,
               "daily_chance_of_rain",
             ),
+            // Rain in the representative midday hour, and earlier in the day
+            // (overnight and morning) before it. The daily total would
+            // count the morning rain twice and is held to hourly thresholds.
+            precipitation: hourlyPrecipitationAt(
+              forecastDay.hour,
+              Date.parse(datetime) / 1000,
+            ),
+            recentPrecipitation: recentHourlyPrecipitation(
+              forecastDay.hour,
+              Date.parse(datetime) / 1000,
+            ),
             uvIndex: day.uv,
             airQuality: mapWeatherApiAirQuality(
               forecastDay.air_quality?.["us-epa-index"],
             ),
+            airQualityComponents: mapWeatherApiAirQualityComponents(
+              forecastDay.air_quality,
+            ),
+            thunder: WEATHER_API_THUNDER_CODES.includes(Number(conditionCode)),
+            ...mapWeatherApiAstro(forecastDay),
+            // Warnings in effect at any time during the JST day
+            alerts: alertsActiveBetween(
+              alerts,
+              `${date}T00:00:00+09:00`,
+              `${addDaysToDateString(date, 1)}T00:00:00+09:00`,
+            ),
           },
           { lat, lon },
           date,
@@ -769,7 +1039,25 @@ export class WeatherApiWeatherRepository implements WeatherRepository {
           { code: ERROR_CODES.WEATHER_UPSTREAM_TIMEOUT, cause: error },
         );
       }
-      throw error;
+      // Network errors (TypeError), unreadable responses (SyntaxError) and a
+      // missing API key: the provider cannot serve the batch, so the caller
+      // may fail over
+      logger.error(
+        "WeatherAPI batch request failed",
+        {
+          operation: "api_request_error",
+          failurePoint: "weatherapi_batch_request",
+          location: { lat, lon },
+          dateRange: { startDate, endDate },
+          errorCode: error instanceof Error ? error.name : undefined,
+        },
+        error instanceof Error ? error : undefined,
+      );
+      throw new HttpError(
+        HTTP_STATUS.SERVICE_UNAVAILABLE,
+        "Weather provider is unavailable",
+        { code: ERROR_CODES.WEATHER_UPSTREAM_UNAVAILABLE, cause: error },
+      );
     }
   }
 }
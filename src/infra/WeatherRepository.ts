@@ -3,6 +3,9 @@ import type { Weather } from "../domain/Weather";
 export interface WeatherRepository {
   getWeather(lat: number, lon: number, datetime: string): Promise<Weather>;
 
+  // Every hourly record for a single JST calendar date (YYYY-MM-DD)
+  getHourlyWeather(lat: number, lon: number, date: string): Promise<Weather[]>;
+
   // Batch method to get weather data for multiple days at once
   getWeatherBatch(
     lat: number,
@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
+import { FetchHttpError, requestUpstreamJson } from "./upstreamRequest";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const policy = { requestTimeoutMs: 1000, maxAttempts: 3 };
+
+// Hold every response until `release` is called, so requests overlap
+function mockSlowFetch(responses: Array<() => Response>) {
+  let release = () => {};
+  const released = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  let call = 0;
+  globalThis.fetch = mock(async () => {
+    const respond = responses[Math.min(call++, responses.length - 1)];
+    await released;
+    return respond();
+  }) as any;
+  return () => release();
+}
+
+const ok = (body: object) => () =>
+  new Response(JSON.stringify(body), { status: 200 });
+
+describe("requestUpstreamJson", () => {
+  let originalFetch: typeof globalThis.fetch;
+
+  beforeEach(() => {
+    originalFetch = globalThis.fetch;
+  });
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("serves concurrent identical requests with one fetch", async () => {
+    const release = mockSlowFetch([ok({ temp: 20 })]);
+
+    const requests = [1, 2, 3].map(() =>
+      requestUpstreamJson(
+        "Test",
+        "https://example.test/forecast",
+        { q: "a" },
+        policy,
+      ),
+    );
+    release();
+    const responses = await Promise.all(requests);
+
+    expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+    for (const response of responses) {
+      expect(response).toEqual({ status: 200, data: { temp: 20 } });
+    }
+  });
+
+  test("sends requests with different parameters separately", async () => {
+    const release = mockSlowFetch([ok({ temp: 20 })]);
+
+    const requests = ["a", "b"].map((q) =>
+      requestUpstreamJson(
+        "Test",
+        "https://example.test/forecast",
+        { q },
+        policy,
+      ),
+    );
+    release();
+    await Promise.all(requests);
+
+    expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  test("sends a new request once the previous one has settled", async () => {
+    const release = mockSlowFetch([ok({ temp: 20 })]);
+    release();
+
+    await requestUpstreamJson(
+      "Test",
+      "https://example.test/forecast",
+      { q: "a" },
+      policy,
+    );
+    await requestUpstreamJson(
+      "Test",
+      "https://example.test/forecast",
+      { q: "a" },
+      policy,
+    );
+
+    expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  test("retries once on behalf of every waiter", async () => {
+    const release = mockSlowFetch([
+      () => new Response(JSON.stringify({ error: "busy" }), { status: 503 }),
+      ok({ temp: 20 }),
+    ]);
+
+    const requests = [1, 2].map(() =>
+      requestUpstreamJson(
+        "Test",
+        "https://example.test/forecast",
+        { q: "a" },
+        policy,
+      ),
+    );
+    release();
+    const responses = await Promise.all(requests);
+
+    expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+    expect(responses.map((response) => response.data)).toEqual([
+      { temp: 20 },
+      { temp: 20 },
+    ]);
+  });
+
+  test("rejects every waiter with the shared failure", async () => {
+    const release = mockSlowFetch([
+      () => new Response(JSON.stringify({ error: "bad" }), { status: 400 }),
+    ]);
+
+    const requests = [1, 2].map(() =>
+      requestUpstreamJson(
+        "Test",
+        "https://example.test/forecast",
+        { q: "a" },
+        policy,
+      ),
+    );
+    release();
+    const results = await Promise.allSettled(requests);
+
+    expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+    for (const result of results) {
+      expect(result.status).toBe("rejected");
+      if (result.status === "rejected") {
+        expect(result.reason).toBeInstanceOf(FetchHttpError);
+        expect(result.reason.status).toBe(400);
+      }
+    }
+  });
+});
@@ -0,0 +1,192 @@
+import { metrics } from "@opentelemetry/api";
+import { HTTP_STATUS } from "../constants/httpStatus";
+import { HttpError } from "../domain/HttpError";
+import { logger } from "../utils/logger";
+
+/**
+ * Represents an HTTP error from a fetch response (non-2xx status).
+ * Used internally to carry status/body through retry and error-handling logic.
+ */
+export class FetchHttpError extends Error {
+  readonly status: number;
+  readonly statusText: string;
+  readonly data: any;
+
+  constructor(status: number, statusText: string, data: any) {
+    super(`HTTP ${status}: ${statusText}`);
+    this.name = "FetchHttpError";
+    this.status = status;
+    this.statusText = statusText;
+    this.data = data;
+  }
+}
+
+export type UpstreamRequestPolicy = {
+  requestTimeoutMs: number;
+  maxAttempts: number; // Includes the initial request
+};
+
+type UpstreamResponse = { status: number; data: any };
+
+type InFlightRequest = {
+  response: Promise<UpstreamResponse>;
+  waiters: number; // Callers that joined after the request was sent
+};
+
+// Requests in flight in this isolate, by full URL (API keys included, so
+// only identical requests share a response)
+const inFlightRequests = new Map<string, InFlightRequest>();
+
+const meter = metrics.getMeter("moto-weather-index");
+const coalescedRequests = meter.createCounter(
+  "weather_upstream_requests_coalesced",
+  { description: "Upstream weather requests that served more than one caller" },
+);
+const deduplicatedRequests = meter.createCounter(
+  "weather_upstream_requests_deduplicated",
+  {
+    description:
+      "Callers served by an identical in-flight upstream weather request instead of their own",
+  },
+);
+
+/**
+ * GET a weather provider's JSON endpoint, retrying network errors, timeouts
+ * and 5xx responses with jittered exponential backoff. 4xx responses are
+ * not retried.
+ *
+ * Concurrent identical requests are coalesced: callers asking for a URL that
+ * is already in flight wait for that request, retries included, instead of
+ * sending their own, and share its response or error. Joining callers
+ * therefore run under the first caller's policy.
+ * @param service Provider name used in logs
+ * @throws FetchHttpError for a non-2xx response, or the fetch error
+ */
+export function requestUpstreamJson(
+  service: string,
+  url: string,
+  params: Record<string, string>,
+  policy: UpstreamRequestPolicy,
+): Promise<UpstreamResponse> {
+  const fullUrl = `${url}?${new URLSearchParams(params).toString()}`;
+
+  const inFlight = inFlightRequests.get(fullUrl);
+  if (inFlight) {
+    inFlight.waiters++;
+    deduplicatedRequests.add(1, { service });
+    logger.debug(`${service} request joined an identical in-flight request`, {
+      operation: "api_request_deduplicated",
+      url,
+      waiters: inFlight.waiters,
+    });
+    return inFlight.response;
+  }
+
+  const request: InFlightRequest = {
+    response: requestWithRetries(service, url, fullUrl, policy),
+    waiters: 0,
+  };
+  inFlightRequests.set(fullUrl, request);
+
+  const settle = () => {
+    inFlightRequests.delete(fullUrl);
+    if (request.waiters === 0) return;
+
+    coalescedRequests.add(1, { service });
+    logger.info(`${service} request coalesced`, {
+      operation: "api_request_coalesced",
+      url,
+      callers: request.waiters + 1,
+      deduplicatedRequests: request.waiters,
+    });
+  };
+  request.response.then(settle, settle);
+
+  return request.response;
+}
+
+async function requestWithRetries(
+  service: string,
+  url: string,
+  fullUrl: string,
+  policy: UpstreamRequestPolicy,
+): Promise<UpstreamResponse> {
+  const shouldRetry = (error: unknown) => {
+    if (error instanceof FetchHttpError) {
+      return error.status < 400 || error.status >= 500;
+    }
+    return true;
+  };
+
+  for (let attempt = 1; attempt <= policy.maxAttempts; attempt++) {
+    const startedAt = Date.now();
+    try {
+      const response = await fetch(fullUrl, {
+        signal: AbortSignal.timeout(policy.requestTimeoutMs),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new FetchHttpError(response.status, response.statusText, data);
+      }
+
+      logger.externalApiResponse(
+        service,
+        url,
+        response.status,
+        Date.now() - startedAt,
+        { responseSize: JSON.stringify(data).length, attempt },
+      );
+      return { status: response.status, data };
+    } catch (error) {
+      const status = error instanceof FetchHttpError ? error.status : undefined;
+      const statusText =
+        error instanceof FetchHttpError ? error.statusText : undefined;
+      const willRetry = shouldRetry(error) && attempt < policy.maxAttempts;
+      logger.warn(
+        `${service} request error`,
+        {
+          operation: "api_request_error",
+          attempt,
+          willRetry,
+          statusCode: status,
+          statusText,
+          errorCode: error instanceof Error ? error.name : undefined,
+          url,
+        },
+        error instanceof Error ? error : undefined,
+      );
+      if (!willRetry) throw error;
+
+      const backoff = Math.min(3000, 300 * 2 ** (attempt - 1));
+      await new Promise((resolve) =>
+        setTimeout(resolve, Math.floor(Math.random() * backoff)),
+      );
+    }
+  }
+
+  throw new Error(`${service} attempt budget exhausted`);
+}
+
+/**
+ * Parse a requested datetime. A bare date means midnight JST and a datetime
+ * without an offset is read as JST.
+ * @throws HttpError 400 when the value is not a valid ISO 8601 datetime
+ */
+export function parseRequestedDatetime(datetime: string): Date {
+  const normalized = /^\d{4}-\d{2}-\d{2}$/.test(datetime)
+    ? `${datetime}T00:00:00+09:00`
+    : /(?:Z|[+-]\d{2}:\d{2})$/i.test(datetime)
+      ? datetime
+      : `${datetime}+09:00`;
+  const date = new Date(normalized);
+
+  if (Number.isNaN(date.getTime())) {
+    throw new HttpError(
+      HTTP_STATUS.BAD_REQUEST,
+      "datetime must be a valid ISO 8601 datetime",
+    );
+  }
+
+  return date;
+}
@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
+import { mkdtemp, readdir, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  createRecordingTransport,
+  loadWeatherApiRecordings,
+  shiftWeatherApiDates,
+} from "./weatherApiRecording";
+
+const policy = { requestTimeoutMs: 1000, maxAttempts: 1 };
+
+describe("shiftWeatherApiDates", () => {
+  test("moves dates, datetimes and epoch timestamps", () => {
+    const shifted = shiftWeatherApiDates(
+      {
+        date: "2025-06-01",
+        date_epoch: 1748736000,
+        hour: [{ time: "2025-06-01 12:00", time_epoch: 1748746800 }],
+        effective: "2025-06-01T09:00:00+09:00",
+        astro: { sunrise: "04:25 AM" },
+        condition: { text: "Sunny", code: 1000 },
+      },
+      3,
+    );
+
+    expect(shifted).toEqual({
+      date: "2025-06-04",
+      date_epoch: 1748995200,
+      hour: [{ time: "2025-06-04 12:00", time_epoch: 1749006000 }],
+      effective: "2025-06-04T09:00:00+09:00",
+      astro: { sunrise: "04:25 AM" },
+      condition: { text: "Sunny", code: 1000 },
+    });
+  });
+
+  test("moves dates backwards across a month boundary", () => {
+    expect(shiftWeatherApiDates({ date: "2025-06-01" }, -1)).toEqual({
+      date: "2025-05-31",
+    });
+  });
+});
+
+describe("createRecordingTransport", () => {
+  let originalFetch: typeof globalThis.fetch;
+  let dir: string;
+
+  beforeEach(async () => {
+    originalFetch = globalThis.fetch;
+    dir = await mkdtemp(join(tmpdir(), "weatherapi-recordings-"));
+  });
+  afterEach(async () => {
+    globalThis.fetch = originalFetch;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("records the raw response without the API key", async () => {
+    const payload = { forecast: { forecastday: [{ date: "2025-06-01" }] } };
+    globalThis.fetch = mock(
+      async () => new Response(JSON.stringify(payload), { status: 200 }),
+    ) as any;
+    const transport = createRecordingTransport(dir);
+
+    const result = await transport(
+      "https://api.weatherapi.com/v1/history.json",
+      { key: "secret", q: "35.6762,139.6503", dt: "2025-06-01", aqi: "yes" },
+      policy,
+    );
+
+    expect(result.data).toEqual(payload);
+    expect(await readdir(dir)).toEqual([
+      "history-35.6762_139.6503-2025-06-01.json",
+    ]);
+    const file = await readFile(
+      join(dir, "history-35.6762_139.6503-2025-06-01.json"),
+      "utf8",
+    );
+    expect(file).not.toContain("secret");
+
+    const [recording] = await loadWeatherApiRecordings(dir);
+    expect(recording).toMatchObject({
+      endpoint: "history",
+      params: { q: "35.6762,139.6503", dt: "2025-06-01", aqi: "yes" },
+      response: payload,
+    });
+  });
+
+  test("does not record failed requests", async () => {
+    globalThis.fetch = mock(
+      async () =>
+        new Response(JSON.stringify({ error: { code: 1006 } }), {
+          status: 400,
+        }),
+    ) as any;
+    const transport = createRecordingTransport(dir);
+
+    await expect(
+      transport(
+        "https://api.weatherapi.com/v1/forecast.json",
+        { key: "secret", q: "0,0", days: "1" },
+        policy,
+      ),
+    ).rejects.toThrow("HTTP 400");
+    expect(await readdir(dir)).toEqual([]);
+  });
+});
+
+describe("loadWeatherApiRecordings", () => {
+  test("rejects a directory without recordings", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "weatherapi-recordings-"));
+    try {
+      await expect(loadWeatherApiRecordings(dir)).rejects.toThrow(
+        "No WeatherAPI recordings found",
+      );
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,120 @@
+import { addDaysToDateString, getJstDateString } from "../utils/dateUtils";
+import { logger } from "../utils/logger";
+import { requestUpstreamJson } from "./upstreamRequest";
+import type { WeatherApiTransport } from "./WeatherApiWeatherRepository";
+
+// Recordings replayed by WEATHER_PROVIDER="fixture" unless
+// WEATHER_FIXTURE_DIR points elsewhere (relative to the working directory)
+export const DEFAULT_WEATHER_FIXTURE_DIR = "fixtures/weatherapi";
+
+/**
+ * A raw WeatherAPI forecast.json or history.json response as recorded,
+ * with the request that produced it (API key removed).
+ */
+export type WeatherApiRecording = {
+  endpoint: "forecast" | "history";
+  recordedAt: string; // ISO8601
+  params: Record<string, string>;
+  response: any;
+};
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+const DATE_PREFIX = /^\d{4}-\d{2}-\d{2}(?=$|[ T])/;
+
+/**
+ * Move every date in a WeatherAPI response by `days`: date and datetime
+ * strings ("2025-06-01", "2025-06-01 12:00", ISO8601) and `*_epoch`
+ * timestamps. Times of day are kept.
+ */
+export function shiftWeatherApiDates(value: any, days: number): any {
+  if (days === 0) return value;
+  if (typeof value === "string") {
+    return value.replace(DATE_PREFIX, (date) =>
+      addDaysToDateString(date, days),
+    );
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => shiftWeatherApiDates(item, days));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, field]) => [
+        key,
+        key.endsWith("_epoch") && typeof field === "number"
+          ? field + days * SECONDS_PER_DAY
+          : shiftWeatherApiDates(field, days),
+      ]),
+    );
+  }
+  return value;
+}
+
+export function endpointOf(url: string): WeatherApiRecording["endpoint"] {
+  return url.endsWith("/history.json") ? "history" : "forecast";
+}
+
+/**
+ * A transport that sends requests to WeatherAPI and writes every successful
+ * response to `dir` as a WeatherApiRecording, one file per endpoint,
+ * location and date. Needs a filesystem, so it only works on the Node dev
+ * server; a failed write is logged and the response is still returned.
+ */
+export function createRecordingTransport(dir: string): WeatherApiTransport {
+  return async (url, params, policy) => {
+    const result = await requestUpstreamJson("WeatherAPI", url, params, policy);
+
+    const { key: _key, ...recordedParams } = params;
+    const recording: WeatherApiRecording = {
+      endpoint: endpointOf(url),
+      recordedAt: new Date().toISOString(),
+      params: recordedParams,
+      response: result.data,
+    };
+    const fileName = `${recording.endpoint}-${(params.q ?? "unknown").replace(/[^0-9.-]+/g, "_")}-${params.dt ?? getJstDateString()}.json`;
+    try {
+      const { mkdir, writeFile } = await import("node:fs/promises");
+      await mkdir(dir, { recursive: true });
+      await writeFile(
+        `${dir}/${fileName}`,
+        `${JSON.stringify(recording, null, 2)}\n`,
+      );
+      logger.info("Recorded WeatherAPI response", {
+        operation: "weather_api_recording",
+        file: `${dir}/${fileName}`,
+      });
+    } catch (error) {
+      logger.warn(
+        "Failed to record WeatherAPI response",
+        { operation: "weather_api_recording", dir, fileName },
+        error instanceof Error ? error : undefined,
+      );
+    }
+    return result;
+  };
+}
+
+/**
+ * Read every recording in `dir`, in file name order.
+ * @throws Error when the directory holds no recordings
+ */
+export async function loadWeatherApiRecordings(
+  dir: string,
+): Promise<WeatherApiRecording[]> {
+  const { readdir, readFile } = await import("node:fs/promises");
+  const fileNames = (await readdir(dir))
+    .filter((fileName) => fileName.endsWith(".json"))
+    .sort();
+
+  const recordings = await Promise.all(
+    fileNames.map(
+      async (fileName) =>
+        JSON.parse(
+          await readFile(`${dir}/${fileName}`, "utf8"),
+        ) as WeatherApiRecording,
+    ),
+  );
+  if (recordings.length === 0) {
+    throw new Error(`No WeatherAPI recordings found in ${dir}`);
+  }
+  return recordings;
+}
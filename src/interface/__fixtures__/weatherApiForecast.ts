@@ -0,0 +1,35 @@
+/**
+ * A WeatherAPI forecast.json response for 2026-02-09 holding the single
+ * 12:00 JST hour: clear, 20°C, 10 m/s wind and good air quality. Fields of
+ * that hour can be overridden.
+ */
+export function weatherApiForecastResponse(
+  hour: Record<string, unknown> = {},
+): Response {
+  return new Response(
+    JSON.stringify({
+      forecast: {
+        forecastday: [
+          {
+            date: "2026-02-09",
+            hour: [
+              {
+                time_epoch: Date.parse("2026-02-09T03:00:00Z") / 1000,
+                temp_c: 20,
+                wind_kph: 36,
+                humidity: 50,
+                vis_km: 20,
+                uv: 3,
+                chance_of_rain: 0,
+                condition: { code: 1000 },
+                air_quality: { "us-epa-index": 1 },
+                ...hour,
+              },
+            ],
+          },
+        ],
+      },
+    }),
+    { status: 200 },
+  );
+}
@@ -0,0 +1,65 @@
+// src/interface/handlers/adminHandler.ts
+import type { Context } from "hono";
+import { HTTP_STATUS } from "../../constants/httpStatus";
+import { postRecomputeTouringIndexSchema } from "../../dao/touringIndexSchemas";
+import {
+  createRecomputeTouringIndexUseCase,
+  createTouringIndexRepository,
+} from "../../di/container";
+import { HttpError } from "../../domain/HttpError";
+import type { AppEnv } from "../../types/env";
+import { logger } from "../../utils/logger";
+
+/**
+ * Handler for POST /admin/touring-index/recompute
+ * Re-derive stored scores calculated under an older rule set from their
+ * stored raw weather, without calling the weather provider
+ */
+export async function postRecomputeTouringIndex(c: Context<AppEnv>) {
+  const requestContext = c.get("requestContext") || {};
+
+  logger.businessLogic("recompute_touring_index_start", requestContext);
+
+  // JSON bodies have already been parsed and checked by the route. A body
+  // sent without a JSON content type is parsed here, and an empty one
+  // recomputes the default number of rows over all dates
+  const text = await c.req.text();
+  let rawBody: unknown = {};
+  if (text.trim()) {
+    try {
+      rawBody = JSON.parse(text);
+    } catch {
+      throw new HttpError(
+        HTTP_STATUS.BAD_REQUEST,
+        "Request body must be valid JSON",
+      );
+    }
+  }
+
+  // Validate request body
+  const body = postRecomputeTouringIndexSchema.parse(rawBody);
+
+  logger.info("Processing touring index recomputation request", {
+    ...requestContext,
+    operation: "recompute_touring_index_request",
+    dateRange: { startDate: body.startDate, endDate: body.endDate },
+    limit: body.limit,
+    after: body.after,
+  });
+
+  const recompute = createRecomputeTouringIndexUseCase(
+    createTouringIndexRepository(c.env.DB),
+  );
+  const result = await recompute.execute(body);
+
+  logger.info("Touring index recomputation request completed", {
+    ...requestContext,
+    operation: "recompute_touring_index_success",
+    rulesVersion: result.rulesVersion,
+    recomputed: result.recomputed,
+    failed: result.failed,
+    remaining: result.remaining,
+  });
+
+  return c.json(result, HTTP_STATUS.OK);
+}
@@ -55,6 +55,7 @@ export async function readinessCheck(c: Context<AppEnv>) {
             finishedAt: result.lastRun.finishedAt,
             expectedCount: result.lastRun.expectedCount,
             committedCount: result.lastRun.committedCount,
+            partialScoreCount: result.lastRun.partialScoreCount ?? 0,
           }
         : null,
       ageMs: result.ageMs,
@@ -7,6 +7,8 @@ const mockCreateTouringIndexRepository = mock();
 const mockCreateBatchCalculateTouringIndexUsecase = mock();
 const mockCreateScheduledRunRepository = mock();
 const mockCreateRecordScheduledRunOutcomeUseCase = mock();
+const mockCreateScoreClimatologyRepository = mock();
+const mockCreateRefreshScoreClimatologyUseCase = mock();
 
 mock.module("../../di/container", () => ({
   createWeatherRepository: mockCreateWeatherRepository,
@@ -16,6 +18,9 @@ mock.module("../../di/container", () => ({
   createScheduledRunRepository: mockCreateScheduledRunRepository,
   createRecordScheduledRunOutcomeUseCase:
     mockCreateRecordScheduledRunOutcomeUseCase,
+  createScoreClimatologyRepository: mockCreateScoreClimatologyRepository,
+  createRefreshScoreClimatologyUseCase:
+    mockCreateRefreshScoreClimatologyUseCase,
 }));
 
 // Imported after mock.module so the handler picks up the mocked DI container.
@@ -101,6 +106,57 @@ describe("scheduledHandler", () => {
     expect(targetDates).toHaveLength(APP_CONFIG.MAX_FORECAST_DAYS);
   });
 
+  test("passes BATCH_ALLOW_PARTIAL to the usecase and records partial rows", async () => {
+    mockExecute.mockResolvedValue(buildResult());
+    const mockGetCommittedPartialScoreCount = mock(async () => 3);
+    mockCreateTouringIndexRepository.mockReturnValue({
+      getCommittedCoverageCount: mockGetCommittedCoverageCount,
+      getCommittedPartialScoreCount: mockGetCommittedPartialScoreCount,
+    });
+
+    await scheduledHandler(
+      fakeController,
+      { ...fakeEnv, BATCH_ALLOW_PARTIAL: "true" } as any,
+      fakeCtx,
+    );
+
+    expect(mockExecute.mock.calls[0][1]).toEqual({ allowPartial: true });
+    expect(mockRecordOutcome.mock.calls[0][0].partialScoreCount).toBe(3);
+  });
+
+  test("refreshes the score climatology instead of the batch on its cron", async () => {
+    const mockRefresh = mock(async () => ({
+      rulesVersion: 1,
+      distributions: 564,
+      sampleCount: 17155,
+    }));
+    mockCreateScoreClimatologyRepository.mockReturnValue({});
+    mockCreateRefreshScoreClimatologyUseCase.mockReturnValue({
+      execute: mockRefresh,
+    });
+
+    await scheduledHandler(
+      {
+        cron: APP_CONFIG.CLIMATOLOGY_REFRESH_CRON,
+      } as ScheduledController,
+      fakeEnv as any,
+      fakeCtx,
+    );
+
+    expect(mockRefresh).toHaveBeenCalledTimes(1);
+    expect(mockExecute).not.toHaveBeenCalled();
+    expect(mockRecordOutcome).not.toHaveBeenCalled();
+  });
+
+  test("does not allow partial scores by default", async () => {
+    mockExecute.mockResolvedValue(buildResult());
+
+    await scheduledHandler(fakeController, fakeEnv as any, fakeCtx);
+
+    expect(mockExecute.mock.calls[0][1]).toEqual({ allowPartial: false });
+    expect(mockRecordOutcome.mock.calls[0][0].partialScoreCount).toBe(0);
+  });
+
   test("records a run outcome from actual D1 coverage, not the usecase's self-reported counters", async () => {
     mockExecute.mockResolvedValue(buildResult());
     mockGetCommittedCoverageCount.mockResolvedValue(658);
@@ -3,7 +3,9 @@ import { APP_CONFIG } from "../../constants/appConfig";
 import {
   createBatchCalculateTouringIndexUsecase,
   createRecordScheduledRunOutcomeUseCase,
+  createRefreshScoreClimatologyUseCase,
   createScheduledRunRepository,
+  createScoreClimatologyRepository,
   createTouringIndexRepository,
   createWeatherRepository,
 } from "../../di/container";
@@ -12,10 +14,52 @@ import { BatchCalculateTouringIndexUsecase } from "../../usecase/BatchCalculateT
 import { logger } from "../../utils/logger";
 
 export async function scheduledHandler(
-  _controller: ScheduledController,
+  controller: ScheduledController,
   env: AppEnv["Bindings"],
   _ctx: ExecutionContext,
 ): Promise<void> {
+  if (controller.cron === APP_CONFIG.CLIMATOLOGY_REFRESH_CRON) {
+    return refreshScoreClimatology(env);
+  }
+  return runBatchCalculation(env);
+}
+
+async function refreshScoreClimatology(env: AppEnv["Bindings"]): Promise<void> {
+  const startTime = Date.now();
+
+  logger.info("Starting scheduled score climatology refresh", {
+    operation: "climatology_refresh",
+    timestamp: new Date().toISOString(),
+  });
+
+  try {
+    const refreshUseCase = createRefreshScoreClimatologyUseCase(
+      createScoreClimatologyRepository(env.DB),
+    );
+    const result = await refreshUseCase.execute();
+
+    logger.info("Score climatology refresh completed", {
+      operation: "climatology_refresh",
+      duration: Date.now() - startTime,
+      rulesVersion: result.rulesVersion,
+      distributions: result.distributions,
+      sampleCount: result.sampleCount,
+    });
+  } catch (error) {
+    logger.error(
+      "Scheduled score climatology refresh failed",
+      {
+        operation: "climatology_refresh",
+        timestamp: new Date().toISOString(),
+        hasDb: !!env.DB,
+      },
+      error as Error,
+    );
+    throw error; // Re-throw to mark the execution as failed
+  }
+}
+
+async function runBatchCalculation(env: AppEnv["Bindings"]): Promise<void> {
   const runId = crypto.randomUUID();
   const startedAt = new Date().toISOString();
   const startTime = Date.now();
@@ -35,9 +79,10 @@ export async function scheduledHandler(
   try {
     // Default parameters for scheduled execution
     const days = APP_CONFIG.MAX_FORECAST_DAYS;
+    const allowPartial = env.BATCH_ALLOW_PARTIAL === "true";
 
     // Create repositories and usecase
-    const weatherRepo = createWeatherRepository(env.WEATHERAPI_KEY);
+    const weatherRepo = createWeatherRepository(env);
     const touringIndexRepo = createTouringIndexRepository(env.DB);
     const batchUsecase = createBatchCalculateTouringIndexUsecase(
       weatherRepo,
@@ -70,6 +115,7 @@ export async function scheduledHandler(
       operation: "batch_processing",
       runId,
       days,
+      allowPartial,
       totalDates: targetDates.length,
       dateRange: {
         from: targetDates[0],
@@ -78,7 +124,7 @@ export async function scheduledHandler(
     });
 
     // Execute batch processing
-    const result = await batchUsecase.execute(targetDates);
+    const result = await batchUsecase.execute(targetDates, { allowPartial });
 
     // Measure actual D1 coverage rather than trusting the usecase's own
     // success/failure counters, which are only accurate at whole-prefecture
@@ -91,6 +137,13 @@ export async function scheduledHandler(
       targetDates[targetDates.length - 1],
       startedAt,
     );
+    const partialScoreCount = allowPartial
+      ? await touringIndexRepo.getCommittedPartialScoreCount(
+          targetDates[0],
+          targetDates[targetDates.length - 1],
+          startedAt,
+        )
+      : 0;
 
     const finishedAt = new Date().toISOString();
     const durationMs = Date.now() - startTime;
@@ -101,6 +154,7 @@ export async function scheduledHandler(
       finishedAt,
       expectedCount: result.total_processed,
       committedCount,
+      partialScoreCount,
       failureCount: result.errors.length,
       durationMs,
       errorSummary:
@@ -118,6 +172,7 @@ export async function scheduledHandler(
         successfulInserts: result.successful_inserts,
         totalProcessed: result.total_processed,
         committedCount,
+        partialScoreCount,
         status: outcome.status,
       },
     });
@@ -167,6 +222,8 @@ export async function scheduledHandler(
         runId,
         timestamp: new Date().toISOString(),
         hasDb: !!env.DB,
+        weatherProvider: env.WEATHER_PROVIDER || "weatherapi",
+        weatherEnsemble: env.WEATHER_ENSEMBLE === "true",
         hasWeatherApiKey: !!env.WEATHERAPI_KEY,
         hasBatchStartDate: !!env.BATCH_START_DATE,
       },
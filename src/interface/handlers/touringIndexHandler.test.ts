@@ -3,10 +3,13 @@ import type { Context } from "hono";
 import { ZodError } from "zod";
 import { HTTP_STATUS } from "../../constants/httpStatus";
 import { HttpError } from "../../domain/HttpError";
+import { buildScoreDistribution } from "../../domain/ScoreClimatology";
+import { SCORING_RULES_VERSION } from "../../domain/ScoreRules";
 import { getTouringIndexHistory } from "./touringIndexHandler";
 
 // Mock dependencies
 const mockCreateTouringIndexRepository = mock();
+const mockCreateScoreClimatologyRepository = mock();
 const mockValidateDateRange = mock();
 const mockFindNearestPrefecture = mock();
 const mockCalculateDistance = mock();
@@ -19,6 +22,7 @@ const mockGetTouringIndexHistorySchema = {
 // Mock modules
 mock.module("../../di/container", () => ({
   createTouringIndexRepository: mockCreateTouringIndexRepository,
+  createScoreClimatologyRepository: mockCreateScoreClimatologyRepository,
 }));
 
 mock.module("../../utils/dateUtils", () => ({
@@ -58,6 +62,7 @@ let capturedResponse: { data: any; status: number } = { data: {}, status: 200 };
 describe("getTouringIndexHistory", () => {
   let mockContext: Partial<Context>;
   let mockTouringIndexRepo: any;
+  let mockScoreClimatologyRepo: any;
 
   beforeEach(() => {
     // Reset all mocks
@@ -96,6 +101,13 @@ describe("getTouringIndexHistory", () => {
 
     mockCreateTouringIndexRepository.mockReturnValue(mockTouringIndexRepo);
 
+    mockScoreClimatologyRepo = {
+      getScoreDistributions: mock(async () => []),
+    };
+    mockCreateScoreClimatologyRepository.mockReturnValue(
+      mockScoreClimatologyRepo,
+    );
+
     // Set up default successful schema parsing
     mockGetTouringIndexHistorySchema.parse = mock((input) => ({
       lat: Number(input.lat),
@@ -237,6 +249,314 @@ describe("getTouringIndexHistory", () => {
       expect(capturedResponse.data.prefecture_id).toBe(27);
     });
 
+    test("should split stored hazards from factor scores", async () => {
+      const hazards = [{ type: "strong_wind", severity: "severe" }];
+      const mockHistoryData = [
+        {
+          id: 1,
+          prefecture_id: 27,
+          date: "2024-06-01",
+          score: 30,
+          weather_factors_json: JSON.stringify({ temperature: 18, hazards }),
+          weather_raw_json: JSON.stringify({
+            datetime: "2024-06-01T03:00:00Z",
+            condition: "cloudy",
+            temperature: 18,
+            windSpeed: 16,
+            humidity: 60,
+            visibility: 10,
+            precipitationProbability: 20,
+            uvIndex: 3,
+            airQuality: "low",
+            sunrise: "2024-06-01T04:25:00+09:00",
+            sunset: "2024-06-01T18:52:00+09:00",
+          }),
+          calculated_at: "2024-06-01T06:00:00Z",
+        },
+        {
+          id: 2,
+          prefecture_id: 27,
+          date: "2024-06-02",
+          score: 75,
+          weather_factors_json: JSON.stringify({ temperature: 18 }),
+          weather_raw_json: JSON.stringify({ condition: "cloudy" }),
+          calculated_at: "2024-06-02T06:00:00Z",
+        },
+      ];
+
+      (mockContext.req as any).query = createQueryMock({
+        lat: "35.6762",
+        lon: "139.6503",
+        prefectureId: "27",
+      });
+
+      mockGetTouringIndexHistorySchema.parse.mockReturnValue({
+        lat: 35.6762,
+        lon: 139.6503,
+        startDate: "2024-05-25",
+        endDate: "2024-06-02",
+        prefectureId: 27,
+      });
+
+      mockValidateDateRange.mockImplementation(() => {});
+      mockTouringIndexRepo.getTouringIndexByPrefectureAndDateRange.mockResolvedValue(
+        mockHistoryData,
+      );
+
+      await getTouringIndexHistory(mockContext as Context);
+
+      const [withHazards, legacyRow] = capturedResponse.data.data;
+      expect(withHazards.factors).toEqual({ temperature: 18 });
+      expect(withHazards.daylight).toEqual({
+        sunrise: "2024-06-01T04:25:00+09:00",
+        sunset: "2024-06-01T18:52:00+09:00",
+        hours: 14.5,
+      });
+      expect(legacyRow.daylight).toBeNull();
+      expect(withHazards.hazards).toEqual(hazards);
+      expect(legacyRow.factors).toEqual({ temperature: 18 });
+      expect(legacyRow.hazards).toEqual([]);
+    });
+
+    test("should return stored confidence and rules version, null for legacy rows", async () => {
+      const confidence = {
+        value: 0.71,
+        band: { low: 74, high: 96 },
+        leadTimeDays: 6,
+        estimatedFactors: [],
+      };
+      const mockHistoryData = [
+        {
+          id: 1,
+          prefecture_id: 27,
+          date: "2024-06-07",
+          score: 85,
+          weather_factors_json: JSON.stringify({ temperature: 18 }),
+          weather_raw_json: JSON.stringify({ condition: "clear" }),
+          confidence_json: JSON.stringify(confidence),
+          rules_version: 1,
+          calculated_at: "2024-06-01T06:00:00Z",
+        },
+        {
+          id: 2,
+          prefecture_id: 27,
+          date: "2024-06-08",
+          score: 75,
+          weather_factors_json: JSON.stringify({ temperature: 18 }),
+          weather_raw_json: JSON.stringify({ condition: "cloudy" }),
+          confidence_json: null,
+          rules_version: null,
+          calculated_at: "2024-06-02T06:00:00Z",
+        },
+      ];
+
+      (mockContext.req as any).query = createQueryMock({
+        lat: "35.6762",
+        lon: "139.6503",
+        prefectureId: "27",
+      });
+
+      mockGetTouringIndexHistorySchema.parse.mockReturnValue({
+        lat: 35.6762,
+        lon: 139.6503,
+        startDate: "2024-06-02",
+        endDate: "2024-06-08",
+        prefectureId: 27,
+      });
+
+      mockValidateDateRange.mockImplementation(() => {});
+      mockTouringIndexRepo.getTouringIndexByPrefectureAndDateRange.mockResolvedValue(
+        mockHistoryData,
+      );
+
+      await getTouringIndexHistory(mockContext as Context);
+
+      const [stored, legacyRow] = capturedResponse.data.data;
+      expect(stored.confidence).toEqual(confidence);
+      expect(stored.rulesVersion).toBe(1);
+      expect(legacyRow.confidence).toBeNull();
+      expect(legacyRow.rulesVersion).toBeNull();
+    });
+
+    test("should place current-rules rows in their month's score distribution", async () => {
+      mockScoreClimatologyRepo.getScoreDistributions.mockResolvedValue([
+        buildScoreDistribution(
+          27,
+          6,
+          Array.from({ length: 20 }, (_, i) => ({ score: 60 + i, count: 1 })),
+        ),
+      ]);
+      const mockHistoryData = [
+        {
+          id: 1,
+          prefecture_id: 27,
+          date: "2024-06-01",
+          score: 75,
+          weather_factors_json: JSON.stringify({ weather: 30 }),
+          weather_raw_json: JSON.stringify({ condition: "clear" }),
+          rules_version: SCORING_RULES_VERSION,
+          calculated_at: "2024-06-01T06:00:00Z",
+        },
+        {
+          id: 2,
+          prefecture_id: 27,
+          date: "2024-06-02",
+          score: 75,
+          weather_factors_json: JSON.stringify({ weather: 30 }),
+          weather_raw_json: JSON.stringify({ condition: "clear" }),
+          rules_version: null,
+          calculated_at: "2024-06-02T06:00:00Z",
+        },
+      ];
+
+      (mockContext.req as any).query = createQueryMock({
+        lat: "35.6762",
+        lon: "139.6503",
+        prefectureId: "27",
+      });
+
+      mockGetTouringIndexHistorySchema.parse.mockReturnValue({
+        lat: 35.6762,
+        lon: 139.6503,
+        startDate: "2024-05-27",
+        endDate: "2024-06-02",
+        prefectureId: 27,
+      });
+
+      mockValidateDateRange.mockImplementation(() => {});
+      mockTouringIndexRepo.getTouringIndexByPrefectureAndDateRange.mockResolvedValue(
+        mockHistoryData,
+      );
+
+      await getTouringIndexHistory(mockContext as Context);
+
+      expect(
+        mockScoreClimatologyRepo.getScoreDistributions,
+      ).toHaveBeenCalledWith(27, SCORING_RULES_VERSION);
+      const [current, legacyRow] = capturedResponse.data.data;
+      expect(current.percentile).toEqual({
+        value: 75,
+        month: 6,
+        sampleCount: 20,
+      });
+      expect(legacyRow.percentile).toBeNull();
+    });
+
+    test("should flag stored partial rows with their missing factors", async () => {
+      const mockHistoryData = [
+        {
+          id: 1,
+          prefecture_id: 27,
+          date: "2024-06-01",
+          score: 84,
+          weather_factors_json: JSON.stringify({
+            weather: 15.79,
+            hazards: [],
+            missingFactors: ["airQuality"],
+          }),
+          weather_raw_json: JSON.stringify({ condition: "cloudy" }),
+          confidence_json: null,
+          partial: 1,
+          calculated_at: "2024-06-01T06:00:00Z",
+        },
+        {
+          id: 2,
+          prefecture_id: 27,
+          date: "2024-06-02",
+          score: 75,
+          weather_factors_json: JSON.stringify({ weather: 15 }),
+          weather_raw_json: JSON.stringify({ condition: "cloudy" }),
+          confidence_json: null,
+          partial: 0,
+          calculated_at: "2024-06-02T06:00:00Z",
+        },
+      ];
+
+      (mockContext.req as any).query = createQueryMock({
+        lat: "35.6762",
+        lon: "139.6503",
+        prefectureId: "27",
+      });
+
+      mockGetTouringIndexHistorySchema.parse.mockReturnValue({
+        lat: 35.6762,
+        lon: 139.6503,
+        startDate: "2024-05-27",
+        endDate: "2024-06-02",
+        prefectureId: 27,
+      });
+
+      mockValidateDateRange.mockImplementation(() => {});
+      mockTouringIndexRepo.getTouringIndexByPrefectureAndDateRange.mockResolvedValue(
+        mockHistoryData,
+      );
+
+      await getTouringIndexHistory(mockContext as Context);
+
+      const [partialRow, fullRow] = capturedResponse.data.data;
+      expect(partialRow.partial).toBe(true);
+      expect(partialRow.missingFactors).toEqual(["airQuality"]);
+      expect(partialRow.factors).toEqual({ weather: 15.79 });
+      expect(fullRow.partial).toBe(false);
+      expect(fullRow).not.toHaveProperty("missingFactors");
+    });
+
+    test("should rescore stored rows for a non-default profile", async () => {
+      const mockHistoryData = [
+        {
+          id: 1,
+          prefecture_id: 13,
+          date: "2024-06-01",
+          score: 100,
+          weather_factors_json: JSON.stringify({ temperature: 20 }),
+          weather_raw_json: JSON.stringify({
+            datetime: "2024-06-01T03:00:00Z",
+            condition: "clear",
+            temperature: 21.5,
+            windSpeed: 6,
+            humidity: 50,
+            visibility: 20,
+            precipitationProbability: 0,
+            uvIndex: 3,
+            airQuality: "low",
+          }),
+          calculated_at: "2024-06-01T06:00:00Z",
+        },
+      ];
+
+      (mockContext.req as any).query = createQueryMock({
+        lat: "35.6762",
+        lon: "139.6503",
+        prefectureId: "13",
+        profile: "sport",
+      });
+
+      mockGetTouringIndexHistorySchema.parse.mockReturnValue({
+        lat: 35.6762,
+        lon: 139.6503,
+        startDate: "2024-05-25",
+        endDate: "2024-06-01",
+        prefectureId: 13,
+        profile: "sport",
+      });
+
+      mockValidateDateRange.mockImplementation(() => {});
+      mockTouringIndexRepo.getTouringIndexByPrefectureAndDateRange.mockResolvedValue(
+        mockHistoryData,
+      );
+
+      await getTouringIndexHistory(mockContext as Context);
+
+      expect(capturedResponse.data.profile).toBe("sport");
+      expect(capturedResponse.data.data[0].score).toBeLessThan(100);
+      expect(capturedResponse.data.data[0].factors.wind).toBe(13.33);
+      // Lead time is measured from the original calculation, not from now
+      expect(capturedResponse.data.data[0].confidence.leadTimeDays).toBe(0);
+      expect(capturedResponse.data.data[0].rulesVersion).toBe(
+        SCORING_RULES_VERSION,
+      );
+    });
+
     test("should return empty array when no data found", async () => {
       (mockContext.req as any).query = createQueryMock({
         lat: "35.6762",
@@ -4,22 +4,66 @@ import { APP_CONFIG } from "../../constants/appConfig";
 import { ERROR_CODES } from "../../constants/errorCodes";
 import { HTTP_STATUS } from "../../constants/httpStatus";
 import {
+  getHourlyTouringIndexSchema,
   getTouringIndexHistorySchema,
   getTouringIndexSchema,
+  postCustomTouringIndexSchema,
+  postTripTouringIndexSchema,
 } from "../../dao/touringIndexSchemas";
 import {
+  createScoreClimatologyRepository,
   createTouringIndexRepository,
   createWeatherRepository,
 } from "../../di/container";
+import { type DaylightWindow, getDaylightWindow } from "../../domain/Daylight";
+import type { ForecastConfidence } from "../../domain/ForecastConfidence";
 import { HttpError } from "../../domain/HttpError";
+import {
+  monthOfDate,
+  type ScoreDistribution,
+  type ScorePercentile,
+  scorePercentile,
+} from "../../domain/ScoreClimatology";
+import { SCORING_RULES_VERSION } from "../../domain/ScoreRules";
+import {
+  getScoringProfile,
+  type ScoringProfile,
+} from "../../domain/ScoringProfile";
+import { resolveFactorWeights } from "../../domain/TouringScore";
+import { type Weather, WeatherSchema } from "../../domain/Weather";
 import type { AppEnv } from "../../types/env";
-import { calculateTouringIndex } from "../../usecase/CalculateTouringIndex";
-import { validateDateRange } from "../../utils/dateUtils";
-import { logger } from "../../utils/logger";
+import { calculateHourlyTouringIndex } from "../../usecase/CalculateHourlyTouringIndex";
+import {
+  type CompleteTouringIndex,
+  calculateTouringIndex,
+  type MissingTouringIndexFactor,
+  type TouringIndexExplanation,
+  type TouringIndexResult,
+  type TouringTemperature,
+} from "../../usecase/CalculateTouringIndex";
+import { calculateTripTouringIndex } from "../../usecase/CalculateTripTouringIndex";
+import { parseCalculatedAt } from "../../usecase/RecomputeTouringIndex";
+import {
+  addDaysToDateString,
+  getJstDateString,
+  validateDateRange,
+} from "../../utils/dateUtils";
+import { type LogContext, logger } from "../../utils/logger";
 import {
   calculateDistance,
   findNearestPrefecture,
 } from "../../utils/prefectureUtils";
+import {
+  convertCruisingSpeed,
+  convertDistance,
+  convertElevation,
+  convertEnsemble,
+  convertTemperature,
+  convertWindSpeed,
+  getRationaleUnits,
+  getUnitLabels,
+  type UnitSystem,
+} from "../../utils/unitUtils";
 
 /**
  * Handler for GET /touring-index
@@ -34,17 +78,19 @@ export async function getTouringIndex(c: Context<AppEnv>) {
     lat: c.req.query("lat"),
     lon: c.req.query("lon"),
     datetime: c.req.query("datetime"),
+    profile: c.req.query("profile"),
+    cruisingSpeed: c.req.query("cruisingSpeed"),
+    elevation: c.req.query("elevation"),
+    allowPartial: c.req.query("allowPartial"),
+    units: c.req.query("units"),
   });
 
-  const { lat, lon } = queryParams;
-  const datetime =
-    queryParams.datetime ||
-    new Date(
-      new Intl.DateTimeFormat("en-US", {
-        timeZone: APP_CONFIG.DEFAULT_TIMEZONE,
-        hour12: false,
-      }).format(new Date()),
-    ).toISOString();
+  const { lat, lon, units } = queryParams;
+  const profile = withCruisingSpeed(
+    getScoringProfile(queryParams.profile),
+    queryParams.cruisingSpeed,
+  );
+  const datetime = queryParams.datetime || currentJstDatetime();
 
   logger.info("Processing touring index request", {
     ...requestContext,
@@ -52,30 +98,57 @@ export async function getTouringIndex(c: Context<AppEnv>) {
     location: { lat, lon },
     datetime,
     datetimeSource: queryParams.datetime ? "provided" : "auto_generated",
+    profile: profile.name,
   });
 
-  const weatherRepo = createWeatherRepository(c.env.WEATHERAPI_KEY);
+  const weatherRepo = createWeatherRepository(c.env, {
+    onCacheLookup: (status) => c.header("X-Cache", status),
+  });
 
   const weather = await weatherRepo.getWeather(lat, lon, datetime);
-  const touringIndex = calculateTouringIndex(weather);
-  if ("missingFactors" in touringIndex) {
-    throw new HttpError(
-      HTTP_STATUS.UNPROCESSABLE_ENTITY,
-      "Touring index is unavailable because required weather observations are missing",
-      {
-        code: ERROR_CODES.WEATHER_DATA_INCOMPLETE,
-        details: { missingFactors: touringIndex.missingFactors },
-      },
-    );
-  }
+  const {
+    score,
+    breakdown,
+    explanation,
+    confidence,
+    temperature,
+    hazards,
+    daylight,
+    omittedFactors,
+    rulesVersion,
+  } = requireCompleteTouringIndex(
+    calculateTouringIndex(weather, profile, {
+      allowPartial: queryParams.allowPartial,
+      elevation: queryParams.elevation,
+      rationaleUnits: getRationaleUnits(units),
+    }),
+  );
 
-  const { score, breakdown } = touringIndex;
+  const percentile = comparableWithClimatology(profile)
+    ? await lookupPercentile(c.env.DB, requestContext, lat, lon, {
+        date: getJstDateString(new Date(weather.datetime)),
+        score,
+      })
+    : null;
 
   const response = {
     location: { lat, lon },
     datetime: weather.datetime,
+    profile: profile.name,
+    rulesVersion,
     score,
+    percentile,
+    ...partialScoreFields(omittedFactors),
     factors: breakdown,
+    explanation: convertExplanationInputs(explanation, units),
+    confidence,
+    temperature: convertTouringTemperature(temperature, units),
+    hazards,
+    alerts: weather.alerts ?? [],
+    daylight,
+    provider: weather.provider,
+    ensemble: weather.ensemble && convertEnsemble(weather.ensemble, units),
+    units: getUnitLabels(units),
   };
 
   logger.info("Touring index calculated successfully", {
@@ -84,6 +157,7 @@ export async function getTouringIndex(c: Context<AppEnv>) {
     location: { lat, lon },
     datetime: weather.datetime,
     score,
+    profile: profile.name,
     weatherCondition: weather.condition,
     temperature: weather.temperature,
   });
@@ -91,6 +165,296 @@ export async function getTouringIndex(c: Context<AppEnv>) {
   return c.json(response, HTTP_STATUS.OK);
 }
 
+/**
+ * Handler for POST /touring-index/custom
+ * Calculate the touring index with caller-supplied factor weights
+ */
+export async function postCustomTouringIndex(c: Context<AppEnv>) {
+  const requestContext = c.get("requestContext") || {};
+
+  logger.businessLogic("calculate_custom_touring_index_start", requestContext);
+
+  // The route has already parsed the JSON body and checked it against the
+  // request schema; this applies the ranges and cross-field rules
+  const body = postCustomTouringIndexSchema.parse(await c.req.json());
+
+  const { lat, lon } = body;
+  const baseProfile = getScoringProfile(body.profile);
+  const weights = resolveFactorWeights(body.weights, baseProfile.weights);
+  const profile: ScoringProfile = {
+    ...withCruisingSpeed(baseProfile, body.cruisingSpeed),
+    weights,
+  };
+  const datetime = body.datetime || currentJstDatetime();
+
+  logger.info("Processing custom touring index request", {
+    ...requestContext,
+    operation: "custom_touring_index_request",
+    location: { lat, lon },
+    datetime,
+    datetimeSource: body.datetime ? "provided" : "auto_generated",
+    profile: profile.name,
+    weights,
+  });
+
+  const weatherRepo = createWeatherRepository(c.env, {
+    onCacheLookup: (status) => c.header("X-Cache", status),
+  });
+
+  const weather = await weatherRepo.getWeather(lat, lon, datetime);
+  const {
+    score,
+    breakdown,
+    explanation,
+    confidence,
+    temperature,
+    hazards,
+    daylight,
+    omittedFactors,
+    rulesVersion,
+  } = requireCompleteTouringIndex(
+    calculateTouringIndex(weather, profile, {
+      allowPartial: body.allowPartial,
+      elevation: body.elevation,
+    }),
+  );
+
+  const response = {
+    location: { lat, lon },
+    datetime: weather.datetime,
+    profile: profile.name,
+    rulesVersion,
+    score,
+    ...partialScoreFields(omittedFactors),
+    factors: breakdown,
+    explanation,
+    confidence,
+    temperature,
+    hazards,
+    alerts: weather.alerts ?? [],
+    daylight,
+    provider: weather.provider,
+    ensemble: weather.ensemble,
+    weights,
+  };
+
+  logger.info("Custom touring index calculated successfully", {
+    ...requestContext,
+    operation: "custom_touring_index_success",
+    location: { lat, lon },
+    datetime: weather.datetime,
+    score,
+    profile: profile.name,
+  });
+
+  return c.json(response, HTTP_STATUS.OK);
+}
+
+/**
+ * Handler for POST /touring-index/trip
+ * Score a multi-day itinerary leg by leg and suggest whole-trip date shifts
+ */
+export async function postTripTouringIndex(c: Context<AppEnv>) {
+  const requestContext = c.get("requestContext") || {};
+
+  logger.businessLogic("calculate_trip_touring_index_start", requestContext);
+
+  // The route has already parsed the JSON body and checked it against the
+  // request schema; this applies the ranges and cross-field rules
+  const body = postTripTouringIndexSchema.parse(await c.req.json());
+
+  const { legs, shiftDays } = body;
+  const profile = withCruisingSpeed(
+    getScoringProfile(body.profile),
+    body.cruisingSpeed,
+  );
+  const firstDate = legs[0].date;
+  const lastDate = legs[legs.length - 1].date;
+  const today = getJstDateString();
+
+  // Validate trip dates — convert plain Error to HttpError for uniform handling
+  try {
+    validateDateRange(firstDate, lastDate);
+    if (firstDate < today) {
+      throw new Error("Trip dates must not be in the past");
+    }
+  } catch (error) {
+    throw new HttpError(
+      HTTP_STATUS.BAD_REQUEST,
+      error instanceof Error ? error.message : "Invalid trip dates",
+    );
+  }
+
+  // Shifted trips must also stay within the forecast window. The forecast
+  // always starts today, so fetching from today costs no extra requests.
+  const maxForecastDate = addDaysToDateString(
+    today,
+    APP_CONFIG.MAX_FORECAST_DAYS - 1,
+  );
+  const latestDate = addDaysToDateString(lastDate, shiftDays);
+  const windowEnd = latestDate > maxForecastDate ? maxForecastDate : latestDate;
+
+  logger.info("Processing trip touring index request", {
+    ...requestContext,
+    operation: "trip_touring_index_request",
+    legsCount: legs.length,
+    dateRange: { startDate: firstDate, endDate: lastDate },
+    shiftDays,
+    profile: profile.name,
+  });
+
+  const weatherRepo = createWeatherRepository(c.env);
+
+  // One forecast request per distinct location covers every candidate date
+  const forecasts = new Map<string, Promise<Record<string, Weather>>>();
+  const forecastFor = (lat: number, lon: number) => {
+    const key = `${lat},${lon}`;
+    let forecast = forecasts.get(key);
+    if (!forecast) {
+      forecast = weatherRepo
+        .getWeatherBatch(lat, lon, today, windowEnd)
+        .then((days) =>
+          Object.fromEntries(
+            days.map((weather, i) => [addDaysToDateString(today, i), weather]),
+          ),
+        );
+      forecasts.set(key, forecast);
+    }
+    return forecast;
+  };
+  const legForecasts = await Promise.all(
+    legs.map(async (leg) => ({
+      ...leg,
+      forecast: await forecastFor(leg.lat, leg.lon),
+    })),
+  );
+
+  const trip = calculateTripTouringIndex(legForecasts, profile, {
+    allowPartial: body.allowPartial,
+    maxShiftDays: shiftDays,
+  });
+  if ("missingFactors" in trip) {
+    throw new HttpError(
+      HTTP_STATUS.UNPROCESSABLE_ENTITY,
+      `Trip leg ${trip.legIndex + 1} (${trip.date}) is unavailable because required weather observations are missing`,
+      {
+        code: ERROR_CODES.WEATHER_DATA_INCOMPLETE,
+        details: { missingFactors: trip.missingFactors },
+      },
+    );
+  }
+
+  const response = {
+    profile: profile.name,
+    rulesVersion: trip.rulesVersion,
+    score: trip.score,
+    legs: trip.legs.map((leg, index) => ({
+      location: { lat: leg.lat, lon: leg.lon },
+      date: leg.date,
+      score: leg.score,
+      ...partialScoreFields(leg.omittedFactors),
+      factors: leg.factors,
+      hazards: leg.hazards,
+      confidence: leg.confidence,
+      provider: legForecasts[index].forecast[leg.date]?.provider,
+    })),
+    weakestLeg: trip.weakestLeg,
+    shiftSuggestions: trip.shiftSuggestions,
+  };
+
+  logger.info("Trip touring index calculated successfully", {
+    ...requestContext,
+    operation: "trip_touring_index_success",
+    legsCount: legs.length,
+    score: trip.score,
+    weakestLeg: trip.weakestLeg.index,
+    shiftSuggestionsCount: trip.shiftSuggestions.length,
+    profile: profile.name,
+  });
+
+  return c.json(response, HTTP_STATUS.OK);
+}
+
+/**
+ * Handler for GET /touring-index/hourly
+ * Score every hour of a day and report the best contiguous riding window
+ */
+export async function getHourlyTouringIndex(c: Context<AppEnv>) {
+  const requestContext = c.get("requestContext") || {};
+
+  logger.businessLogic("calculate_hourly_touring_index_start", requestContext);
+
+  // Validate query parameters
+  const queryParams = getHourlyTouringIndexSchema.parse({
+    lat: c.req.query("lat"),
+    lon: c.req.query("lon"),
+    date: c.req.query("date"),
+    profile: c.req.query("profile"),
+    threshold: c.req.query("threshold"),
+    cruisingSpeed: c.req.query("cruisingSpeed"),
+    elevation: c.req.query("elevation"),
+    allowPartial: c.req.query("allowPartial"),
+  });
+
+  const { lat, lon, date, threshold } = queryParams;
+  const profile = withCruisingSpeed(
+    getScoringProfile(queryParams.profile),
+    queryParams.cruisingSpeed,
+  );
+
+  logger.info("Processing hourly touring index request", {
+    ...requestContext,
+    operation: "hourly_touring_index_request",
+    location: { lat, lon },
+    date,
+    profile: profile.name,
+    threshold,
+  });
+
+  // Validate date — convert plain Error to HttpError for uniform handling
+  try {
+    validateDateRange(date, date);
+  } catch (error) {
+    throw new HttpError(
+      HTTP_STATUS.BAD_REQUEST,
+      error instanceof Error ? error.message : "Invalid date",
+    );
+  }
+
+  const weatherRepo = createWeatherRepository(c.env);
+
+  const hourlyWeather = await weatherRepo.getHourlyWeather(lat, lon, date);
+  const { hours, bestWindow, daylight, rulesVersion } =
+    calculateHourlyTouringIndex(hourlyWeather, threshold, profile, {
+      allowPartial: queryParams.allowPartial,
+      elevation: queryParams.elevation,
+    });
+
+  const response = {
+    location: { lat, lon },
+    date,
+    profile: profile.name,
+    rulesVersion,
+    threshold,
+    daylight,
+    hours,
+    bestWindow,
+    provider: hourlyWeather[0]?.provider,
+  };
+
+  logger.info("Hourly touring index calculated successfully", {
+    ...requestContext,
+    operation: "hourly_touring_index_success",
+    location: { lat, lon },
+    date,
+    hoursCount: hours.length,
+    bestWindowHours: bestWindow?.hours ?? 0,
+    profile: profile.name,
+  });
+
+  return c.json(response, HTTP_STATUS.OK);
+}
+
 /**
  * Handler for GET /touring-index/history
  * Get historical touring index data for a location
@@ -107,9 +471,11 @@ export async function getTouringIndexHistory(c: Context<AppEnv>) {
     startDate: c.req.query("startDate"),
     endDate: c.req.query("endDate"),
     prefectureId: c.req.query("prefectureId"),
+    profile: c.req.query("profile"),
   });
 
   const { lat, lon, startDate, endDate, prefectureId } = queryParams;
+  const profile = getScoringProfile(queryParams.profile);
 
   logger.info("Processing touring index history request", {
     ...requestContext,
@@ -117,6 +483,7 @@ export async function getTouringIndexHistory(c: Context<AppEnv>) {
     location: { lat, lon },
     dateRange: { startDate, endDate },
     prefectureId,
+    profile: profile.name,
   });
 
   // Validate date range — convert plain Error to HttpError for uniform handling
@@ -181,8 +548,46 @@ export async function getTouringIndexHistory(c: Context<AppEnv>) {
     dateRange: { startDate, endDate },
   });
 
+  const distributions = comparableWithClimatology(profile)
+    ? await loadDistributions(c.env.DB, requestContext, targetPrefectureId)
+    : [];
+
   // Transform data for response
-  const transformedData = historyData.map((record) => {
+  const transformedData = historyData.flatMap((record) => {
+    // Stored rows are calculated with the default profile; any other
+    // profile is re-derived from the stored raw weather observation.
+    if (profile !== getScoringProfile()) {
+      const rescored = rescoreHistoryRecord(
+        record.weather_raw_json,
+        profile,
+        record.calculated_at,
+        Boolean(record.partial),
+      );
+      if (!rescored) {
+        logger.warn("Skipping history record that cannot be rescored", {
+          ...requestContext,
+          recordId: record.id,
+          profile: profile.name,
+        });
+        return [];
+      }
+
+      return [
+        {
+          date: record.date,
+          score: rescored.score,
+          percentile: null,
+          ...partialScoreFields(rescored.omittedFactors),
+          factors: rescored.breakdown,
+          hazards: rescored.hazards,
+          confidence: rescored.confidence,
+          rulesVersion: rescored.rulesVersion,
+          daylight: storedDaylight(record.weather_raw_json),
+          calculated_at: record.calculated_at,
+        },
+      ];
+    }
+
     let weatherFactors: any = {};
 
     try {
@@ -196,17 +601,35 @@ export async function getTouringIndexHistory(c: Context<AppEnv>) {
       weatherFactors = {};
     }
 
-    return {
-      date: record.date,
-      score: record.score,
-      factors: weatherFactors,
-      calculated_at: record.calculated_at,
-    };
+    // Rows written before hazard evaluation carry no hazards entry;
+    // only partial rows carry missingFactors
+    const { hazards = [], missingFactors = [], ...factors } = weatherFactors;
+
+    return [
+      {
+        date: record.date,
+        score: record.score,
+        // Scores from an older rule set are not comparable to the
+        // distributions
+        percentile:
+          record.rules_version === SCORING_RULES_VERSION
+            ? percentileForDate(distributions, record.date, record.score)
+            : null,
+        ...partialScoreFields(record.partial ? missingFactors : []),
+        factors,
+        hazards,
+        confidence: storedConfidence(record.confidence_json),
+        rulesVersion: record.rules_version,
+        daylight: storedDaylight(record.weather_raw_json),
+        calculated_at: record.calculated_at,
+      },
+    ];
   });
 
   const response = {
     location: { lat, lon },
     prefecture_id: targetPrefectureId,
+    profile: profile.name,
     data: transformedData,
   };
 
@@ -219,3 +642,207 @@ export async function getTouringIndexHistory(c: Context<AppEnv>) {
 
   return c.json(response, HTTP_STATUS.OK);
 }
+
+function rescoreHistoryRecord(
+  weatherRawJson: string,
+  profile: ScoringProfile,
+  calculatedAt: string,
+  allowPartial: boolean,
+) {
+  try {
+    const weather = WeatherSchema.safeParse(JSON.parse(weatherRawJson));
+    if (!weather.success) return undefined;
+
+    // Lead time is measured from when the row was originally calculated
+    const touringIndex = calculateTouringIndex(weather.data, profile, {
+      now: parseCalculatedAt(calculatedAt),
+      allowPartial,
+    });
+    return "missingFactors" in touringIndex ? undefined : touringIndex;
+  } catch {
+    return undefined;
+  }
+}
+
+// Rows written before confidence was tracked have a NULL confidence_json
+function storedConfidence(
+  confidenceJson: string | null,
+): ForecastConfidence | null {
+  if (!confidenceJson) return null;
+  try {
+    return JSON.parse(confidenceJson);
+  } catch {
+    return null;
+  }
+}
+
+function storedDaylight(weatherRawJson: string): DaylightWindow | null {
+  try {
+    const weather = WeatherSchema.safeParse(JSON.parse(weatherRawJson));
+    if (!weather.success) return null;
+
+    return getDaylightWindow(weather.data.sunrise, weather.data.sunset);
+  } catch {
+    return null;
+  }
+}
+
+// A partial score is flagged and lists the factors it was calculated without
+function partialScoreFields(omittedFactors: MissingTouringIndexFactor[]) {
+  return omittedFactors.length > 0
+    ? { partial: true, missingFactors: omittedFactors }
+    : { partial: false };
+}
+
+// Percentiles are an enhancement: a failed lookup leaves them out rather
+// than failing the request
+async function loadDistributions(
+  db: D1Database,
+  requestContext: LogContext,
+  prefectureId: number,
+): Promise<ScoreDistribution[]> {
+  try {
+    return await createScoreClimatologyRepository(db).getScoreDistributions(
+      prefectureId,
+      SCORING_RULES_VERSION,
+    );
+  } catch (error) {
+    logger.warn("Score climatology unavailable, omitting percentiles", {
+      ...requestContext,
+      operation: "score_climatology_unavailable",
+      prefectureId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+}
+
+async function lookupPercentile(
+  db: D1Database,
+  requestContext: LogContext,
+  lat: number,
+  lon: number,
+  { date, score }: { date: string; score: number },
+): Promise<ScorePercentile | null> {
+  let prefectureId: number;
+  try {
+    const prefectures =
+      await createTouringIndexRepository(db).getAllPrefectures();
+    prefectureId = findNearestPrefecture(lat, lon, prefectures).id;
+  } catch (error) {
+    logger.warn("Nearest prefecture unavailable, omitting percentile", {
+      ...requestContext,
+      operation: "score_climatology_unavailable",
+      location: { lat, lon },
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+
+  const distributions = await loadDistributions(
+    db,
+    requestContext,
+    prefectureId,
+  );
+  return percentileForDate(distributions, date, score);
+}
+
+function percentileForDate(
+  distributions: ScoreDistribution[],
+  date: string,
+  score: number,
+): ScorePercentile | null {
+  const month = monthOfDate(date);
+  const distribution = distributions.find((d) => d.month === month);
+  return distribution ? scorePercentile(distribution, score) : null;
+}
+
+function convertTouringTemperature(
+  temperature: TouringTemperature,
+  units: UnitSystem,
+): TouringTemperature {
+  return {
+    ...temperature,
+    station: convertTemperature(temperature.station, units),
+    air: convertTemperature(temperature.air, units),
+    apparent: convertTemperature(temperature.apparent, units),
+    cruisingSpeed: convertCruisingSpeed(temperature.cruisingSpeed, units),
+    elevation:
+      temperature.elevation === null
+        ? null
+        : convertElevation(temperature.elevation, units),
+    forecastElevation:
+      temperature.forecastElevation === null
+        ? null
+        : convertElevation(temperature.forecastElevation, units),
+  };
+}
+
+// Express the raw inputs of unit-bearing factors in `units`. The rationale
+// text is already written in them (see getRationaleUnits).
+function convertExplanationInputs(
+  explanation: TouringIndexExplanation,
+  units: UnitSystem,
+): TouringIndexExplanation {
+  const converters = {
+    temperature: convertTemperature,
+    wind: convertWindSpeed,
+    visibility: convertDistance,
+  };
+  const factors = { ...explanation.factors };
+  for (const [factor, convert] of Object.entries(converters) as [
+    keyof typeof converters,
+    (value: number, units: UnitSystem) => number,
+  ][]) {
+    const factorExplanation = factors[factor];
+    if (typeof factorExplanation?.input !== "number") continue;
+    factors[factor] = {
+      ...factorExplanation,
+      input: convert(factorExplanation.input, units),
+    };
+  }
+  return { ...explanation, factors };
+}
+
+// Distributions are built from default-profile scores, so a score is only
+// placed in them when calculated with the default profile's name and
+// cruising speed, whether or not the speed was given explicitly
+function comparableWithClimatology(profile: ScoringProfile): boolean {
+  const defaultProfile = getScoringProfile();
+  return (
+    profile.name === defaultProfile.name &&
+    profile.cruisingSpeed === defaultProfile.cruisingSpeed
+  );
+}
+
+function withCruisingSpeed(
+  profile: ScoringProfile,
+  cruisingSpeed: number | undefined,
+): ScoringProfile {
+  return cruisingSpeed === undefined ? profile : { ...profile, cruisingSpeed };
+}
+
+function currentJstDatetime(): string {
+  return new Date(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone: APP_CONFIG.DEFAULT_TIMEZONE,
+      hour12: false,
+    }).format(new Date()),
+  ).toISOString();
+}
+
+function requireCompleteTouringIndex(
+  touringIndex: TouringIndexResult,
+): CompleteTouringIndex {
+  if ("missingFactors" in touringIndex) {
+    throw new HttpError(
+      HTTP_STATUS.UNPROCESSABLE_ENTITY,
+      "Touring index is unavailable because required weather observations are missing",
+      {
+        code: ERROR_CODES.WEATHER_DATA_INCOMPLETE,
+        details: { missingFactors: touringIndex.missingFactors },
+      },
+    );
+  }
+  return touringIndex;
+}
@@ -5,6 +5,7 @@ import { getWeatherSchema } from "../../dao/weatherSchemas";
 import { createWeatherRepository } from "../../di/container";
 import type { AppEnv } from "../../types/env";
 import { logger } from "../../utils/logger";
+import { convertWeather, getUnitLabels } from "../../utils/unitUtils";
 
 /**
  * Handler for GET /weather
@@ -19,9 +20,10 @@ export async function getWeather(c: Context<AppEnv>) {
     lat: c.req.query("lat"),
     lon: c.req.query("lon"),
     datetime: c.req.query("datetime"),
+    units: c.req.query("units"),
   });
 
-  const { lat, lon } = queryParams;
+  const { lat, lon, units } = queryParams;
   const datetime = queryParams.datetime || new Date().toISOString();
 
   logger.info("Processing weather request", {
@@ -32,7 +34,9 @@ export async function getWeather(c: Context<AppEnv>) {
     datetimeSource: queryParams.datetime ? "provided" : "auto_generated",
   });
 
-  const weatherRepo = createWeatherRepository(c.env.WEATHERAPI_KEY);
+  const weatherRepo = createWeatherRepository(c.env, {
+    onCacheLookup: (status) => c.header("X-Cache", status),
+  });
 
   const weather = await weatherRepo.getWeather(lat, lon, datetime);
 
@@ -49,5 +53,8 @@ export async function getWeather(c: Context<AppEnv>) {
     },
   });
 
-  return c.json(weather, HTTP_STATUS.OK);
+  return c.json(
+    { ...convertWeather(weather, units), units: getUnitLabels(units) },
+    HTTP_STATUS.OK,
+  );
 }
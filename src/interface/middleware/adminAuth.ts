@@ -0,0 +1,24 @@
+// Interface Layer - Admin Authentication Middleware
+
+import type { Context } from "hono";
+import { bearerAuth } from "hono/bearer-auth";
+import { HTTP_STATUS } from "../../constants/httpStatus";
+import { HttpError } from "../../domain/HttpError";
+import type { AppEnv } from "../../types/env";
+
+/**
+ * Require `Authorization: Bearer <ADMIN_TOKEN>` on admin routes. Without an
+ * ADMIN_TOKEN secret the admin routes are disabled and answer 404, as if
+ * they did not exist.
+ */
+export async function adminAuthMiddleware(
+  c: Context<AppEnv>,
+  next: () => Promise<void>,
+) {
+  const token = c.env.ADMIN_TOKEN;
+  if (!token) {
+    throw new HttpError(HTTP_STATUS.NOT_FOUND, "Not Found");
+  }
+
+  return bearerAuth<AppEnv>({ token })(c, next);
+}
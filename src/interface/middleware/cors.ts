@@ -11,5 +11,6 @@ export const corsMiddleware = cors({
   origin: ALLOWED_ORIGINS,
   allowMethods: ["GET", "POST", "OPTIONS"],
   allowHeaders: ["Content-Type"],
+  exposeHeaders: ["X-Cache"],
   maxAge: 86400,
 });
@@ -0,0 +1,145 @@
+import { describe, expect, mock, test } from "bun:test";
+import { HTTP_STATUS } from "../constants/httpStatus";
+import { SCORING_RULES_VERSION } from "../domain/ScoreRules";
+
+const { app } = await import("./router");
+
+const staleRow = {
+  id: 1,
+  prefecture_id: 13,
+  date: "2024-06-03",
+  score: 90,
+  weather_factors_json: "{}",
+  weather_raw_json: JSON.stringify({
+    datetime: "2024-06-03T03:00:00Z",
+    condition: "clear",
+    temperature: 21.5,
+    windSpeed: 2.5,
+    humidity: 50,
+    visibility: 20,
+    precipitationProbability: 0,
+    uvIndex: 3,
+    airQuality: "low",
+  }),
+  confidence_json: null,
+  partial: 0,
+  rules_version: null,
+  calculated_at: "2024-06-01 19:00:00",
+};
+
+function createDb() {
+  const bind = mock(() => ({
+    all: async () => ({ results: [staleRow] }),
+    first: async () => ({ count: 0 }),
+  }));
+  const batch = mock(async (statements: unknown[]) =>
+    statements.map(() => ({ success: true })),
+  );
+  return { db: { prepare: () => ({ bind }), batch }, bind, batch };
+}
+
+function postRecompute(
+  env: Record<string, unknown>,
+  token?: string,
+  body = JSON.stringify({ limit: 10 }),
+  contentType = "application/json",
+) {
+  return app.request(
+    "http://localhost/api/v1/admin/touring-index/recompute",
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": contentType,
+        ...(token && { Authorization: `Bearer ${token}` }),
+      },
+      body,
+    },
+    { WEATHERAPI_KEY: "test-key", ...env },
+  );
+}
+
+describe("POST /api/v1/admin/touring-index/recompute", () => {
+  test("is hidden when no admin token is configured", async () => {
+    const { db } = createDb();
+    const res = await postRecompute({ DB: db }, "anything");
+
+    expect(res.status).toBe(HTTP_STATUS.NOT_FOUND);
+  });
+
+  test("rejects a wrong bearer token", async () => {
+    const { db, batch } = createDb();
+    const res = await postRecompute(
+      { DB: db, ADMIN_TOKEN: "secret" },
+      "not-the-secret",
+    );
+
+    expect(res.status).toBe(HTTP_STATUS.UNAUTHORIZED);
+    expect(batch).not.toHaveBeenCalled();
+  });
+
+  test("recomputes stale rows with the admin token", async () => {
+    const { db, batch } = createDb();
+    const res = await postRecompute(
+      { DB: db, ADMIN_TOKEN: "secret" },
+      "secret",
+    );
+    const body = await res.json();
+
+    expect(res.status).toBe(HTTP_STATUS.OK);
+    expect(body).toEqual({
+      rulesVersion: SCORING_RULES_VERSION,
+      processed: 1,
+      recomputed: 1,
+      failed: 0,
+      errors: [],
+      remaining: 0,
+      next: null,
+    });
+    expect(batch).toHaveBeenCalledTimes(1);
+  });
+
+  test("rejects an invalid body with the validation error body", async () => {
+    const { db, batch } = createDb();
+    const res = await postRecompute(
+      { DB: db, ADMIN_TOKEN: "secret" },
+      "secret",
+      JSON.stringify({ limit: "abc" }),
+    );
+    const body = await res.json();
+
+    expect(res.status).toBe(HTTP_STATUS.BAD_REQUEST);
+    expect(body).toEqual({
+      error: "Invalid parameters",
+      details: [expect.stringMatching(/^limit: /)],
+      requestId: expect.any(String),
+    });
+    expect(batch).not.toHaveBeenCalled();
+  });
+
+  test("rejects a body that is not JSON", async () => {
+    const { db, batch } = createDb();
+    const jsonRes = await postRecompute(
+      { DB: db, ADMIN_TOKEN: "secret" },
+      "secret",
+      "limit=10",
+    );
+    const textRes = await postRecompute(
+      { DB: db, ADMIN_TOKEN: "secret" },
+      "secret",
+      "limit=10",
+      "text/plain",
+    );
+
+    expect(jsonRes.status).toBe(HTTP_STATUS.BAD_REQUEST);
+    expect(await jsonRes.json()).toEqual({
+      error: "Malformed JSON in request body",
+      requestId: expect.any(String),
+    });
+    expect(textRes.status).toBe(HTTP_STATUS.BAD_REQUEST);
+    expect(await textRes.json()).toEqual({
+      error: "Request body must be valid JSON",
+      requestId: expect.any(String),
+    });
+    expect(batch).not.toHaveBeenCalled();
+  });
+});
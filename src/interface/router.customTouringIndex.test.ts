@@ -0,0 +1,100 @@
+import { beforeEach, describe, expect, mock, test } from "bun:test";
+import { HTTP_STATUS } from "../constants/httpStatus";
+import { weatherApiForecastResponse } from "./__fixtures__/weatherApiForecast";
+
+const mockFetch = mock();
+
+globalThis.fetch = mockFetch as unknown as typeof globalThis.fetch;
+
+const { app } = await import("./router");
+
+const testEnv = {
+  WEATHERAPI_KEY: "test-key",
+  DB: {} as D1Database,
+};
+
+function postCustom(body: unknown) {
+  return app.request(
+    "http://localhost/api/v1/touring-index/custom",
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: typeof body === "string" ? body : JSON.stringify(body),
+    },
+    testEnv,
+  );
+}
+
+describe("POST /api/v1/touring-index/custom", () => {
+  beforeEach(() => {
+    process.env.WEATHERAPI_KEY = "test-key";
+    mockFetch.mockReset();
+    mockFetch.mockImplementation(() =>
+      Promise.resolve(weatherApiForecastResponse({ temp_c: 21.5 })),
+    );
+  });
+
+  test("echoes the effective weights next to the rescaled breakdown", async () => {
+    const res = await postCustom({
+      lat: 35.6762,
+      lon: 139.6503,
+      datetime: "2026-02-09T12:00:00+09:00",
+      weights: { wind: 65 },
+    });
+    const body = (await res.json()) as any;
+
+    expect(res.status).toBe(HTTP_STATUS.OK);
+    expect(body.profile).toBe("standard");
+    expect(body.weights.wind).toBe(43.33);
+    // 10 m/s scores 0 wind points, so the heavily weighted wind drags the
+    // index down to the remaining 56.67 points.
+    expect(body.factors.wind).toBe(0);
+    expect(body.score).toBe(57);
+  });
+
+  test("rejects a weight distribution dominated by one factor", async () => {
+    const res = await postCustom({
+      lat: 35.6762,
+      lon: 139.6503,
+      weights: { weather: 100, temperature: 0, wind: 0 },
+    });
+
+    const body = (await res.json()) as any;
+
+    expect(res.status).toBe(HTTP_STATUS.BAD_REQUEST);
+    expect(body).toEqual({
+      error: "Invalid parameters",
+      details: ["weather: weather must not exceed 60% of the total weight"],
+      requestId: expect.any(String),
+    });
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  test("rejects an invalid body with the validation error body", async () => {
+    const res = await postCustom({ lat: "abc", lon: 139.6503 });
+    const body = (await res.json()) as any;
+
+    expect(res.status).toBe(HTTP_STATUS.BAD_REQUEST);
+    expect(body).toEqual({
+      error: "Invalid parameters",
+      details: expect.arrayContaining([
+        expect.stringMatching(/^lat: /),
+        expect.stringMatching(/^weights: /),
+      ]),
+      requestId: expect.any(String),
+    });
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  test("rejects a body that is not JSON", async () => {
+    const res = await postCustom("{lat: 35.6762");
+    const body = (await res.json()) as any;
+
+    expect(res.status).toBe(HTTP_STATUS.BAD_REQUEST);
+    expect(body).toEqual({
+      error: "Malformed JSON in request body",
+      requestId: expect.any(String),
+    });
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
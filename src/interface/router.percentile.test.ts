@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, mock, test } from "bun:test";
+import { HTTP_STATUS } from "../constants/httpStatus";
+import { DEFAULT_CRUISING_SPEED_KMH } from "../domain/ApparentTemperature";
+import { weatherApiForecastResponse } from "./__fixtures__/weatherApiForecast";
+
+const mockFetch = mock();
+
+globalThis.fetch = mockFetch as unknown as typeof globalThis.fetch;
+
+const { app } = await import("./router");
+
+// Tokyo with 40 February days of history scoring 0-99
+const climatologyRow = {
+  prefecture_id: 13,
+  month: 2,
+  rules_version: 1,
+  sample_count: 40,
+  histogram_json: JSON.stringify(
+    Array.from({ length: 101 }, (_, score) => (score < 40 ? 1 : 0)),
+  ),
+};
+
+const testEnv = {
+  WEATHERAPI_KEY: "test-key",
+  DB: {
+    prepare: () => ({
+      all: async () => ({
+        results: [
+          {
+            id: 13,
+            name_ja: "東京都",
+            name_en: "Tokyo",
+            latitude: 35.6895,
+            longitude: 139.6917,
+          },
+        ],
+      }),
+      bind: () => ({ all: async () => ({ results: [climatologyRow] }) }),
+    }),
+  } as unknown as D1Database,
+};
+
+const query = "lat=35.6762&lon=139.6503&datetime=2026-02-09T12:00:00%2B09:00";
+
+async function getPercentile(extraQuery = "") {
+  const res = await app.request(
+    `/api/v1/touring-index?${query}${extraQuery}`,
+    {},
+    testEnv,
+  );
+  expect(res.status).toBe(HTTP_STATUS.OK);
+  return ((await res.json()) as any).percentile;
+}
+
+describe("touring index percentile", () => {
+  beforeEach(() => {
+    process.env.WEATHERAPI_KEY = "test-key";
+    mockFetch.mockReset();
+    mockFetch.mockImplementation(() =>
+      Promise.resolve(weatherApiForecastResponse()),
+    );
+  });
+
+  test("places a default-profile score in the month's history", async () => {
+    expect(await getPercentile()).toMatchObject({
+      month: 2,
+      sampleCount: 40,
+    });
+  });
+
+  test("keeps the percentile when the default cruising speed is given", async () => {
+    expect(
+      await getPercentile(`&cruisingSpeed=${DEFAULT_CRUISING_SPEED_KMH}`),
+    ).toEqual(await getPercentile());
+  });
+
+  test("withholds it for scores the history cannot be compared with", async () => {
+    expect(await getPercentile("&cruisingSpeed=120")).toBeNull();
+    expect(await getPercentile("&profile=sport")).toBeNull();
+  });
+});
@@ -0,0 +1,127 @@
+import { beforeEach, describe, expect, mock, test } from "bun:test";
+import { HTTP_STATUS } from "../constants/httpStatus";
+import { addDaysToDateString, getJstDateString } from "../utils/dateUtils";
+
+const mockFetch = mock();
+
+globalThis.fetch = mockFetch as unknown as typeof globalThis.fetch;
+
+const { app } = await import("./router");
+
+const testEnv = {
+  WEATHERAPI_KEY: "test-key",
+  DB: {} as D1Database,
+};
+
+const today = getJstDateString();
+const day = (offset: number) => addDaysToDateString(today, offset);
+
+// Rain on the first three days, clear skies afterwards
+function forecastDay(date: string, offset: number) {
+  const rainy = offset < 3;
+  return {
+    date,
+    day: {
+      avgtemp_c: 21.5,
+      maxwind_kph: 9,
+      avghumidity: 50,
+      avgvis_km: 20,
+      uv: 3,
+      daily_chance_of_rain: rainy ? 90 : 0,
+      condition: { code: rainy ? 1189 : 1000 },
+    },
+    air_quality: { "us-epa-index": 1 },
+    hour: [],
+  };
+}
+
+function postTrip(body: unknown) {
+  return app.request(
+    "http://localhost/api/v1/touring-index/trip",
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: typeof body === "string" ? body : JSON.stringify(body),
+    },
+    testEnv,
+  );
+}
+
+describe("POST /api/v1/touring-index/trip", () => {
+  beforeEach(() => {
+    process.env.WEATHERAPI_KEY = "test-key";
+    mockFetch.mockReset();
+    mockFetch.mockImplementation((input: string | URL) => {
+      const days = Number(new URL(String(input)).searchParams.get("days"));
+      return Promise.resolve(
+        new Response(
+          JSON.stringify({
+            forecast: {
+              forecastday: Array.from({ length: days }, (_, offset) =>
+                forecastDay(day(offset), offset),
+              ),
+            },
+          }),
+          { status: 200 },
+        ),
+      );
+    });
+  });
+
+  test("scores each leg and suggests moving the trip out of the rain", async () => {
+    const res = await postTrip({
+      legs: [
+        { lat: 35.6762, lon: 139.6503, date: day(1) },
+        { lat: 35.6762, lon: 139.6503, date: day(2) },
+      ],
+      shiftDays: 2,
+    });
+    const body = (await res.json()) as any;
+
+    expect(res.status).toBe(HTTP_STATUS.OK);
+    // Both legs share a location, so one forecast covers the whole window
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(body.legs.map((leg: any) => leg.date)).toEqual([day(1), day(2)]);
+    expect(body.weakestLeg.index).toBe(0);
+    expect(body.shiftSuggestions[0]).toMatchObject({
+      shiftDays: 2,
+      startDate: day(3),
+      endDate: day(4),
+    });
+    expect(body.shiftSuggestions[0].score).toBeGreaterThan(body.score);
+  });
+
+  test("rejects trips that start in the past", async () => {
+    const res = await postTrip({
+      legs: [{ lat: 35.6762, lon: 139.6503, date: day(-1) }],
+    });
+
+    expect(res.status).toBe(HTTP_STATUS.BAD_REQUEST);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  test("rejects an invalid body with the validation error body", async () => {
+    const res = await postTrip({ legs: "x" });
+    const body = (await res.json()) as any;
+
+    expect(res.status).toBe(HTTP_STATUS.BAD_REQUEST);
+    expect(body).toEqual({
+      error: "Invalid parameters",
+      details: [expect.stringMatching(/^legs: /)],
+      requestId: expect.any(String),
+    });
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  test("rejects a body that is not JSON", async () => {
+    const res = await postTrip("legs=x");
+    const body = (await res.json()) as any;
+
+    expect(res.status).toBe(HTTP_STATUS.BAD_REQUEST);
+    expect(body).toEqual({
+      error: "Malformed JSON in request body",
+      requestId: expect.any(String),
+    });
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
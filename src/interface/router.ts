@@ -10,31 +10,49 @@ import { HTTP_STATUS } from "../constants/httpStatus";
 import { HttpError } from "../domain/HttpError";
 import type { AppEnv } from "../types/env";
 import { logger } from "../utils/logger";
+import { postRecomputeTouringIndex } from "./handlers/adminHandler";
 import { healthCheck, readinessCheck } from "./handlers/healthHandler";
 import { getPrefectures } from "./handlers/prefectureHandler";
 import {
+  getHourlyTouringIndex,
   getTouringIndex,
   getTouringIndexHistory,
+  postCustomTouringIndex,
+  postTripTouringIndex,
 } from "./handlers/touringIndexHandler";
 import { getWeather } from "./handlers/weatherHandler";
+import { adminAuthMiddleware } from "./middleware/adminAuth";
 import { corsMiddleware } from "./middleware/cors";
 import { loggingMiddleware } from "./middleware/logging";
 import {
+  adminRecomputeTouringIndexRoute,
   healthRoute,
   prefectureListRoute,
   readinessRoute,
+  touringIndexCustomRoute,
   touringIndexHistoryRoute,
+  touringIndexHourlyRoute,
   touringIndexRoute,
+  touringIndexTripRoute,
   weatherRoute,
 } from "./routes/openapi";
 
-export const app = new OpenAPIHono<AppEnv>();
+// Route schema failures are thrown to app.onError like the handlers' own
+// validation errors, so every invalid request gets the same error body
+export const app = new OpenAPIHono<AppEnv>({
+  defaultHook: (result) => {
+    if (!result.success) {
+      throw result.error;
+    }
+  },
+});
 
 // Apply global middleware
 app.use("*", corsMiddleware);
 app.use("*", secureHeaders());
 app.use("*", requestId());
 app.use("*", loggingMiddleware);
+app.use("/api/v1/admin/*", adminAuthMiddleware);
 
 // Global error handler — single source of truth for error → response conversion.
 // Hono's compose() catches handler errors and calls app.onError, then resolves
@@ -69,9 +87,32 @@ app.onError((error, c) => {
     );
   }
 
-  // Hono built-in HTTPException (thrown by bearerAuth, jwt, etc.)
+  // Hono built-in HTTPException (thrown by bearerAuth, jwt, etc.). Those
+  // without a prepared response, such as the body validator's malformed JSON
+  // error, are answered in the usual JSON shape.
   if (error instanceof HTTPException) {
-    return error.getResponse();
+    if (error.res) {
+      return error.getResponse();
+    }
+
+    logger.warn(
+      "Client error",
+      {
+        ...requestContext,
+        operation: "client_error",
+        statusCode: error.status,
+        errorMessage: error.message,
+      },
+      error,
+    );
+
+    return c.json(
+      {
+        error: error.message,
+        requestId: c.get("requestId"),
+      },
+      error.status,
+    );
   }
 
   if (error instanceof HttpError) {
@@ -172,8 +213,17 @@ app.openapi(healthRoute, healthCheck);
 app.openapi(readinessRoute, readinessCheck);
 app.openapi(weatherRoute, getWeather);
 app.openapi(touringIndexRoute, getTouringIndex);
+app.openapi(touringIndexCustomRoute, postCustomTouringIndex);
+app.openapi(touringIndexTripRoute, postTripTouringIndex);
+app.openapi(touringIndexHourlyRoute, getHourlyTouringIndex);
 app.openapi(touringIndexHistoryRoute, getTouringIndexHistory);
 app.openapi(prefectureListRoute, getPrefectures);
+app.openapi(adminRecomputeTouringIndexRoute, postRecomputeTouringIndex);
+
+app.openAPIRegistry.registerComponent("securitySchemes", "AdminBearer", {
+  type: "http",
+  scheme: "bearer",
+});
 
 // OpenAPI documentation endpoint
 app.doc("/specification", {
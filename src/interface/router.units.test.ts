@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, mock, test } from "bun:test";
+import { HTTP_STATUS } from "../constants/httpStatus";
+import { weatherApiForecastResponse } from "./__fixtures__/weatherApiForecast";
+
+const mockFetch = mock();
+
+globalThis.fetch = mockFetch as unknown as typeof globalThis.fetch;
+
+const { app } = await import("./router");
+
+const testEnv = {
+  WEATHERAPI_KEY: "test-key",
+  DB: {} as D1Database,
+};
+
+const query = "lat=35.6762&lon=139.6503&datetime=2026-02-09T12:00:00%2B09:00";
+
+describe("units query parameter", () => {
+  beforeEach(() => {
+    process.env.WEATHERAPI_KEY = "test-key";
+    mockFetch.mockReset();
+    mockFetch.mockImplementation(() =>
+      Promise.resolve(weatherApiForecastResponse()),
+    );
+  });
+
+  test("defaults weather to metric and declares the units", async () => {
+    const res = await app.request(`/api/v1/weather?${query}`, {}, testEnv);
+    const body = (await res.json()) as any;
+
+    expect(res.status).toBe(HTTP_STATUS.OK);
+    expect(body.temperature).toBe(20);
+    expect(body.windSpeed).toBe(10);
+    expect(body.units).toMatchObject({ system: "metric", windSpeed: "m/s" });
+  });
+
+  test("converts weather to imperial", async () => {
+    const res = await app.request(
+      `/api/v1/weather?${query}&units=imperial`,
+      {},
+      testEnv,
+    );
+    const body = (await res.json()) as any;
+
+    expect(res.status).toBe(HTTP_STATUS.OK);
+    expect(body.temperature).toBe(68);
+    expect(body.windSpeed).toBe(22.4);
+    expect(body.visibility).toBe(12.4);
+    expect(body.units).toMatchObject({ system: "imperial", temperature: "°F" });
+  });
+
+  test("converts touring index values but not the score", async () => {
+    const metric = (await (
+      await app.request(`/api/v1/touring-index?${query}`, {}, testEnv)
+    ).json()) as any;
+    const res = await app.request(
+      `/api/v1/touring-index?${query}&units=metric_kmh`,
+      {},
+      testEnv,
+    );
+    const body = (await res.json()) as any;
+
+    expect(res.status).toBe(HTTP_STATUS.OK);
+    expect(body.score).toBe(metric.score);
+    expect(body.explanation.factors.wind.input).toBe(36);
+    expect(body.temperature).toEqual(metric.temperature);
+    expect(body.units.windSpeed).toBe("km/h");
+  });
+
+  test("writes the rationale in the requested units", async () => {
+    const res = await app.request(
+      `/api/v1/touring-index?${query}&units=imperial`,
+      {},
+      testEnv,
+    );
+    const body = (await res.json()) as any;
+    const { temperature, wind } = body.explanation.factors;
+
+    expect(res.status).toBe(HTTP_STATUS.OK);
+    expect(wind.input).toBe(22.4);
+    expect(wind.rationale.en).toContain("Wind 22.4 mph");
+    expect(temperature.rationale.en).toContain(`${temperature.input}°F`);
+    expect(temperature.rationale.en).not.toContain("°C");
+  });
+
+  test("rejects an unknown unit system", async () => {
+    const res = await app.request(
+      `/api/v1/weather?${query}&units=furlongs`,
+      {},
+      testEnv,
+    );
+
+    expect(res.status).toBe(HTTP_STATUS.BAD_REQUEST);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
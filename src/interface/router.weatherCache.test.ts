@@ -0,0 +1,73 @@
+import { beforeEach, describe, expect, mock, test } from "bun:test";
+import { HTTP_STATUS } from "../constants/httpStatus";
+import { weatherApiForecastResponse } from "./__fixtures__/weatherApiForecast";
+
+const mockFetch = mock();
+
+globalThis.fetch = mockFetch as unknown as typeof globalThis.fetch;
+
+const { app } = await import("./router");
+
+function createTestEnv() {
+  const storage = new Map<string, string>();
+  return {
+    WEATHERAPI_KEY: "test-key",
+    DB: {} as D1Database,
+    WEATHER_CACHE: {
+      get: async (key: string) => storage.get(key) ?? null,
+      put: async (key: string, value: string) => {
+        storage.set(key, value);
+      },
+    } as unknown as KVNamespace,
+  };
+}
+
+const query = "lat=35.6762&lon=139.6503&datetime=2026-02-09T12:00:00%2B09:00";
+
+describe("weather cache", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    mockFetch.mockImplementation(() =>
+      Promise.resolve(weatherApiForecastResponse()),
+    );
+  });
+
+  test("reports a miss and then a hit for the same weather lookup", async () => {
+    const testEnv = createTestEnv();
+
+    const first = await app.request(`/api/v1/weather?${query}`, {}, testEnv);
+    const second = await app.request(`/api/v1/weather?${query}`, {}, testEnv);
+
+    expect(first.status).toBe(HTTP_STATUS.OK);
+    expect(first.headers.get("X-Cache")).toBe("MISS");
+    expect(second.headers.get("X-Cache")).toBe("HIT");
+    expect(await second.json()).toEqual(await first.json());
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  test("shares cached weather between the weather and touring index endpoints", async () => {
+    const testEnv = createTestEnv();
+
+    await app.request(`/api/v1/weather?${query}`, {}, testEnv);
+    const res = await app.request(
+      `/api/v1/touring-index?${query}`,
+      {},
+      testEnv,
+    );
+
+    expect(res.status).toBe(HTTP_STATUS.OK);
+    expect(res.headers.get("X-Cache")).toBe("HIT");
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  test("sends no X-Cache header without a cache binding", async () => {
+    const res = await app.request(
+      `/api/v1/weather?${query}`,
+      {},
+      { WEATHERAPI_KEY: "test-key", DB: {} as D1Database },
+    );
+
+    expect(res.status).toBe(HTTP_STATUS.OK);
+    expect(res.headers.get("X-Cache")).toBeNull();
+  });
+});
@@ -1,11 +1,20 @@
 import { createRoute, z } from "@hono/zod-openapi";
+import { ScoringProfileNameSchema } from "../../domain/ScoringProfile";
+import { UnitSystemSchema } from "../../utils/unitUtils";
 import {
+  CustomTouringIndexRequestSchema,
+  CustomTouringIndexResponseSchema,
   ErrorResponseSchema,
   HealthResponseSchema,
+  HourlyTouringIndexResponseSchema,
   PrefectureListResponseSchema,
   ReadinessResponseSchema,
+  RecomputeTouringIndexRequestSchema,
+  RecomputeTouringIndexResponseSchema,
   TouringIndexHistoryResponseSchema,
   TouringIndexResponseSchema,
+  TripTouringIndexRequestSchema,
+  TripTouringIndexResponseSchema,
   WeatherResponseSchema,
 } from "./schemas";
 
@@ -79,6 +88,11 @@ export const weatherRoute = createRoute({
         example: "2024-01-01T12:00:00Z",
         description: "ISO 8601 datetime (optional, defaults to current time)",
       }),
+      units: z.enum(UnitSystemSchema.options).optional().openapi({
+        example: "imperial",
+        description:
+          "Unit system for measured values: metric (°C, m/s, km, mm), metric_kmh (wind in km/h) or imperial (°F, mph, mi, in). Optional, defaults to metric",
+      }),
     }),
   },
   responses: {
@@ -131,6 +145,30 @@ export const touringIndexRoute = createRoute({
         example: "2024-01-01T12:00:00Z",
         description: "ISO 8601 datetime (optional, defaults to current time)",
       }),
+      profile: z.enum(ScoringProfileNameSchema.options).optional().openapi({
+        example: "touring",
+        description: "Rider scoring profile (optional, defaults to standard)",
+      }),
+      cruisingSpeed: z.string().optional().openapi({
+        example: "80",
+        description:
+          "Cruising speed in km/h (0-200) for the apparent temperature (optional, defaults to the profile's)",
+      }),
+      elevation: z.string().optional().openapi({
+        example: "1500",
+        description:
+          "Route elevation in m (-500 to 9000); the forecast temperature is corrected to it at 6.5°C per 1,000 m when the forecast point's elevation is known (optional)",
+      }),
+      allowPartial: z.enum(["true", "false"]).optional().openapi({
+        example: "true",
+        description:
+          "Score over the available factors when visibility or air quality is missing instead of answering 422 (optional, defaults to false)",
+      }),
+      units: z.enum(UnitSystemSchema.options).optional().openapi({
+        example: "imperial",
+        description:
+          "Unit system for measured values: metric (°C, m/s, km, mm), metric_kmh (wind in km/h) or imperial (°F, mph, mi, in). Optional, defaults to metric",
+      }),
     }),
   },
   responses: {
@@ -159,7 +197,187 @@ export const touringIndexRoute = createRoute({
       },
     },
     422: {
-      description: "Required weather observations are unavailable",
+      description:
+        "Required weather observations are unavailable and allowPartial is not set",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+// Custom-weight touring index route
+export const touringIndexCustomRoute = createRoute({
+  method: "post",
+  path: "/api/v1/touring-index/custom",
+  summary: "Calculate touring index with custom weights",
+  description:
+    "Calculate touring suitability index with caller-supplied factor weights. Weights are validated and rescaled so the score stays within 0-100",
+  tags: ["Touring Index"],
+  request: {
+    body: {
+      required: true,
+      content: {
+        "application/json": {
+          schema: CustomTouringIndexRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Touring index calculated successfully",
+      content: {
+        "application/json": {
+          schema: CustomTouringIndexResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: "Invalid request body or weight distribution",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: "Weather data is unavailable for specified coordinates/date",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    422: {
+      description:
+        "Required weather observations are unavailable and allowPartial is not set",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+// Multi-day trip touring index route
+export const touringIndexTripRoute = createRoute({
+  method: "post",
+  path: "/api/v1/touring-index/trip",
+  summary: "Score a multi-day trip",
+  description:
+    "Score an ordered itinerary of (location, date) legs, report the aggregate and weakest leg, and suggest shifting the whole trip by up to shiftDays days within the forecast window to improve the aggregate",
+  tags: ["Touring Index"],
+  request: {
+    body: {
+      required: true,
+      content: {
+        "application/json": {
+          schema: TripTouringIndexRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Trip scored successfully",
+      content: {
+        "application/json": {
+          schema: TripTouringIndexResponseSchema,
+        },
+      },
+    },
+    400: {
+      description:
+        "Invalid request body, or trip dates outside the forecast window",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    422: {
+      description:
+        "Required weather observations are unavailable for a leg and allowPartial is not set",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+// Hourly touring index route
+export const touringIndexHourlyRoute = createRoute({
+  method: "get",
+  path: "/api/v1/touring-index/hourly",
+  summary: "Get hourly touring index",
+  description:
+    "Score every hour of a day and return the longest contiguous window of hours at or above the threshold",
+  tags: ["Touring Index"],
+  request: {
+    query: z.object({
+      lat: z.string().openapi({
+        example: "35.6762",
+        description: "Latitude (-90 to 90)",
+      }),
+      lon: z.string().openapi({
+        example: "139.6503",
+        description: "Longitude (-180 to 180)",
+      }),
+      date: z.string().optional().openapi({
+        example: "2024-06-01",
+        description: "Date in YYYY-MM-DD format (optional, defaults to today)",
+      }),
+      profile: z.enum(ScoringProfileNameSchema.options).optional().openapi({
+        example: "touring",
+        description: "Rider scoring profile (optional, defaults to standard)",
+      }),
+      cruisingSpeed: z.string().optional().openapi({
+        example: "80",
+        description:
+          "Cruising speed in km/h (0-200) for the apparent temperature (optional, defaults to the profile's)",
+      }),
+      elevation: z.string().optional().openapi({
+        example: "1500",
+        description:
+          "Route elevation in m (-500 to 9000); the forecast temperature is corrected to it at 6.5°C per 1,000 m when the forecast point's elevation is known (optional)",
+      }),
+      allowPartial: z.enum(["true", "false"]).optional().openapi({
+        example: "true",
+        description:
+          "Score over the available factors when visibility or air quality is missing instead of answering 422 (optional, defaults to false)",
+      }),
+      threshold: z.string().optional().openapi({
+        example: "60",
+        description:
+          "Minimum hourly score (0-100) for the riding window (optional, defaults to 60)",
+      }),
+    }),
+  },
+  responses: {
+    200: {
+      description: "Hourly touring index calculated successfully",
+      content: {
+        "application/json": {
+          schema: HourlyTouringIndexResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: "Invalid query parameters",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: "Weather data is unavailable for specified coordinates/date",
       content: {
         "application/json": {
           schema: ErrorResponseSchema,
@@ -202,6 +420,11 @@ export const touringIndexHistoryRoute = createRoute({
         description:
           "Prefecture ID (1-47, optional, auto-detected from coordinates if not provided)",
       }),
+      profile: z.enum(ScoringProfileNameSchema.options).optional().openapi({
+        example: "touring",
+        description:
+          "Rider scoring profile (optional, defaults to standard). Stored scores are re-derived from the recorded weather for non-default profiles",
+      }),
     }),
   },
   responses: {
@@ -258,3 +481,53 @@ export const prefectureListRoute = createRoute({
     },
   },
 });
+
+// Admin recomputation route
+export const adminRecomputeTouringIndexRoute = createRoute({
+  method: "post",
+  path: "/api/v1/admin/touring-index/recompute",
+  summary: "Recompute stored touring indexes",
+  description:
+    "Re-derive stored scores calculated under an older scoring rules version from their stored raw weather, without calling the weather provider. Processes up to `limit` rows per call; repeat while `remaining` is above `failed`. Requires the ADMIN_TOKEN bearer token",
+  tags: ["Admin"],
+  security: [{ AdminBearer: [] }],
+  request: {
+    body: {
+      required: false,
+      content: {
+        "application/json": {
+          schema: RecomputeTouringIndexRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Recomputation completed",
+      content: {
+        "application/json": {
+          schema: RecomputeTouringIndexResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: "Invalid request body",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    401: {
+      description: "Missing or invalid bearer token",
+    },
+    404: {
+      description: "Admin routes are disabled (ADMIN_TOKEN is not configured)",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+});
@@ -1,5 +1,9 @@
 import { z } from "@hono/zod-openapi";
+import { HazardSeveritySchema, HazardTypeSchema } from "../../domain/Hazard";
+import { ScoringProfileNameSchema } from "../../domain/ScoringProfile";
 import { WeatherConditionSchema } from "../../domain/Weather";
+import { WeatherAlertSeveritySchema } from "../../domain/WeatherAlert";
+import { UnitSystemSchema } from "../../utils/unitUtils";
 
 // === Shared schemas ===
 
@@ -44,6 +48,11 @@ export const ReadinessResponseSchema = z
         finishedAt: z.string().openapi({ example: "2024-01-01T04:05:00.000Z" }),
         expectedCount: z.number().openapi({ example: 658 }),
         committedCount: z.number().openapi({ example: 658 }),
+        partialScoreCount: z.number().openapi({
+          example: 0,
+          description:
+            "Committed rows scored without visibility or air quality (partial scoring)",
+        }),
       })
       .nullable()
       .openapi({ description: "The most recently recorded scheduled run" }),
@@ -53,6 +62,70 @@ export const ReadinessResponseSchema = z
   })
   .openapi("ReadinessResponse");
 
+export const UnitLabelsSchema = z
+  .object({
+    system: z.enum(UnitSystemSchema.options).openapi({ example: "metric" }),
+    temperature: z.enum(["°C", "°F"]).openapi({ example: "°C" }),
+    windSpeed: z.enum(["m/s", "km/h", "mph"]).openapi({ example: "m/s" }),
+    cruisingSpeed: z.enum(["km/h", "mph"]).openapi({ example: "km/h" }),
+    visibility: z.enum(["km", "mi"]).openapi({ example: "km" }),
+    precipitation: z.enum(["mm", "in"]).openapi({ example: "mm" }),
+    elevation: z.enum(["m", "ft"]).openapi({ example: "m" }),
+  })
+  .openapi("UnitLabels", {
+    description: "Units the response's measured values are expressed in",
+  });
+
+export const WeatherAlertSchema = z
+  .object({
+    event: z.string().openapi({ example: "Heavy rain warning" }),
+    headline: z
+      .string()
+      .optional()
+      .openapi({ example: "Heavy rain warning for Hakone" }),
+    severity: z
+      .enum(WeatherAlertSeveritySchema.options)
+      .openapi({ example: "severe" }),
+    areas: z.array(z.string()).openapi({ example: ["Hakone"] }),
+    effective: z.string().openapi({ example: "2024-06-01T09:00:00+09:00" }),
+    expires: z.string().openapi({ example: "2024-06-01T21:00:00+09:00" }),
+  })
+  .openapi("WeatherAlert", {
+    description:
+      "Official warning in effect; severe and extreme warnings cap the score at 30",
+  });
+
+const WeatherProviderSchema = z.string().optional().openapi({
+  example: "weatherapi",
+  description:
+    "Weather provider that served the forecast, 'weatherapi' or 'open-meteo', or 'ensemble' for a blend",
+});
+
+export const WeatherEnsembleSchema = z
+  .object({
+    providers: z.array(z.string()).openapi({
+      example: ["weatherapi", "open-meteo"],
+      description: "Providers blended into the forecast, in priority order",
+    }),
+    disagreement: z
+      .object({
+        temperature: z.number().openapi({ example: 1.4 }),
+        windSpeed: z.number().openapi({ example: 0.8 }),
+        humidity: z.number().openapi({ example: 6 }),
+        precipitationProbability: z.number().openapi({ example: 20 }),
+        condition: z.number().openapi({
+          example: 0.5,
+          description:
+            "Share (0-1) of providers whose condition lost the majority vote",
+        }),
+      })
+      .openapi({
+        description:
+          "Spread (max - min) between providers for each blended field, in the response units",
+      }),
+  })
+  .openapi("WeatherEnsemble");
+
 export const WeatherResponseSchema = z
   .object({
     datetime: z.string().openapi({ example: "2024-01-01T12:00:00Z" }),
@@ -61,22 +134,236 @@ export const WeatherResponseSchema = z
       .openapi({ example: "clear" }),
     temperature: z.number().openapi({ example: 25.5 }),
     windSpeed: z.number().openapi({ example: 5.2 }),
+    windGust: z
+      .number()
+      .optional()
+      .openapi({ example: 9.4, description: "Gust speed in m/s" }),
+    windDirection: z.number().optional().openapi({
+      example: 225,
+      description: "Direction the wind blows from, in degrees (0-360)",
+    }),
     humidity: z.number().openapi({ example: 60 }),
     visibility: z.number().optional().openapi({ example: 10 }),
     precipitationProbability: z.number().openapi({ example: 20 }),
+    precipitation: z
+      .number()
+      .optional()
+      .openapi({ example: 0.4, description: "Precipitation amount in mm" }),
+    recentPrecipitation: z.number().optional().openapi({
+      example: 3.5,
+      description:
+        "Rainfall in mm over the preceding 12 hours, used for road wetness",
+    }),
     uvIndex: z.number().openapi({ example: 5 }),
-    airQuality: z
-      .enum(["low", "medium", "high"])
+    airQuality: z.enum(["low", "medium", "high"]).optional().openapi({
+      example: "low",
+      description:
+        "Legacy level from the US EPA index (1 low, 2 medium, 3+ high)",
+    }),
+    airQualityComponents: z
+      .object({
+        pm25: z.number().optional().openapi({ example: 8.4 }),
+        pm10: z.number().optional().openapi({ example: 14.2 }),
+        o3: z.number().optional().openapi({ example: 62 }),
+        no2: z.number().optional().openapi({ example: 11.5 }),
+      })
       .optional()
-      .openapi({ example: "low" }),
+      .openapi({
+        description:
+          "Pollutant concentrations in µg/m³; air quality is scored on the worst of them",
+      }),
+    thunder: z.boolean().optional().openapi({ example: false }),
+    elevation: z.number().optional().openapi({
+      example: 735,
+      description:
+        "Elevation in m (ft in imperial units) of the point the forecast describes, when known",
+    }),
+    sunrise: z
+      .string()
+      .optional()
+      .openapi({ example: "2024-06-01T04:25:00+09:00" }),
+    sunset: z
+      .string()
+      .optional()
+      .openapi({ example: "2024-06-01T18:52:00+09:00" }),
+    alerts: z.array(WeatherAlertSchema).optional().openapi({
+      description:
+        "Official warnings in effect at the requested time; omitted for past dates",
+    }),
+    provider: WeatherProviderSchema,
+    ensemble: WeatherEnsembleSchema.optional().openapi({
+      description: "Present when WEATHER_ENSEMBLE blends several providers",
+    }),
+    units: UnitLabelsSchema,
   })
   .openapi("WeatherResponse");
 
+export const HazardFlagSchema = z
+  .object({
+    type: z.enum(HazardTypeSchema.options).openapi({ example: "strong_wind" }),
+    severity: z
+      .enum(HazardSeveritySchema.options)
+      .openapi({ example: "severe" }),
+  })
+  .openapi("HazardFlag");
+
+export const DaylightWindowSchema = z
+  .object({
+    sunrise: z.string().openapi({ example: "2024-12-21T07:03:00+09:00" }),
+    sunset: z.string().openapi({ example: "2024-12-21T16:02:00+09:00" }),
+    hours: z.number().openapi({ example: 9 }),
+  })
+  .openapi("DaylightWindow");
+
+export const TouringDaylightSchema = DaylightWindowSchema.extend({
+  isDaylight: z.boolean().openapi({
+    example: true,
+    description:
+      "Whether the scored datetime is between sunrise and sunset. Riding after dark deducts 20 points",
+  }),
+}).openapi("TouringDaylight");
+
+export const TouringTemperatureSchema = z
+  .object({
+    station: z.number().openapi({
+      example: 18.5,
+      description: "Air temperature forecast for the location",
+    }),
+    air: z.number().openapi({
+      example: 12,
+      description:
+        "Air temperature at the route elevation (the station temperature when no elevation is given or the forecast point's elevation is unknown)",
+    }),
+    apparent: z.number().openapi({
+      example: 7.2,
+      description:
+        "Temperature felt at cruising speed: wind chill below 27°C, heat index from 27°C",
+    }),
+    cruisingSpeed: z.number().openapi({ example: 80 }),
+    elevation: z.number().nullable().openapi({
+      example: 1000,
+      description:
+        "Route elevation in m (ft in imperial units) the temperature was corrected to",
+    }),
+    forecastElevation: z.number().nullable().openapi({
+      example: 40,
+      description:
+        "Elevation in m (ft in imperial units) of the forecast point, as reported by the weather provider or, for WeatherAPI, bundled for the prefecture centroids. Null when unknown, in which case the temperature is not corrected to the route elevation",
+    }),
+    elevationCorrected: z.boolean().openapi({
+      example: true,
+      description:
+        "Whether the air temperature was corrected to the route elevation. False when no elevation was given or the forecast point's elevation is unknown",
+    }),
+  })
+  .openapi("TouringTemperature");
+
+// Shared by every response carrying a score
+const PartialScoreFields = {
+  partial: z.boolean().openapi({
+    example: false,
+    description:
+      "Whether the score was calculated without some factors (allowPartial), rescaling the rest to 100 points",
+  }),
+  missingFactors: z
+    .array(z.enum(["visibility", "airQuality"]))
+    .optional()
+    .openapi({
+      example: ["visibility"],
+      description: "Factors left out of a partial score",
+    }),
+};
+
+const RulesVersionSchema = z.number().openapi({
+  example: 3,
+  description: "Version of the scoring rules the score was calculated under",
+});
+
+export const ScorePercentileSchema = z
+  .object({
+    value: z.number().openapi({
+      example: 85,
+      description:
+        "Percentage of this prefecture's days in the month that scored lower",
+    }),
+    month: z.number().openapi({ example: 3 }),
+    sampleCount: z.number().openapi({ example: 412 }),
+  })
+  .openapi("ScorePercentile", {
+    description:
+      "Score relative to the prefecture's history for the month. null when the score is not comparable with that history: a non-default profile or cruising speed (the history holds default-profile scores only), scores from older rules, or months with fewer than 20 days of history",
+  });
+
+export const ForecastConfidenceSchema = z
+  .object({
+    value: z.number().openapi({
+      example: 0.71,
+      description:
+        "0-1. Falls with forecast lead time and with factors scored on defaulted inputs",
+    }),
+    band: z
+      .object({
+        low: z.number().openapi({ example: 74 }),
+        high: z.number().openapi({ example: 96 }),
+      })
+      .openapi({ description: "Plausible range of the score" }),
+    leadTimeDays: z.number().openapi({ example: 6 }),
+    estimatedFactors: z.array(z.string()).openapi({ example: ["wind"] }),
+  })
+  .openapi("ForecastConfidence");
+
+export const LocalizedTextSchema = z
+  .object({
+    ja: z
+      .string()
+      .openapi({ example: "風速8.2 m/sは安全基準の7 m/sを超えています" }),
+    en: z
+      .string()
+      .openapi({ example: "Wind 8.2 m/s exceeds safe threshold of 7 m/s" }),
+  })
+  .openapi("LocalizedText");
+
+export const FactorExplanationSchema = z
+  .object({
+    points: z.number().openapi({ example: 0 }),
+    maxPoints: z.number().openapi({ example: 15 }),
+    input: z.union([z.number(), z.string()]).openapi({
+      example: 8.2,
+      description:
+        "Raw value the factor was scored on (apparent temperature for temperature)",
+    }),
+    rationale: LocalizedTextSchema,
+  })
+  .openapi("FactorExplanation");
+
+export const FactorDetractorSchema = z
+  .object({
+    factor: z.string().openapi({ example: "wind" }),
+    pointsLost: z.number().openapi({ example: 15 }),
+    rationale: LocalizedTextSchema,
+  })
+  .openapi("FactorDetractor");
+
+export const TouringIndexExplanationSchema = z
+  .object({
+    factors: z.record(z.string(), FactorExplanationSchema),
+    topDetractors: z.array(FactorDetractorSchema).openapi({
+      description: "Up to 3 factors that lost the most points, largest first",
+    }),
+  })
+  .openapi("TouringIndexExplanation");
+
 export const TouringIndexResponseSchema = z
   .object({
     location: LocationSchema,
     datetime: z.string().openapi({ example: "2024-01-01T12:00:00Z" }),
+    profile: z
+      .enum(ScoringProfileNameSchema.options)
+      .openapi({ example: "standard" }),
+    rulesVersion: RulesVersionSchema,
     score: z.number().openapi({ example: 85.5 }),
+    percentile: ScorePercentileSchema.nullable(),
+    ...PartialScoreFields,
     factors: z.record(z.string(), z.number()).openapi({
       example: {
         temperature: 20,
@@ -86,13 +373,241 @@ export const TouringIndexResponseSchema = z
         humidity: 15,
       },
     }),
+    explanation: TouringIndexExplanationSchema,
+    confidence: ForecastConfidenceSchema,
+    temperature: TouringTemperatureSchema,
+    daylight: TouringDaylightSchema.nullable(),
+    hazards: z.array(HazardFlagSchema).openapi({
+      description:
+        "Detected riding hazards. Any severe hazard caps the score at 30",
+    }),
+    alerts: z.array(WeatherAlertSchema).openapi({
+      description: "Official warnings in effect at the requested time",
+    }),
+    provider: WeatherProviderSchema,
+    ensemble: WeatherEnsembleSchema.optional().openapi({
+      description: "Present when WEATHER_ENSEMBLE blends several providers",
+    }),
+    units: UnitLabelsSchema,
   })
   .openapi("TouringIndexResponse");
 
+export const FactorWeightsSchema = z
+  .object({
+    weather: z.number().openapi({ example: 30 }),
+    temperature: z.number().openapi({ example: 20 }),
+    wind: z.number().openapi({ example: 15 }),
+    humidity: z.number().openapi({ example: 10 }),
+    visibility: z.number().openapi({ example: 5 }),
+    precipitationProbability: z.number().openapi({ example: 10 }),
+    uvIndex: z.number().openapi({ example: 5 }),
+    airQuality: z.number().openapi({ example: 5 }),
+  })
+  .openapi("FactorWeights");
+
+export const CustomTouringIndexRequestSchema = z
+  .object({
+    lat: z.number().openapi({ example: 35.6762 }),
+    lon: z.number().openapi({ example: 139.6503 }),
+    datetime: z.string().optional().openapi({
+      example: "2024-01-01T12:00:00Z",
+      description: "ISO 8601 datetime (optional, defaults to current time)",
+    }),
+    profile: z
+      .enum(ScoringProfileNameSchema.options)
+      .optional()
+      .openapi({ example: "standard" }),
+    cruisingSpeed: z.number().optional().openapi({
+      example: 80,
+      description:
+        "Cruising speed in km/h (0-200) for the apparent temperature (optional, defaults to the profile's)",
+    }),
+    elevation: z.number().optional().openapi({
+      example: 1500,
+      description:
+        "Route elevation in m (-500 to 9000); the forecast temperature is corrected to it at 6.5°C per 1,000 m when the forecast point's elevation is known (optional)",
+    }),
+    weights: FactorWeightsSchema.partial().openapi({
+      example: { wind: 30, precipitationProbability: 20 },
+      description:
+        "Per-factor weight overrides (0-100). Omitted factors keep the profile weight; the distribution is rescaled to 100 points",
+    }),
+    allowPartial: z.boolean().optional().openapi({
+      example: false,
+      description:
+        "Score over the available factors when visibility or air quality is missing instead of answering 422 (optional, defaults to false)",
+    }),
+  })
+  .openapi("CustomTouringIndexRequest");
+
+export const CustomTouringIndexResponseSchema = TouringIndexResponseSchema.omit(
+  { percentile: true, units: true },
+)
+  .extend({
+    weights: FactorWeightsSchema,
+  })
+  .openapi("CustomTouringIndexResponse");
+
+export const TripTouringIndexRequestSchema = z
+  .object({
+    legs: z
+      .array(
+        z.object({
+          lat: z.number().openapi({ example: 36.6513 }),
+          lon: z.number().openapi({ example: 138.181 }),
+          date: z.string().openapi({ example: "2025-06-02" }),
+          elevation: z.number().optional().openapi({
+            example: 1500,
+            description:
+              "Route elevation in m (-500 to 9000) the leg's temperature is corrected to when the forecast point's elevation is known (optional)",
+          }),
+        }),
+      )
+      .openapi({
+        example: [
+          { lat: 35.6762, lon: 139.6503, date: "2025-06-01" },
+          { lat: 36.6513, lon: 138.181, date: "2025-06-02" },
+          { lat: 37.9026, lon: 139.0236, date: "2025-06-03" },
+        ],
+        description:
+          "Itinerary legs (1-10) ordered by date, each scored at its location on its date (YYYY-MM-DD, within the forecast window)",
+      }),
+    profile: z
+      .enum(ScoringProfileNameSchema.options)
+      .optional()
+      .openapi({ example: "standard" }),
+    cruisingSpeed: z.number().optional().openapi({
+      example: 80,
+      description:
+        "Cruising speed in km/h (0-200) for the apparent temperature (optional, defaults to the profile's)",
+    }),
+    shiftDays: z.number().optional().openapi({
+      example: 3,
+      description:
+        "Days the whole trip may move earlier or later when looking for better dates (0-13, defaults to 3)",
+    }),
+    allowPartial: z.boolean().optional().openapi({
+      example: false,
+      description:
+        "Score legs over the available factors when visibility or air quality is missing instead of answering 422 (optional, defaults to false)",
+    }),
+  })
+  .openapi("TripTouringIndexRequest");
+
+export const TripLegSchema = z
+  .object({
+    location: LocationSchema,
+    date: z.string().openapi({ example: "2025-06-02" }),
+    score: z.number().openapi({ example: 64 }),
+    ...PartialScoreFields,
+    factors: z.record(z.string(), z.number()),
+    hazards: z.array(HazardFlagSchema),
+    confidence: ForecastConfidenceSchema,
+    provider: WeatherProviderSchema,
+  })
+  .openapi("TripLeg");
+
+export const TripShiftSuggestionSchema = z
+  .object({
+    shiftDays: z.number().openapi({
+      example: 2,
+      description: "Days the whole trip moves; negative is earlier",
+    }),
+    startDate: z.string().openapi({ example: "2025-06-03" }),
+    endDate: z.string().openapi({ example: "2025-06-05" }),
+    score: z.number().openapi({ example: 81.3 }),
+    improvement: z.number().openapi({ example: 6.6 }),
+  })
+  .openapi("TripShiftSuggestion");
+
+export const TripTouringIndexResponseSchema = z
+  .object({
+    profile: z
+      .enum(ScoringProfileNameSchema.options)
+      .openapi({ example: "standard" }),
+    rulesVersion: RulesVersionSchema,
+    score: z.number().openapi({
+      example: 74.7,
+      description: "Mean leg score, rounded to 1 decimal",
+    }),
+    legs: z.array(TripLegSchema),
+    weakestLeg: z
+      .object({
+        index: z.number().openapi({ example: 1 }),
+        date: z.string().openapi({ example: "2025-06-02" }),
+        score: z.number().openapi({ example: 64 }),
+      })
+      .openapi({ description: "Lowest-scoring leg (earliest on ties)" }),
+    shiftSuggestions: z.array(TripShiftSuggestionSchema).openapi({
+      description:
+        "Up to 3 whole-trip shifts within the forecast window that raise the score, best first",
+    }),
+  })
+  .openapi("TripTouringIndexResponse");
+
+export const HourlyTouringIndexItemSchema = z
+  .object({
+    datetime: z.string().openapi({ example: "2024-06-01T09:00:00+09:00" }),
+    score: z.number().nullable().openapi({ example: 82 }),
+    factors: z
+      .record(z.string(), z.number())
+      .optional()
+      .openapi({
+        example: {
+          temperature: 20,
+          weather: 30,
+          wind: 15,
+        },
+      }),
+    missingFactors: z
+      .array(z.string())
+      .optional()
+      .openapi({
+        example: ["visibility"],
+        description:
+          "Present instead of factors when the hour cannot be scored, or alongside them for a partial score",
+      }),
+    temperature: TouringTemperatureSchema.optional(),
+    hazards: z.array(HazardFlagSchema).optional(),
+    confidence: ForecastConfidenceSchema.optional(),
+    partial: z.boolean().optional().openapi({
+      description:
+        "Whether the hour was scored without some factors (listed in missingFactors)",
+    }),
+  })
+  .openapi("HourlyTouringIndexItem");
+
+export const RidingWindowSchema = z
+  .object({
+    start: z.string().openapi({ example: "2024-06-01T09:00:00+09:00" }),
+    end: z.string().openapi({ example: "2024-06-01T15:00:00+09:00" }),
+    hours: z.number().openapi({ example: 6 }),
+    averageScore: z.number().openapi({ example: 78.5 }),
+    minScore: z.number().openapi({ example: 64 }),
+  })
+  .openapi("RidingWindow");
+
+export const HourlyTouringIndexResponseSchema = z
+  .object({
+    location: LocationSchema,
+    date: z.string().openapi({ example: "2024-06-01" }),
+    profile: z
+      .enum(ScoringProfileNameSchema.options)
+      .openapi({ example: "standard" }),
+    rulesVersion: RulesVersionSchema,
+    threshold: z.number().openapi({ example: 60 }),
+    daylight: DaylightWindowSchema.nullable(),
+    hours: z.array(HourlyTouringIndexItemSchema),
+    bestWindow: RidingWindowSchema.nullable(),
+    provider: WeatherProviderSchema,
+  })
+  .openapi("HourlyTouringIndexResponse");
+
 export const TouringIndexHistoryItemSchema = z
   .object({
     date: z.string().openapi({ example: "2024-06-01" }),
     score: z.number().openapi({ example: 85.5 }),
+    percentile: ScorePercentileSchema.nullable(),
     factors: z.record(z.string(), z.number()).openapi({
       example: {
         temperature: 20,
@@ -102,6 +617,17 @@ export const TouringIndexHistoryItemSchema = z
         humidity: 15,
       },
     }),
+    ...PartialScoreFields,
+    hazards: z.array(HazardFlagSchema),
+    confidence: ForecastConfidenceSchema.nullable().openapi({
+      description:
+        "Confidence when the row was calculated; null for rows stored before confidence was tracked",
+    }),
+    rulesVersion: RulesVersionSchema.nullable().openapi({
+      description:
+        "Version of the scoring rules the row was calculated under; null for rows stored before rules were versioned",
+    }),
+    daylight: DaylightWindowSchema.nullable(),
     calculated_at: z.string().openapi({ example: "2024-06-01T06:00:00Z" }),
   })
   .openapi("TouringIndexHistoryItem");
@@ -110,10 +636,66 @@ export const TouringIndexHistoryResponseSchema = z
   .object({
     location: LocationSchema,
     prefecture_id: z.number().openapi({ example: 13 }),
+    profile: z
+      .enum(ScoringProfileNameSchema.options)
+      .openapi({ example: "standard" }),
     data: z.array(TouringIndexHistoryItemSchema),
   })
   .openapi("TouringIndexHistoryResponse");
 
+const RecomputeCursorSchema = z.object({
+  date: z.string().openapi({ example: "2024-06-03" }),
+  prefecture_id: z.number().openapi({ example: 47 }),
+});
+
+export const RecomputeTouringIndexRequestSchema = z
+  .object({
+    startDate: z.string().optional().openapi({
+      example: "2024-06-01",
+      description: "First date to recompute, YYYY-MM-DD (optional)",
+    }),
+    endDate: z.string().optional().openapi({
+      example: "2024-06-30",
+      description: "Last date to recompute, YYYY-MM-DD (optional)",
+    }),
+    limit: z.number().optional().openapi({
+      example: 100,
+      description: "Maximum rows recomputed (1-500, defaults to 100)",
+    }),
+    after: RecomputeCursorSchema.optional().openapi({
+      description:
+        "Resume after this row, the `next` of the previous call (optional)",
+    }),
+  })
+  .openapi("RecomputeTouringIndexRequest");
+
+export const RecomputeTouringIndexResponseSchema = z
+  .object({
+    rulesVersion: RulesVersionSchema,
+    processed: z.number().openapi({ example: 100 }),
+    recomputed: z.number().openapi({ example: 99 }),
+    failed: z.number().openapi({ example: 1 }),
+    errors: z.array(
+      z.object({
+        prefecture_id: z.number().openapi({ example: 13 }),
+        date: z.string().openapi({ example: "2024-06-01" }),
+        error: z.string().openapi({
+          example: "Stored weather does not match the weather schema",
+        }),
+      }),
+    ),
+    remaining: z.number().openapi({
+      example: 240,
+      description:
+        "Rows in the range still calculated under older rules, including failed ones",
+    }),
+    next: RecomputeCursorSchema.nullable().openapi({
+      description:
+        "Last row processed, to pass as `after` for the next page. Null once the range is exhausted",
+    }),
+  })
+  .openapi("RecomputeTouringIndexResponse");
+
 export const PrefectureSchema = z
   .object({
     id: z.number().openapi({ example: 13 }),
@@ -10,7 +10,16 @@ export type AppEnv = {
   Bindings: {
     DB: D1Database;
     WEATHERAPI_KEY: string;
+    WEATHER_PROVIDER?: string; // Providers in failover order, e.g. "weatherapi,open-meteo"; "weatherapi" by default, "fixture" replays recordings
+    WEATHER_ENSEMBLE?: string; // "true" to blend every WEATHER_PROVIDER instead of failing over
+    WEATHER_CACHE?: KVNamespace; // Caches live weather lookups; no caching when unbound
+    WEATHER_CACHE_PRECISION?: string; // Decimal places of the cache key coordinates ("2" by default)
+    WEATHER_RECORD_DIR?: string; // Write raw WeatherAPI responses here (Node dev server only)
+    WEATHER_FIXTURE_DIR?: string; // Recordings replayed by WEATHER_PROVIDER="fixture"; "fixtures/weatherapi" by default
+    OPEN_METEO_API_KEY?: string; // Commercial Open-Meteo key; free API when unset
+    ADMIN_TOKEN?: string; // Bearer token for /api/v1/admin routes; disabled when unset
     BATCH_START_DATE?: string;
+    BATCH_ALLOW_PARTIAL?: string; // "true" to store partial scores
     LOG_LEVEL?: string;
   };
   Variables: {
@@ -1,5 +1,6 @@
 import { beforeEach, describe, expect, mock, test } from "bun:test";
 import { APP_CONFIG } from "../constants/appConfig";
+import { SCORING_RULES_VERSION } from "../domain/ScoreRules";
 import type { Weather } from "../domain/Weather";
 import { addDaysToDateString, getJstDateString } from "../utils/dateUtils";
 import {
@@ -235,6 +236,7 @@ describe("BatchCalculateTouringIndexUsecase", () => {
         prefecture_id: 1,
         date: "2025-06-01",
         score: 100, // Perfect weather should give max score (30+20+15+10+5+10+5+5 = 100)
+        rules_version: SCORING_RULES_VERSION,
       });
 
       // Check that weather_factors_json and weather_raw_json are strings
@@ -247,8 +249,14 @@ describe("BatchCalculateTouringIndexUsecase", () => {
 
       expect(weatherFactors).toHaveProperty("weather");
       expect(weatherFactors).toHaveProperty("temperature");
+      expect(weatherFactors.hazards).toEqual([]);
       expect(weatherRaw).toHaveProperty("datetime");
       expect(weatherRaw).toHaveProperty("condition");
+
+      const confidence = JSON.parse(hokkaidoItems[0].confidence_json);
+      expect(confidence.value).toBeGreaterThan(0);
+      expect(confidence.value).toBeLessThanOrEqual(1);
+      expect(confidence.band.high).toBeLessThanOrEqual(100);
     });
 
     test("should handle weather API errors gracefully", async () => {
@@ -399,6 +407,37 @@ describe("BatchCalculateTouringIndexUsecase", () => {
       expect(upsertCalls[0][0]).toHaveLength(1);
       expect(upsertCalls[0][0][0].date).toBe("2025-06-01");
     });
+
+    test("stores flagged partial rows for incomplete days when allowed", async () => {
+      mockWeatherRepository.getWeatherBatch = mock(
+        async (): Promise<Weather[]> => [
+          {
+            datetime: "2025-06-01T03:00:00Z",
+            condition: "clear",
+            temperature: 21.5,
+            windSpeed: 2.5,
+            humidity: 50,
+            visibility: 20,
+            precipitationProbability: 0,
+            uvIndex: 3,
+          },
+        ],
+      );
+
+      const result = await usecase.execute(["2025-06-01"], {
+        allowPartial: true,
+      });
+
+      expect(result.successful_inserts).toBe(2);
+      expect(result.errors).toEqual([]);
+
+      const [item] = (mockTouringIndexRepository.upsertTouringIndexes as any)
+        .mock.calls[0][0];
+      expect(item.partial).toBe(true);
+      const weatherFactors = JSON.parse(item.weather_factors_json);
+      expect(weatherFactors.missingFactors).toEqual(["airQuality"]);
+      expect(weatherFactors).not.toHaveProperty("airQuality");
+    });
   });
 
   describe("generateTargetDatesFromStart", () => {
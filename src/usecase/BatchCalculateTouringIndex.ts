@@ -6,7 +6,10 @@ import {
   validateBatchStartDate,
 } from "../utils/dateUtils";
 import { logger } from "../utils/logger";
-import { calculateTouringIndex } from "./CalculateTouringIndex";
+import {
+  type CompleteTouringIndex,
+  calculateTouringIndex,
+} from "./CalculateTouringIndex";
 
 export interface Prefecture {
   id: number;
@@ -22,9 +25,41 @@ export interface TouringIndexBatchItem {
   score: number;
   weather_factors_json: string;
   weather_raw_json: string;
+  confidence_json: string;
+  partial: boolean; // Scored without some factors (see weather_factors_json.missingFactors)
+  rules_version: number; // SCORING_RULES_VERSION the score was calculated under
   calculated_at?: string; // Optional, will use 'now' if not provided
 }
 
+/**
+ * Serialize a calculated touring index into the row stored for a
+ * prefecture and date.
+ */
+export function toTouringIndexBatchItem(
+  prefectureId: number,
+  date: string,
+  weather: Weather,
+  touringIndex: CompleteTouringIndex,
+): TouringIndexBatchItem {
+  const { score, breakdown, hazards, confidence, omittedFactors } =
+    touringIndex;
+  const partial = omittedFactors.length > 0;
+  return {
+    prefecture_id: prefectureId,
+    date,
+    score,
+    weather_factors_json: JSON.stringify({
+      ...breakdown,
+      hazards,
+      ...(partial && { missingFactors: omittedFactors }),
+    }),
+    weather_raw_json: JSON.stringify(weather),
+    confidence_json: JSON.stringify(confidence),
+    partial,
+    rules_version: touringIndex.rulesVersion,
+  };
+}
+
 export interface BatchProcessResult {
   total_processed: number;
   successful_inserts: number;
@@ -44,6 +79,12 @@ interface PrefectureBatchResult {
   }>;
 }
 
+export interface BatchExecuteOptions {
+  // Store partial scores for dates missing visibility or air quality
+  // instead of skipping them
+  allowPartial?: boolean;
+}
+
 export interface WeatherRepository {
   getWeather(lat: number, lon: number, datetime: string): Promise<Weather>;
   getWeatherBatch(
@@ -72,12 +113,17 @@ export class BatchCalculateTouringIndexUsecase {
   /**
    * Execute batch processing for all prefectures and specified date range
    * @param targetDates Array of date strings in YYYY-MM-DD format
+   * @param options Partial scoring opt-in
    * @returns BatchProcessResult with success/failure statistics
    */
-  async execute(targetDates: string[]): Promise<BatchProcessResult> {
+  async execute(
+    targetDates: string[],
+    options: BatchExecuteOptions = {},
+  ): Promise<BatchProcessResult> {
     const context = {
       operation: "batch_execute",
       targetDatesCount: targetDates.length,
+      allowPartial: options.allowPartial ?? false,
     };
 
     logger.info("Starting batch processing execution", context);
@@ -126,6 +172,7 @@ export class BatchCalculateTouringIndexUsecase {
           const prefectureResult = await this.processPrefectureBatch(
             prefecture,
             targetDates,
+            options,
           );
 
           result.successful_inserts += prefectureResult.committedInserts;
@@ -207,10 +254,12 @@ export class BatchCalculateTouringIndexUsecase {
    * Process one prefecture for all target dates using batch weather API
    * @param prefecture Prefecture data
    * @param targetDates Array of target dates in YYYY-MM-DD format
+   * @param options Partial scoring opt-in
    */
   private async processPrefectureBatch(
     prefecture: Prefecture,
     targetDates: string[],
+    options: BatchExecuteOptions,
   ): Promise<PrefectureBatchResult> {
     const context = {
       operation: "process_prefecture_batch",
@@ -270,7 +319,9 @@ export class BatchCalculateTouringIndexUsecase {
       });
 
       // Calculate touring index
-      const touringIndex = calculateTouringIndex(weatherData);
+      const touringIndex = calculateTouringIndex(weatherData, undefined, {
+        allowPartial: options.allowPartial,
+      });
       if ("missingFactors" in touringIndex) {
         incompleteDates.push({
           date,
@@ -279,22 +330,19 @@ export class BatchCalculateTouringIndexUsecase {
         continue;
       }
 
-      const { score, breakdown } = touringIndex;
-
       logger.debug("Touring index calculated for date", {
         ...context,
         date,
-        score,
-        breakdown,
+        score: touringIndex.score,
+        breakdown: touringIndex.breakdown,
+        hazards: touringIndex.hazards,
+        confidence: touringIndex.confidence,
+        partial: touringIndex.omittedFactors.length > 0,
       });
 
-      batchItems.push({
-        prefecture_id: prefecture.id,
-        date,
-        score,
-        weather_factors_json: JSON.stringify(breakdown),
-        weather_raw_json: JSON.stringify(weatherData),
-      });
+      batchItems.push(
+        toTouringIndexBatchItem(prefecture.id, date, weatherData, touringIndex),
+      );
     }
 
     if (batchItems.length === 0) {
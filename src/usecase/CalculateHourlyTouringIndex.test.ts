@@ -0,0 +1,56 @@
+import { describe, expect, test } from "bun:test";
+import type { Weather } from "../domain/Weather";
+import { calculateHourlyTouringIndex } from "./CalculateHourlyTouringIndex";
+
+const idealHour: Weather = {
+  datetime: "2024-06-01T09:00:00+09:00",
+  condition: "clear",
+  temperature: 21.5,
+  windSpeed: 2.5,
+  humidity: 50,
+  visibility: 20,
+  precipitationProbability: 0,
+  uvIndex: 3,
+  airQuality: "low",
+};
+
+describe("CalculateHourlyTouringIndex", () => {
+  test("scores each hour and reports the best window ending after its last hour", () => {
+    const result = calculateHourlyTouringIndex(
+      [
+        {
+          ...idealHour,
+          datetime: "2024-06-01T08:00:00+09:00",
+          condition: "rain",
+        },
+        idealHour,
+        { ...idealHour, datetime: "2024-06-01T10:00:00+09:00" },
+      ],
+      80,
+    );
+
+    expect(result.hours).toHaveLength(3);
+    expect(result.hours[1].score).toBe(100);
+    expect(result.bestWindow).toEqual({
+      start: "2024-06-01T09:00:00+09:00",
+      end: "2024-06-01T11:00:00+09:00",
+      hours: 2,
+      averageScore: 100,
+      minScore: 100,
+    });
+  });
+
+  test("reports missing factors for hours that cannot be scored", () => {
+    const result = calculateHourlyTouringIndex(
+      [{ ...idealHour, visibility: undefined }],
+      60,
+    );
+
+    expect(result.hours[0]).toEqual({
+      datetime: "2024-06-01T09:00:00+09:00",
+      score: null,
+      missingFactors: ["visibility"],
+    });
+    expect(result.bestWindow).toBeNull();
+  });
+});
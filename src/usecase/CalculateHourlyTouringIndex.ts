@@ -0,0 +1,117 @@
+import { type DaylightWindow, getDaylightWindow } from "../domain/Daylight";
+import type { ForecastConfidence } from "../domain/ForecastConfidence";
+import type { HazardFlag } from "../domain/Hazard";
+import { findBestRidingWindow } from "../domain/RidingWindow";
+import { SCORING_RULES_VERSION } from "../domain/ScoreRules";
+import {
+  getScoringProfile,
+  type ScoringProfile,
+} from "../domain/ScoringProfile";
+import type { Weather } from "../domain/Weather";
+import { formatJstDatetime } from "../utils/dateUtils";
+import {
+  type CalculateTouringIndexOptions,
+  calculateTouringIndex,
+  type MissingTouringIndexFactor,
+  type TouringTemperature,
+} from "./CalculateTouringIndex";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export type HourlyTouringIndex =
+  | {
+      datetime: string;
+      score: number;
+      factors: Record<string, number>;
+      temperature: TouringTemperature;
+      hazards: HazardFlag[];
+      confidence: ForecastConfidence;
+      partial: boolean;
+      missingFactors?: MissingTouringIndexFactor[]; // Left out of a partial score
+    }
+  | {
+      datetime: string;
+      score: null;
+      missingFactors: MissingTouringIndexFactor[];
+    };
+
+export type HourlyRidingWindow = {
+  start: string; // Start of the first rideable hour
+  end: string; // End of the last rideable hour
+  hours: number;
+  averageScore: number;
+  minScore: number;
+};
+
+export type HourlyTouringIndexResult = {
+  daylight: DaylightWindow | null;
+  hours: HourlyTouringIndex[];
+  bestWindow: HourlyRidingWindow | null;
+  rulesVersion: number; // SCORING_RULES_VERSION every hour was scored under
+};
+
+/**
+ * Score every hour of a day and find the longest contiguous run of hours
+ * at or above `threshold`.
+ * @param hours Hourly weather ordered by time
+ * @param threshold Minimum score (inclusive) for an hour to be rideable
+ * @param profile Scoring profile applied to every hour
+ * @param options Partial scoring opt-in and route elevation applied to
+ *   every hour
+ */
+export function calculateHourlyTouringIndex(
+  hours: Weather[],
+  threshold: number,
+  profile: ScoringProfile = getScoringProfile(),
+  options: Pick<
+    CalculateTouringIndexOptions,
+    "allowPartial" | "elevation"
+  > = {},
+): HourlyTouringIndexResult {
+  const scoredHours: HourlyTouringIndex[] = hours.map((weather) => {
+    const touringIndex = calculateTouringIndex(weather, profile, options);
+    if ("missingFactors" in touringIndex) {
+      return {
+        datetime: weather.datetime,
+        score: null,
+        missingFactors: touringIndex.missingFactors,
+      };
+    }
+    return {
+      datetime: weather.datetime,
+      score: touringIndex.score,
+      factors: touringIndex.breakdown,
+      temperature: touringIndex.temperature,
+      hazards: touringIndex.hazards,
+      confidence: touringIndex.confidence,
+      partial: touringIndex.omittedFactors.length > 0,
+      ...(touringIndex.omittedFactors.length > 0 && {
+        missingFactors: touringIndex.omittedFactors,
+      }),
+    };
+  });
+
+  const window = findBestRidingWindow(scoredHours, threshold);
+
+  // Every hour of the day carries the same sunrise/sunset
+  const [firstHour] = hours;
+
+  return {
+    daylight: firstHour
+      ? getDaylightWindow(firstHour.sunrise, firstHour.sunset)
+      : null,
+    hours: scoredHours,
+    bestWindow: window
+      ? {
+          start: window.start,
+          end: formatJstDatetime(
+            new Date(Date.parse(window.lastHour) + HOUR_MS),
+          ),
+          hours: window.hours,
+          averageScore: window.averageScore,
+          minScore: window.minScore,
+        }
+      : null,
+    rulesVersion: SCORING_RULES_VERSION,
+  };
+}
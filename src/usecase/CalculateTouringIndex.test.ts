@@ -1,12 +1,17 @@
 import { describe, expect, test } from "bun:test";
 import { ZodError } from "zod";
+import { SCORING_RULES_VERSION } from "../domain/ScoreRules";
+import { getScoringProfile } from "../domain/ScoringProfile";
 import {
   type AirQualityLevel,
   createWeather,
   type Weather,
   type WeatherCondition,
 } from "../domain/Weather";
-import { calculateTouringIndex } from "./CalculateTouringIndex";
+import {
+  type CompleteTouringIndex,
+  calculateTouringIndex,
+} from "./CalculateTouringIndex";
 
 describe("CalculateTouringIndex", () => {
   describe("Normal Cases - Valid Weather Data", () => {
@@ -37,6 +42,7 @@ describe("CalculateTouringIndex", () => {
           uvIndex: 5,
           airQuality: 5,
         });
+        expect(result).toMatchObject({ rulesVersion: SCORING_RULES_VERSION });
       });
     });
 
@@ -70,6 +76,20 @@ describe("CalculateTouringIndex", () => {
         expect(result.breakdown.weather).toBe(0);
       });
 
+      test("should score conditions worse than rain below rain", () => {
+        const scoreOf = (condition: WeatherCondition) =>
+          (
+            calculateTouringIndex({
+              ...baseWeather,
+              condition,
+            }) as CompleteTouringIndex
+          ).score;
+
+        expect(scoreOf("rain")).toBe(70);
+        expect(scoreOf("heavy_rain")).toBe(65);
+        expect(scoreOf("sleet")).toBe(60);
+      });
+
       test("should score snow weather as 0 points", () => {
         const weather: Weather = { ...baseWeather, condition: "snow" };
         const result = calculateTouringIndex(weather);
@@ -103,6 +123,8 @@ describe("CalculateTouringIndex", () => {
 
       test("should score temperature boundaries correctly", () => {
         // Test various temperature boundaries based on new logic: 20 - Math.abs(temp - 21.5)
+        // A stationary rider feels no wind chill, so mild temperatures score as-is
+        const stationary = { ...getScoringProfile(), cruisingSpeed: 0 };
         const testCases = [
           { temp: -50, expectedScore: 0 }, // Too cold, minimum score
           { temp: -10, expectedScore: 0 }, // Very cold, minimum score
@@ -115,13 +137,13 @@ describe("CalculateTouringIndex", () => {
           { temp: 22.5, expectedScore: 19 }, // 1°C above ideal: 20 - 1 = 19
           { temp: 23.5, expectedScore: 18 }, // 2°C above ideal: 20 - 2 = 18
           { temp: 26.5, expectedScore: 15 }, // 5°C above ideal: 20 - 5 = 15
-          { temp: 35, expectedScore: 7 }, // 13.5°C above ideal: 20 - 13.5 = 6.5, rounded to 7
+          { temp: 35, expectedScore: 1 }, // Heat index at 50% humidity is 40.7°C: 20 - 19.2 = 0.8, rounded to 1
           { temp: 60, expectedScore: 0 }, // Too hot, minimum score
         ];
 
         testCases.forEach(({ temp, expectedScore }) => {
           const weather: Weather = { ...baseWeather, temperature: temp };
-          const result = calculateTouringIndex(weather);
+          const result = calculateTouringIndex(weather, stationary);
           expect(result.breakdown.temperature).toBe(expectedScore);
         });
       });
@@ -336,6 +358,63 @@ describe("CalculateTouringIndex", () => {
         const result = calculateTouringIndex(weather);
         expect(result.breakdown.airQuality).toBe(0);
       });
+
+      test("should score clean pollutant concentrations as 5 points", () => {
+        const weather: Weather = {
+          ...baseWeather,
+          airQuality: "medium",
+          airQualityComponents: { pm25: 12, pm10: 40, o3: 80, no2: 20 },
+        };
+        const result = calculateTouringIndex(weather);
+        expect(result).toMatchObject({ breakdown: { airQuality: 5 } });
+      });
+
+      test("should score the worst pollutant on a continuous curve", () => {
+        // PM2.5 33.75 is halfway from 12 to 55.5; PM10 104.25 a quarter
+        // of the way from 54 to 255
+        const weather: Weather = {
+          ...baseWeather,
+          airQuality: "high",
+          airQualityComponents: { pm25: 33.75, pm10: 104.25 },
+        };
+        const result = calculateTouringIndex(weather);
+        expect(result).toMatchObject({ breakdown: { airQuality: 2.5 } });
+        expect(result).toMatchObject({
+          explanation: {
+            factors: {
+              airQuality: {
+                rationale: {
+                  en: "Air quality is moderate with PM2.5 at 33.8 µg/m³",
+                },
+              },
+            },
+          },
+        });
+      });
+
+      test("should tell apart EPA levels the legacy buckets merged", () => {
+        const sensitive = calculateTouringIndex({
+          ...baseWeather,
+          airQuality: "high",
+          airQualityComponents: { pm25: 40 },
+        });
+        const hazardous = calculateTouringIndex({
+          ...baseWeather,
+          airQuality: "high",
+          airQualityComponents: { pm25: 250 },
+        });
+        expect(sensitive).toMatchObject({ breakdown: { airQuality: 1.8 } });
+        expect(hazardous).toMatchObject({ breakdown: { airQuality: 0 } });
+      });
+
+      test("should score pollutant concentrations without a legacy level", () => {
+        const weather: Weather = {
+          ...baseWeather,
+          airQualityComponents: { o3: 150 },
+        };
+        const result = calculateTouringIndex(weather);
+        expect(result).toMatchObject({ breakdown: { airQuality: 2.5 } });
+      });
     });
 
     describe("Edge Cases - Worst Conditions", () => {
@@ -704,6 +783,415 @@ describe("CalculateTouringIndex", () => {
     });
   });
 
+  describe("Scoring Profiles", () => {
+    const weather: Weather = {
+      datetime: "2025-06-01T12:00:00Z",
+      condition: "clear",
+      temperature: 14,
+      windSpeed: 6,
+      humidity: 50,
+      visibility: 20,
+      precipitationProbability: 30,
+      uvIndex: 3,
+      airQuality: "low",
+    };
+
+    test("defaults to the standard profile", () => {
+      const result = calculateTouringIndex(weather);
+      if ("missingFactors" in result) throw new Error("expected a score");
+
+      expect(result.profile).toBe("standard");
+      expect(
+        calculateTouringIndex(weather, getScoringProfile("standard")),
+      ).toEqual(result);
+    });
+
+    test("applies profile thresholds and weights", () => {
+      const result = calculateTouringIndex(weather, getScoringProfile("sport"));
+      if ("missingFactors" in result) throw new Error("expected a score");
+
+      expect(result.profile).toBe("sport");
+      // 14°C feels like 9.9°C at the sport cruising speed, 10.1°C below the
+      // sport ideal (1.25 pts/°C), and 6 m/s is within the sport tolerable
+      // band; both are then rescaled to sport weights.
+      expect(result.breakdown.temperature).toBe(7);
+      expect(result.breakdown.wind).toBe(13.33);
+      expect(result.breakdown.uvIndex).toBe(2);
+    });
+
+    test("awards the maximum score when every factor sits in the profile ideal", () => {
+      const perfect: Weather = {
+        ...weather,
+        temperature: 20,
+        windSpeed: 2,
+        precipitationProbability: 0,
+      };
+
+      for (const name of ["commuter", "sport"] as const) {
+        // Stationary, so the apparent temperature equals the air temperature
+        const result = calculateTouringIndex(perfect, {
+          ...getScoringProfile(name),
+          cruisingSpeed: 0,
+        });
+        if ("missingFactors" in result) throw new Error("expected a score");
+        expect(result.score).toBe(100);
+      }
+    });
+  });
+
+  describe("Hazards", () => {
+    const weather: Weather = {
+      datetime: "2025-06-01T12:00:00Z",
+      condition: "clear",
+      temperature: 21.5,
+      windSpeed: 2.5,
+      humidity: 50,
+      visibility: 20,
+      precipitationProbability: 0,
+      uvIndex: 3,
+      airQuality: "low",
+    };
+
+    test("reports no hazards for benign weather", () => {
+      const result = calculateTouringIndex(weather);
+      if ("missingFactors" in result) throw new Error("expected a score");
+
+      expect(result.hazards).toEqual([]);
+      expect(result.score).toBe(100);
+    });
+
+    test("caps the score when a severe hazard is present", () => {
+      const result = calculateTouringIndex({ ...weather, thunder: true });
+      if ("missingFactors" in result) throw new Error("expected a score");
+
+      expect(result.hazards).toEqual([{ type: "thunder", severity: "severe" }]);
+      expect(result.score).toBe(30);
+      // The breakdown keeps the uncapped subscores
+      expect(result.breakdown.weather).toBe(30);
+    });
+
+    test("does not cap the score for moderate hazards", () => {
+      const result = calculateTouringIndex({ ...weather, temperature: 3 });
+      if ("missingFactors" in result) throw new Error("expected a score");
+
+      expect(result.hazards).toEqual([
+        { type: "icy_road_risk", severity: "moderate" },
+      ]);
+      expect(result.score).toBeGreaterThan(30);
+    });
+  });
+
+  describe("Elevation", () => {
+    const weather: Weather = {
+      datetime: "2025-06-01T12:00:00Z",
+      condition: "clear",
+      temperature: 15,
+      windSpeed: 2.5,
+      humidity: 50,
+      visibility: 20,
+      precipitationProbability: 0,
+      uvIndex: 3,
+      airQuality: "low",
+    };
+
+    test("scores the forecast temperature when no elevation is given", () => {
+      const result = calculateTouringIndex(weather);
+      if ("missingFactors" in result) throw new Error("expected a score");
+
+      expect(result.temperature).toMatchObject({
+        station: 15,
+        air: 15,
+        elevation: null,
+        forecastElevation: null,
+        elevationCorrected: false,
+      });
+    });
+
+    test("scores the temperature corrected to the route elevation", () => {
+      const atSeaLevel = calculateTouringIndex({ ...weather, elevation: 0 });
+      const result = calculateTouringIndex(
+        { ...weather, elevation: 0 },
+        undefined,
+        { elevation: 2000 },
+      );
+      if ("missingFactors" in atSeaLevel || "missingFactors" in result) {
+        throw new Error("expected a score");
+      }
+
+      // 6.5°C colder per 1,000 m above the sea-level forecast point
+      expect(result.temperature).toMatchObject({
+        station: 15,
+        air: 2,
+        elevation: 2000,
+        forecastElevation: 0,
+        elevationCorrected: true,
+      });
+      expect(result.breakdown.temperature).toBeLessThan(
+        atSeaLevel.breakdown.temperature,
+      );
+      // Hazards see the corrected temperature too
+      expect(result.hazards).toEqual([
+        { type: "icy_road_risk", severity: "moderate" },
+      ]);
+    });
+
+    test("corrects from the forecast point's elevation when reported", () => {
+      const result = calculateTouringIndex(
+        { ...weather, elevation: 500 },
+        undefined,
+        { elevation: 1500 },
+      );
+      if ("missingFactors" in result) throw new Error("expected a score");
+
+      expect(result.temperature.air).toBe(8.5);
+    });
+
+    test("leaves the temperature uncorrected when the forecast point's elevation is unknown", () => {
+      const result = calculateTouringIndex(weather, undefined, {
+        elevation: 1800,
+      });
+      if ("missingFactors" in result) throw new Error("expected a score");
+
+      expect(result.temperature).toMatchObject({
+        station: 15,
+        air: 15,
+        elevation: 1800,
+        forecastElevation: null,
+        elevationCorrected: false,
+      });
+    });
+  });
+
+  describe("Explanation", () => {
+    const weather: Weather = {
+      datetime: "2025-06-01T12:00:00Z",
+      condition: "cloudy",
+      temperature: 21.5,
+      windSpeed: 8.2,
+      humidity: 50,
+      visibility: 20,
+      precipitationProbability: 30,
+      uvIndex: 3,
+      airQuality: "low",
+    };
+    const stationary = { ...getScoringProfile(), cruisingSpeed: 0 };
+
+    test("explains every factor with points, max points and input", () => {
+      const result = calculateTouringIndex(weather, stationary);
+      if ("missingFactors" in result) throw new Error("expected a score");
+
+      expect(Object.keys(result.explanation.factors)).toHaveLength(8);
+      expect(result.explanation.factors.wind).toEqual({
+        points: 0,
+        maxPoints: 15,
+        input: 8.2,
+        rationale: {
+          ja: "風速8.2 m/sは安全基準の7 m/sを超えています",
+          en: "Wind 8.2 m/s exceeds safe threshold of 7 m/s",
+        },
+      });
+      expect(result.explanation.factors.weather?.input).toBe("cloudy");
+      for (const [factor, explained] of Object.entries(
+        result.explanation.factors,
+      )) {
+        expect(explained.points).toBe(result.breakdown[factor]);
+      }
+    });
+
+    test("lists the top detractors, largest loss first", () => {
+      const result = calculateTouringIndex(weather, stationary);
+      if ("missingFactors" in result) throw new Error("expected a score");
+
+      expect(
+        result.explanation.topDetractors.map(({ factor, pointsLost }) => ({
+          factor,
+          pointsLost,
+        })),
+      ).toEqual([
+        { factor: "weather", pointsLost: 15 },
+        { factor: "wind", pointsLost: 15 },
+        { factor: "precipitationProbability", pointsLost: 3 },
+      ]);
+    });
+
+    test("reports no detractors for a perfect score", () => {
+      const result = calculateTouringIndex(
+        {
+          ...weather,
+          condition: "clear",
+          windSpeed: 2.5,
+          precipitationProbability: 0,
+        },
+        stationary,
+      );
+      if ("missingFactors" in result) throw new Error("expected a score");
+
+      expect(result.score).toBe(100);
+      expect(result.explanation.topDetractors).toEqual([]);
+    });
+
+    test("scales max points with the profile weights", () => {
+      const profile = getScoringProfile("touring");
+      const result = calculateTouringIndex(weather, profile);
+      if ("missingFactors" in result) throw new Error("expected a score");
+
+      expect(result.explanation.factors.wind?.maxPoints).toBe(
+        profile.weights.wind,
+      );
+    });
+  });
+
+  describe("Confidence", () => {
+    const weather: Weather = {
+      datetime: "2025-06-10T12:00:00+09:00",
+      condition: "clear",
+      temperature: 21.5,
+      windSpeed: 2.5,
+      humidity: 50,
+      visibility: 20,
+      precipitationProbability: 0,
+      uvIndex: 3,
+      airQuality: "low",
+    };
+
+    test("measures lead time in JST calendar days from the calculation time", () => {
+      // 2025-06-01 08:00 JST
+      const now = new Date("2025-05-31T23:00:00Z");
+      const result = calculateTouringIndex(weather, getScoringProfile(), {
+        now,
+      });
+      if ("missingFactors" in result) throw new Error("expected a score");
+
+      expect(result.confidence.leadTimeDays).toBe(9);
+    });
+
+    test("is lower for a later forecast day", () => {
+      const profile = getScoringProfile();
+      const sameDay = calculateTouringIndex(weather, profile, {
+        now: new Date("2025-06-10T00:00:00Z"),
+      });
+      const dayThirteen = calculateTouringIndex(weather, profile, {
+        now: new Date("2025-05-28T00:00:00Z"),
+      });
+      if ("missingFactors" in sameDay || "missingFactors" in dayThirteen) {
+        throw new Error("expected a score");
+      }
+
+      expect(dayThirteen.confidence.value).toBeLessThan(
+        sameDay.confidence.value,
+      );
+      expect(
+        dayThirteen.confidence.band.high - dayThirteen.confidence.band.low,
+      ).toBeGreaterThan(
+        sameDay.confidence.band.high - sameDay.confidence.band.low,
+      );
+    });
+  });
+
+  describe("Partial scoring", () => {
+    const weather: Weather = {
+      datetime: "2025-06-01T12:00:00Z",
+      condition: "cloudy",
+      temperature: 21.5,
+      windSpeed: 2.5,
+      humidity: 50,
+      visibility: 20,
+      precipitationProbability: 0,
+      uvIndex: 3,
+    };
+    const stationary = { ...getScoringProfile(), cruisingSpeed: 0 };
+
+    test("refuses to score a missing factor unless allowed", () => {
+      expect(calculateTouringIndex(weather, stationary)).toEqual({
+        missingFactors: ["airQuality"],
+      });
+    });
+
+    test("rescales the score over the factors that are present", () => {
+      const result = calculateTouringIndex(weather, stationary, {
+        allowPartial: true,
+      });
+      if ("missingFactors" in result) throw new Error("expected a score");
+
+      // (15 + 20 + 15 + 10 + 5 + 10 + 5) of 95 points, rescaled to 100
+      expect(result.score).toBe(84);
+      expect(result.omittedFactors).toEqual(["airQuality"]);
+      expect(result.breakdown).not.toHaveProperty("airQuality");
+      expect(result.breakdown.weather).toBe(15.79);
+      expect(result.explanation.factors).not.toHaveProperty("airQuality");
+      expect(result.explanation.factors.weather?.maxPoints).toBeCloseTo(
+        31.58,
+        2,
+      );
+      expect(result.confidence.estimatedFactors).toContain("airQuality");
+    });
+
+    test("reports no omitted factors for a full score", () => {
+      const result = calculateTouringIndex(
+        { ...weather, airQuality: "low" },
+        stationary,
+        { allowPartial: true },
+      );
+      if ("missingFactors" in result) throw new Error("expected a score");
+
+      expect(result.omittedFactors).toEqual([]);
+      expect(result.breakdown).toHaveProperty("airQuality");
+    });
+  });
+
+  describe("Daylight", () => {
+    const weather: Weather = {
+      datetime: "2025-12-21T12:00:00+09:00",
+      condition: "clear",
+      temperature: 21.5,
+      windSpeed: 2.5,
+      humidity: 50,
+      visibility: 20,
+      precipitationProbability: 0,
+      uvIndex: 3,
+      airQuality: "low",
+      sunrise: "2025-12-21T06:47:00+09:00",
+      sunset: "2025-12-21T16:01:00+09:00",
+    };
+
+    test("reports the daylight window for the scored date", () => {
+      const result = calculateTouringIndex(weather);
+      if ("missingFactors" in result) throw new Error("expected a score");
+
+      expect(result.daylight).toEqual({
+        sunrise: "2025-12-21T06:47:00+09:00",
+        sunset: "2025-12-21T16:01:00+09:00",
+        hours: 9.2,
+        isDaylight: true,
+      });
+    });
+
+    test("penalizes riding after dark", () => {
+      const daytime = calculateTouringIndex(weather);
+      const night = calculateTouringIndex({
+        ...weather,
+        datetime: "2025-12-21T18:00:00+09:00",
+      });
+      if ("missingFactors" in daytime || "missingFactors" in night) {
+        throw new Error("expected a score");
+      }
+
+      expect(night.daylight?.isDaylight).toBe(false);
+      expect(night.hazards).toEqual([
+        { type: "darkness", severity: "moderate" },
+      ]);
+      expect(night.score).toBe(daytime.score - 20);
+    });
+
+    test("returns null daylight when sunrise/sunset is unknown", () => {
+      const { sunrise: _sunrise, sunset: _sunset, ...withoutAstro } = weather;
+      const result = calculateTouringIndex(withoutAstro);
+      if ("missingFactors" in result) throw new Error("expected a score");
+
+      expect(result.daylight).toBeNull();
+    });
+  });
+
   describe("Score Calculation Integration", () => {
     test("should ensure score never exceeds maximum (100)", () => {
       // Create weather with all maximum possible scores
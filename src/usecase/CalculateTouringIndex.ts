@@ -1,24 +1,100 @@
+import { apparentTemperature } from "../domain/ApparentTemperature";
 import {
-  airQualityScore,
-  humidityScore,
-  precipitationProbabilityScore,
-  temperatureScore,
-  uvIndexScore,
-  visibilityScore,
-  weatherScore,
-  windScore,
+  AFTER_DARK_SCORE_PENALTY,
+  type DaylightWindow,
+  getDaylightWindow,
+} from "../domain/Daylight";
+import { adjustTemperatureForElevation } from "../domain/Elevation";
+import {
+  assessForecastConfidence,
+  type ForecastConfidence,
+} from "../domain/ForecastConfidence";
+import {
+  applyHazardCap,
+  evaluateHazards,
+  type HazardFlag,
+} from "../domain/Hazard";
+import {
+  conditionPenalty,
+  evaluateAirQuality,
+  evaluateHumidity,
+  evaluatePrecipitation,
+  evaluateTemperature,
+  evaluateUvIndex,
+  evaluateVisibility,
+  evaluateWeather,
+  evaluateWind,
+  type FactorEvaluation,
+  type LocalizedText,
+  type RationaleUnits,
+  SCORING_RULES_VERSION,
 } from "../domain/ScoreRules";
 import {
+  getScoringProfile,
+  type ScoringProfile,
+  type ScoringProfileName,
+} from "../domain/ScoringProfile";
+import {
+  applyFactorWeights,
   calculateTouringScore,
+  type FactorWeights,
+  type TouringScoreFactor,
   type TouringScoreFactors,
+  withoutFactors,
 } from "../domain/TouringScore";
 import type { Weather } from "../domain/Weather";
+import { getJstDateString } from "../utils/dateUtils";
 
 export type MissingTouringIndexFactor = "visibility" | "airQuality";
 
+export type TouringTemperature = {
+  station: number; // °C, as forecast for the location
+  air: number; // °C, at the route elevation (the station value when not corrected)
+  apparent: number; // °C, felt at the cruising speed
+  cruisingSpeed: number; // km/h
+  elevation: number | null; // m, route elevation; null when not given
+  // m, elevation of the forecast point as reported by the provider; null when
+  // not reported, in which case the temperature is not corrected
+  forecastElevation: number | null;
+  // Whether `air` was corrected to the route elevation
+  elevationCorrected: boolean;
+};
+
+export type TouringDaylight = DaylightWindow & {
+  isDaylight: boolean; // Whether the scored datetime falls in the window
+};
+
+export type FactorExplanation = {
+  points: number; // Weighted subscore, as in the breakdown
+  maxPoints: number; // Points the factor is worth at full marks
+  input: number | string; // Raw value the factor was scored on
+  rationale: LocalizedText;
+};
+
+export type FactorDetractor = {
+  factor: TouringScoreFactor;
+  pointsLost: number;
+  rationale: LocalizedText;
+};
+
+export type TouringIndexExplanation = {
+  // Factors left out of a partial score are omitted
+  factors: Partial<Record<TouringScoreFactor, FactorExplanation>>;
+  topDetractors: FactorDetractor[]; // Largest losses first
+};
+
 export type CompleteTouringIndex = {
   score: number;
   breakdown: Record<string, number>;
+  explanation: TouringIndexExplanation;
+  confidence: ForecastConfidence;
+  temperature: TouringTemperature;
+  hazards: HazardFlag[];
+  daylight: TouringDaylight | null; // null when sunrise/sunset is unknown
+  // Factors left out of a partial score; empty for a full score
+  omittedFactors: MissingTouringIndexFactor[];
+  profile: ScoringProfileName;
+  rulesVersion: number; // SCORING_RULES_VERSION the score was calculated under
 };
 
 export type IncompleteTouringIndex = {
@@ -27,28 +103,220 @@ export type IncompleteTouringIndex = {
 
 export type TouringIndexResult = CompleteTouringIndex | IncompleteTouringIndex;
 
-export function calculateTouringIndex(weather: Weather): TouringIndexResult {
-  const { airQuality, visibility } = weather;
+export type CalculateTouringIndexOptions = {
+  now?: Date; // Calculation time, for the forecast lead time
+  // Score over the factors that are present instead of refusing when
+  // visibility or air quality is missing
+  allowPartial?: boolean;
+  // Elevation (m) of the route; the forecast temperature is corrected to it
+  // before scoring
+  elevation?: number;
+  // Units the rationale text quotes measured values in; metric when omitted
+  rationaleUnits?: RationaleUnits;
+};
+
+type EvaluatedFactor = FactorEvaluation & {
+  input: number | string; // Raw value the factor was scored on
+};
+
+// Number of factors reported as top detractors
+const TOP_DETRACTOR_COUNT = 3;
+
+function explainFactors(
+  evaluated: Partial<Record<TouringScoreFactor, EvaluatedFactor>>,
+  breakdown: Partial<TouringScoreFactors>,
+  weights: FactorWeights,
+): TouringIndexExplanation {
+  const factors: TouringIndexExplanation["factors"] = {};
+  for (const [factor, { input, rationale }] of Object.entries(evaluated) as [
+    TouringScoreFactor,
+    EvaluatedFactor,
+  ][]) {
+    factors[factor] = {
+      points: breakdown[factor] ?? 0,
+      maxPoints: weights[factor],
+      input,
+      rationale,
+    };
+  }
+
+  const topDetractors = (
+    Object.entries(factors) as [TouringScoreFactor, FactorExplanation][]
+  )
+    .map(([factor, { points, maxPoints, rationale }]) => ({
+      factor,
+      pointsLost: Math.round((maxPoints - points) * 100) / 100,
+      rationale,
+    }))
+    .filter((detractor) => detractor.pointsLost > 0)
+    .sort((a, b) => b.pointsLost - a.pointsLost)
+    .slice(0, TOP_DETRACTOR_COUNT);
+
+  return { factors, topDetractors };
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Whole JST calendar days from `now` to the weather's datetime
+function leadTimeDays(datetime: string, now: Date): number {
+  const target = getJstDateString(new Date(datetime));
+  const today = getJstDateString(now);
+  return (
+    (Date.parse(`${target}T00:00:00Z`) - Date.parse(`${today}T00:00:00Z`)) /
+    MS_PER_DAY
+  );
+}
+
+// Weather with the temperature corrected to the route elevation, so every
+// factor and hazard sees the temperature actually ridden in. Without the
+// forecast point's elevation there is nothing to correct from, so the
+// forecast is scored as is.
+function atRouteElevation(weather: Weather, elevation?: number): Weather {
+  if (elevation === undefined || weather.elevation === undefined) {
+    return weather;
+  }
+  return {
+    ...weather,
+    temperature: adjustTemperatureForElevation(
+      weather.temperature,
+      elevation,
+      weather.elevation,
+    ),
+  };
+}
+
+export function calculateTouringIndex(
+  forecast: Weather,
+  profile: ScoringProfile = getScoringProfile(),
+  options: CalculateTouringIndexOptions = {},
+): TouringIndexResult {
+  const weather = atRouteElevation(forecast, options.elevation);
+  const { airQuality, airQualityComponents, visibility } = weather;
   const missingFactors: MissingTouringIndexFactor[] = [];
   if (visibility === undefined) missingFactors.push("visibility");
-  if (airQuality === undefined) missingFactors.push("airQuality");
+  if (airQuality === undefined && airQualityComponents === undefined) {
+    missingFactors.push("airQuality");
+  }
 
-  if (missingFactors.length > 0) {
+  if (missingFactors.length > 0 && !options.allowPartial) {
     return { missingFactors };
   }
 
-  const breakdown = {
-    weather: weatherScore(weather.condition),
-    temperature: temperatureScore(weather.temperature),
-    wind: windScore(weather.windSpeed),
-    humidity: humidityScore(weather.humidity),
-    visibility: visibilityScore(visibility),
-    precipitationProbability: precipitationProbabilityScore(
-      weather.precipitationProbability,
+  const { thresholds, weights, cruisingSpeed } = profile;
+  const temperature: TouringTemperature = {
+    station: forecast.temperature,
+    air: weather.temperature,
+    apparent: apparentTemperature(
+      weather.temperature,
+      weather.humidity,
+      cruisingSpeed,
+    ),
+    cruisingSpeed,
+    elevation: options.elevation ?? null,
+    forecastElevation: forecast.elevation ?? null,
+    elevationCorrected:
+      options.elevation !== undefined && forecast.elevation !== undefined,
+  };
+  const evaluated: Partial<Record<TouringScoreFactor, EvaluatedFactor>> = {
+    weather: {
+      input: weather.condition,
+      ...evaluateWeather(weather.condition),
+    },
+    temperature: {
+      input: temperature.apparent,
+      ...evaluateTemperature(
+        temperature.apparent,
+        thresholds.temperature,
+        options.rationaleUnits,
+      ),
+    },
+    wind: {
+      input: weather.windSpeed,
+      ...evaluateWind(
+        weather.windSpeed,
+        thresholds.wind,
+        weather.windGust,
+        options.rationaleUnits,
+      ),
+    },
+    humidity: {
+      input: weather.humidity,
+      ...evaluateHumidity(weather.humidity, thresholds.humidity),
+    },
+    precipitationProbability: {
+      input: weather.precipitationProbability,
+      ...evaluatePrecipitation(
+        weather.precipitationProbability,
+        thresholds.precipitation,
+        weather.precipitation,
+        weather.recentPrecipitation,
+        options.rationaleUnits,
+      ),
+    },
+    uvIndex: {
+      input: weather.uvIndex,
+      ...evaluateUvIndex(weather.uvIndex, thresholds.uvIndex),
+    },
+  };
+  if (visibility !== undefined) {
+    evaluated.visibility = {
+      input: visibility,
+      ...evaluateVisibility(visibility, options.rationaleUnits),
+    };
+  }
+  if (!missingFactors.includes("airQuality")) {
+    evaluated.airQuality = {
+      // The legacy level, or PM2.5 when only concentrations are reported
+      input: airQuality ?? airQualityComponents?.pm25 ?? "unknown",
+      ...evaluateAirQuality(airQuality, airQualityComponents),
+    };
+  }
+
+  // A partial score rescales the weights over the factors that are present
+  const scoringWeights = withoutFactors(weights, missingFactors);
+  const factors = {} as TouringScoreFactors;
+  for (const factor of Object.keys(weights) as TouringScoreFactor[]) {
+    factors[factor] = evaluated[factor]?.score ?? 0;
+  }
+  // Conditions worse than rain and riding after dark cost fixed penalties,
+  // and severe hazards cap the score; the breakdown keeps the unadjusted
+  // subscores
+  const hazards = evaluateHazards(weather);
+  const window = getDaylightWindow(weather.sunrise, weather.sunset);
+  const isDaylight = !hazards.some((hazard) => hazard.type === "darkness");
+  const score = applyHazardCap(
+    Math.max(
+      0,
+      calculateTouringScore(factors, scoringWeights) -
+        conditionPenalty(weather.condition) -
+        (isDaylight ? 0 : AFTER_DARK_SCORE_PENALTY),
     ),
-    uvIndex: uvIndexScore(weather.uvIndex),
-    airQuality: airQualityScore(airQuality),
+    hazards,
+  );
+  const breakdown: Partial<TouringScoreFactors> = applyFactorWeights(
+    factors,
+    scoringWeights,
+  );
+  for (const factor of missingFactors) delete breakdown[factor];
+
+  // Confidence is judged against the profile weights, where left-out factors
+  // still carry weight, so each lowers it by half of its weight share
+  const confidence = assessForecastConfidence(
+    score,
+    weather,
+    weights,
+    leadTimeDays(weather.datetime, options.now ?? new Date()),
+  );
+  return {
+    score,
+    breakdown,
+    explanation: explainFactors(evaluated, breakdown, scoringWeights),
+    confidence,
+    temperature,
+    hazards,
+    daylight: window ? { ...window, isDaylight } : null,
+    omittedFactors: missingFactors,
+    profile: profile.name,
+    rulesVersion: SCORING_RULES_VERSION,
   };
-  const score = calculateTouringScore(breakdown as TouringScoreFactors);
-  return { score, breakdown };
 }
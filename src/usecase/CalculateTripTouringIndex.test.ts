@@ -0,0 +1,130 @@
+import { describe, expect, test } from "bun:test";
+import { SCORING_RULES_VERSION } from "../domain/ScoreRules";
+import { getScoringProfile } from "../domain/ScoringProfile";
+import type { Weather } from "../domain/Weather";
+import {
+  calculateTripTouringIndex,
+  type TripLegForecast,
+} from "./CalculateTripTouringIndex";
+
+const perfectWeather: Weather = {
+  datetime: "2025-06-01T03:00:00Z",
+  condition: "clear",
+  temperature: 21.5,
+  windSpeed: 2.5,
+  humidity: 50,
+  visibility: 20,
+  precipitationProbability: 0,
+  uvIndex: 3,
+  airQuality: "low",
+};
+
+const rainyWeather: Weather = {
+  ...perfectWeather,
+  condition: "rain",
+  precipitationProbability: 90,
+};
+
+function leg(
+  date: string,
+  forecast: Record<string, Weather>,
+  lat = 35.6762,
+): TripLegForecast {
+  return { lat, lon: 139.6503, date, forecast };
+}
+
+describe("calculateTripTouringIndex", () => {
+  test("should average leg scores and report the weakest leg", () => {
+    const result = calculateTripTouringIndex(
+      [
+        leg("2025-06-01", { "2025-06-01": perfectWeather }),
+        leg("2025-06-02", { "2025-06-02": rainyWeather }),
+        leg("2025-06-03", { "2025-06-03": rainyWeather }),
+      ],
+      getScoringProfile(),
+      { maxShiftDays: 0 },
+    );
+
+    if (!("legs" in result)) throw new Error("expected a trip score");
+    const [first, second, third] = result.legs.map((l) => l.score);
+    expect(first).toBe(100);
+    expect(second).toBe(third);
+    expect(result.score).toBe(
+      Math.round(((first + second + third) / 3) * 10) / 10,
+    );
+    expect(result.weakestLeg).toEqual({
+      index: 1,
+      date: "2025-06-02",
+      score: second,
+    });
+    expect(result.shiftSuggestions).toEqual([]);
+    expect(result.rulesVersion).toBe(SCORING_RULES_VERSION);
+  });
+
+  test("should suggest shifts that improve the aggregate, best first", () => {
+    const forecast = {
+      "2025-05-31": perfectWeather,
+      "2025-06-01": rainyWeather,
+      "2025-06-02": rainyWeather,
+      "2025-06-03": perfectWeather,
+      "2025-06-04": perfectWeather,
+    };
+
+    const result = calculateTripTouringIndex(
+      [leg("2025-06-01", forecast), leg("2025-06-02", forecast, 36.6513)],
+      getScoringProfile(),
+      { maxShiftDays: 3 },
+    );
+
+    if (!("legs" in result)) throw new Error("expected a trip score");
+    // +3 and -2 run past the forecast and are not suggested
+    expect(result.shiftSuggestions.map((s) => s.shiftDays)).toEqual([2, -1, 1]);
+    expect(result.shiftSuggestions[0]).toEqual({
+      shiftDays: 2,
+      startDate: "2025-06-03",
+      endDate: "2025-06-04",
+      score: 100,
+      improvement: Math.round((100 - result.score) * 10) / 10,
+    });
+  });
+
+  test("should report the first planned leg that cannot be scored", () => {
+    const { visibility: _visibility, ...noVisibility } = perfectWeather;
+
+    const result = calculateTripTouringIndex(
+      [
+        leg("2025-06-01", { "2025-06-01": perfectWeather }),
+        leg("2025-06-02", { "2025-06-02": noVisibility }),
+      ],
+      getScoringProfile(),
+      { maxShiftDays: 0 },
+    );
+
+    expect(result).toEqual({
+      legIndex: 1,
+      date: "2025-06-02",
+      missingFactors: ["visibility"],
+    });
+  });
+
+  test("should score partial legs when allowPartial is set", () => {
+    const { airQuality: _airQuality, ...noAirQuality } = perfectWeather;
+
+    const result = calculateTripTouringIndex(
+      [leg("2025-06-01", { "2025-06-01": noAirQuality })],
+      getScoringProfile(),
+      { maxShiftDays: 0, allowPartial: true },
+    );
+
+    if (!("legs" in result)) throw new Error("expected a trip score");
+    expect(result.legs[0].omittedFactors).toEqual(["airQuality"]);
+  });
+
+  test("should throw when a planned leg has no forecast", () => {
+    expect(() =>
+      calculateTripTouringIndex([leg("2025-06-01", {})], getScoringProfile(), {
+        maxShiftDays: 0,
+      }),
+    ).toThrow("Weather forecast is missing for a planned trip leg");
+  });
+});
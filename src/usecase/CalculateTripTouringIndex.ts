@@ -0,0 +1,192 @@
+import type { ForecastConfidence } from "../domain/ForecastConfidence";
+import type { HazardFlag } from "../domain/Hazard";
+import { SCORING_RULES_VERSION } from "../domain/ScoreRules";
+import {
+  getScoringProfile,
+  type ScoringProfile,
+} from "../domain/ScoringProfile";
+import type { Weather } from "../domain/Weather";
+import { addDaysToDateString } from "../utils/dateUtils";
+import {
+  type CalculateTouringIndexOptions,
+  type CompleteTouringIndex,
+  calculateTouringIndex,
+  type MissingTouringIndexFactor,
+} from "./CalculateTouringIndex";
+
+export type TripLegForecast = {
+  lat: number;
+  lon: number;
+  date: string; // YYYY-MM-DD, as planned
+  elevation?: number; // m, route elevation the temperature is corrected to
+  // Daily weather at the leg's location for every date a shifted trip may use
+  forecast: Record<string, Weather>;
+};
+
+export type TripLegScore = {
+  lat: number;
+  lon: number;
+  date: string;
+  score: number;
+  factors: Record<string, number>;
+  hazards: HazardFlag[];
+  confidence: ForecastConfidence;
+  omittedFactors: MissingTouringIndexFactor[]; // Left out of a partial score
+};
+
+export type TripWeakestLeg = {
+  index: number; // Position in the itinerary (0-based)
+  date: string;
+  score: number;
+};
+
+export type TripShiftSuggestion = {
+  shiftDays: number; // Negative moves the trip earlier
+  startDate: string;
+  endDate: string;
+  score: number; // Aggregate score of the shifted trip
+  improvement: number; // Points gained over the planned dates
+};
+
+export type TripTouringIndex = {
+  score: number; // Mean leg score, rounded to 1 decimal
+  legs: TripLegScore[];
+  weakestLeg: TripWeakestLeg;
+  shiftSuggestions: TripShiftSuggestion[]; // Best first
+  rulesVersion: number;
+};
+
+export type IncompleteTripTouringIndex = {
+  legIndex: number;
+  date: string;
+  missingFactors: MissingTouringIndexFactor[];
+};
+
+export type TripTouringIndexResult =
+  | TripTouringIndex
+  | IncompleteTripTouringIndex;
+
+export type CalculateTripTouringIndexOptions = Pick<
+  CalculateTouringIndexOptions,
+  "allowPartial"
+> & {
+  maxShiftDays: number; // Whole-trip shifts tried in each direction
+};
+
+// Number of shift suggestions returned
+const MAX_SHIFT_SUGGESTIONS = 3;
+
+function roundScore(score: number): number {
+  return Math.round(score * 10) / 10;
+}
+
+function aggregateScore(scores: number[]): number {
+  return roundScore(
+    scores.reduce((sum, score) => sum + score, 0) / scores.length,
+  );
+}
+
+// Score every leg shifted by `shiftDays`, or report the first leg that
+// has no forecast or cannot be scored
+function scoreLegs(
+  legs: TripLegForecast[],
+  shiftDays: number,
+  profile: ScoringProfile,
+  options: CalculateTripTouringIndexOptions,
+): CompleteTouringIndex[] | IncompleteTripTouringIndex | null {
+  const scored: CompleteTouringIndex[] = [];
+  for (const [legIndex, leg] of legs.entries()) {
+    const date = addDaysToDateString(leg.date, shiftDays);
+    const weather = leg.forecast[date];
+    if (!weather) return null;
+
+    const touringIndex = calculateTouringIndex(weather, profile, {
+      allowPartial: options.allowPartial,
+      elevation: leg.elevation,
+    });
+    if ("missingFactors" in touringIndex) {
+      return { legIndex, date, missingFactors: touringIndex.missingFactors };
+    }
+    scored.push(touringIndex);
+  }
+  return scored;
+}
+
+/**
+ * Score a multi-day itinerary leg by leg with the same pipeline as a single
+ * touring index, and look for a whole-trip shift of up to
+ * `options.maxShiftDays` days that raises the aggregate.
+ * - The aggregate is the mean leg score; the weakest leg is the lowest
+ *   (earliest on ties).
+ * - A shift is only suggested when every shifted leg has a forecast and can
+ *   be scored, and it beats the planned dates. Suggestions are ordered by
+ *   score, then by the smaller shift.
+ * @returns The trip score, or the first planned leg that cannot be scored
+ * @throws Error when a planned leg has no forecast for its date
+ */
+export function calculateTripTouringIndex(
+  legs: TripLegForecast[],
+  profile: ScoringProfile = getScoringProfile(),
+  options: CalculateTripTouringIndexOptions = { maxShiftDays: 0 },
+): TripTouringIndexResult {
+  const planned = scoreLegs(legs, 0, profile, options);
+  if (planned === null) {
+    throw new Error("Weather forecast is missing for a planned trip leg");
+  }
+  if (!Array.isArray(planned)) return planned;
+
+  const legScores: TripLegScore[] = planned.map((touringIndex, index) => ({
+    lat: legs[index].lat,
+    lon: legs[index].lon,
+    date: legs[index].date,
+    score: touringIndex.score,
+    factors: touringIndex.breakdown,
+    hazards: touringIndex.hazards,
+    confidence: touringIndex.confidence,
+    omittedFactors: touringIndex.omittedFactors,
+  }));
+  const score = aggregateScore(legScores.map((leg) => leg.score));
+
+  const weakestIndex = legScores.reduce(
+    (weakest, leg, index) =>
+      leg.score < legScores[weakest].score ? index : weakest,
+    0,
+  );
+
+  const shiftSuggestions: TripShiftSuggestion[] = [];
+  for (
+    let shift = -options.maxShiftDays;
+    shift <= options.maxShiftDays;
+    shift++
+  ) {
+    if (shift === 0) continue;
+    const shifted = scoreLegs(legs, shift, profile, options);
+    if (!Array.isArray(shifted)) continue;
+
+    const shiftedScore = aggregateScore(shifted.map((leg) => leg.score));
+    if (shiftedScore <= score) continue;
+    shiftSuggestions.push({
+      shiftDays: shift,
+      startDate: addDaysToDateString(legs[0].date, shift),
+      endDate: addDaysToDateString(legs[legs.length - 1].date, shift),
+      score: shiftedScore,
+      improvement: roundScore(shiftedScore - score),
+    });
+  }
+  shiftSuggestions.sort(
+    (a, b) =>
+      b.score - a.score || Math.abs(a.shiftDays) - Math.abs(b.shiftDays),
+  );
+
+  return {
+    score,
+    legs: legScores,
+    weakestLeg: {
+      index: weakestIndex,
+      date: legScores[weakestIndex].date,
+      score: legScores[weakestIndex].score,
+    },
+    shiftSuggestions: shiftSuggestions.slice(0, MAX_SHIFT_SUGGESTIONS),
+    rulesVersion: SCORING_RULES_VERSION,
+  };
+}
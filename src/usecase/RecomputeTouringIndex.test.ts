@@ -0,0 +1,194 @@
+import { describe, expect, mock, test } from "bun:test";
+import { SCORING_RULES_VERSION } from "../domain/ScoreRules";
+import type { Weather } from "../domain/Weather";
+import type { TouringIndexBatchItem } from "./BatchCalculateTouringIndex";
+import {
+  parseCalculatedAt,
+  type RecomputeCursor,
+  RecomputeTouringIndexUseCase,
+  type StoredTouringIndex,
+  type TouringIndexRecomputeRepository,
+} from "./RecomputeTouringIndex";
+
+const weather: Weather = {
+  datetime: "2024-06-03T12:00:00Z",
+  condition: "clear",
+  temperature: 21.5,
+  windSpeed: 2.5,
+  humidity: 50,
+  visibility: 20,
+  precipitationProbability: 0,
+  uvIndex: 3,
+  airQuality: "low",
+};
+
+function storedRow(overrides: Partial<StoredTouringIndex>): StoredTouringIndex {
+  return {
+    prefecture_id: 13,
+    date: "2024-06-03",
+    weather_raw_json: JSON.stringify(weather),
+    partial: 0,
+    rules_version: null,
+    calculated_at: "2024-06-01 19:00:00",
+    ...overrides,
+  };
+}
+
+function createRepository(rows: StoredTouringIndex[], remaining = 0) {
+  return {
+    getStaleTouringIndexes: mock(async () => rows),
+    countStaleTouringIndexes: mock(async () => remaining),
+    upsertTouringIndexes: mock(
+      async (items: TouringIndexBatchItem[]) => items.length,
+    ),
+  } satisfies TouringIndexRecomputeRepository;
+}
+
+describe("RecomputeTouringIndexUseCase", () => {
+  test("rescores stale rows from stored weather under the current rules", async () => {
+    const repository = createRepository([storedRow({})]);
+    const usecase = new RecomputeTouringIndexUseCase(repository);
+
+    const result = await usecase.execute({
+      startDate: "2024-06-01",
+      endDate: "2024-06-30",
+      limit: 50,
+    });
+
+    expect(result).toEqual({
+      rulesVersion: SCORING_RULES_VERSION,
+      processed: 1,
+      recomputed: 1,
+      failed: 0,
+      errors: [],
+      remaining: 0,
+      next: null,
+    });
+    expect(repository.getStaleTouringIndexes).toHaveBeenCalledWith(
+      SCORING_RULES_VERSION,
+      "2024-06-01",
+      "2024-06-30",
+      undefined,
+      50,
+    );
+
+    const [item] = repository.upsertTouringIndexes.mock.calls[0][0];
+    expect(item).toMatchObject({
+      prefecture_id: 13,
+      date: "2024-06-03",
+      score: 100,
+      partial: false,
+      rules_version: SCORING_RULES_VERSION,
+      weather_raw_json: JSON.stringify(weather),
+      calculated_at: "2024-06-01 19:00:00",
+    });
+    // Lead time is measured from the original calculation (JST 06-02)
+    expect(JSON.parse(item.confidence_json).leadTimeDays).toBe(1);
+  });
+
+  test("keeps partial rows partial", async () => {
+    const { airQuality: _, ...withoutAirQuality } = weather;
+    const repository = createRepository([
+      storedRow({
+        weather_raw_json: JSON.stringify(withoutAirQuality),
+        partial: 1,
+      }),
+    ]);
+
+    await new RecomputeTouringIndexUseCase(repository).execute({ limit: 10 });
+
+    const [item] = repository.upsertTouringIndexes.mock.calls[0][0];
+    expect(item.partial).toBe(true);
+    expect(JSON.parse(item.weather_factors_json).missingFactors).toEqual([
+      "airQuality",
+    ]);
+  });
+
+  test("reports rows whose stored weather cannot be rescored and leaves them", async () => {
+    const repository = createRepository(
+      [
+        storedRow({ weather_raw_json: "not json" }),
+        storedRow({ date: "2024-06-04", weather_raw_json: '{"foo":1}' }),
+      ],
+      2,
+    );
+
+    const result = await new RecomputeTouringIndexUseCase(repository).execute({
+      limit: 10,
+    });
+
+    expect(result.recomputed).toBe(0);
+    expect(result.failed).toBe(2);
+    expect(result.errors).toEqual([
+      {
+        prefecture_id: 13,
+        date: "2024-06-03",
+        error: "Stored weather is not valid JSON",
+      },
+      {
+        prefecture_id: 13,
+        date: "2024-06-04",
+        error: "Stored weather does not match the weather schema",
+      },
+    ]);
+    expect(result.remaining).toBe(2);
+    expect(repository.upsertTouringIndexes).not.toHaveBeenCalled();
+  });
+
+  test("pages past rows that keep failing", async () => {
+    const rows = [
+      storedRow({ prefecture_id: 1, weather_raw_json: "not json" }),
+      storedRow({ prefecture_id: 2, weather_raw_json: "not json" }),
+      storedRow({ prefecture_id: 3 }),
+    ];
+    const repository = {
+      ...createRepository([]),
+      getStaleTouringIndexes: mock(
+        async (
+          _rulesVersion: number,
+          _startDate: string | undefined,
+          _endDate: string | undefined,
+          after: RecomputeCursor | undefined,
+          limit: number,
+        ) =>
+          rows
+            .filter(
+              (row) =>
+                !after ||
+                row.date > after.date ||
+                (row.date === after.date &&
+                  row.prefecture_id > after.prefecture_id),
+            )
+            .slice(0, limit),
+      ),
+    } satisfies TouringIndexRecomputeRepository;
+    const usecase = new RecomputeTouringIndexUseCase(repository);
+
+    const first = await usecase.execute({ limit: 2 });
+    expect(first.failed).toBe(2);
+    expect(first.next).toEqual({ date: "2024-06-03", prefecture_id: 2 });
+
+    const second = await usecase.execute({
+      limit: 2,
+      after: first.next ?? undefined,
+    });
+    expect(second.recomputed).toBe(1);
+    expect(second.next).toBeNull();
+    const [item] = repository.upsertTouringIndexes.mock.calls[0][0];
+    expect(item.prefecture_id).toBe(3);
+  });
+});
+
+describe("parseCalculatedAt", () => {
+  test("reads SQLite datetimes as UTC", () => {
+    expect(parseCalculatedAt("2024-06-01 19:00:00").toISOString()).toBe(
+      "2024-06-01T19:00:00.000Z",
+    );
+  });
+
+  test("reads ISO 8601 timestamps with an offset", () => {
+    expect(parseCalculatedAt("2024-06-02T04:00:00+09:00").toISOString()).toBe(
+      "2024-06-01T19:00:00.000Z",
+    );
+  });
+});
@@ -0,0 +1,201 @@
+import { SCORING_RULES_VERSION } from "../domain/ScoreRules";
+import { WeatherSchema } from "../domain/Weather";
+import { logger } from "../utils/logger";
+import {
+  type TouringIndexBatchItem,
+  toTouringIndexBatchItem,
+} from "./BatchCalculateTouringIndex";
+import { calculateTouringIndex } from "./CalculateTouringIndex";
+
+export interface StoredTouringIndex {
+  prefecture_id: number;
+  date: string; // YYYY-MM-DD format
+  weather_raw_json: string;
+  partial: number; // SQLite boolean: 1 when scored without some factors
+  rules_version: number | null; // NULL for rows calculated before rules were versioned
+  calculated_at: string;
+}
+
+// Position in the (date, prefecture_id) order stale rows are recomputed in
+export interface RecomputeCursor {
+  date: string; // YYYY-MM-DD format
+  prefecture_id: number;
+}
+
+export interface TouringIndexRecomputeRepository {
+  getStaleTouringIndexes(
+    rulesVersion: number,
+    startDate: string | undefined,
+    endDate: string | undefined,
+    after: RecomputeCursor | undefined,
+    limit: number,
+  ): Promise<StoredTouringIndex[]>;
+  countStaleTouringIndexes(
+    rulesVersion: number,
+    startDate: string | undefined,
+    endDate: string | undefined,
+  ): Promise<number>;
+  upsertTouringIndexes(items: TouringIndexBatchItem[]): Promise<number>;
+}
+
+export interface RecomputeInput {
+  startDate?: string; // YYYY-MM-DD, inclusive; unbounded when omitted
+  endDate?: string; // YYYY-MM-DD, inclusive; unbounded when omitted
+  limit: number; // Maximum rows recomputed in one run
+  after?: RecomputeCursor; // Resume after this row; from the first when omitted
+}
+
+export interface RecomputeResult {
+  rulesVersion: number;
+  processed: number;
+  recomputed: number;
+  failed: number;
+  errors: Array<{
+    prefecture_id: number;
+    date: string;
+    error: string;
+  }>;
+  // Stale rows left in the range afterwards, including ones that failed
+  remaining: number;
+  // Last row processed, to pass as `after` for the next page; null once the
+  // range is exhausted
+  next: RecomputeCursor | null;
+}
+
+// calculated_at defaults to SQLite's "YYYY-MM-DD HH:MM:SS" (UTC, no offset)
+// but may also hold a full ISO 8601 timestamp
+export function parseCalculatedAt(value: string): Date {
+  return /(Z|[+-]\d{2}:\d{2})$/.test(value)
+    ? new Date(value)
+    : new Date(`${value.replace(" ", "T")}Z`);
+}
+
+export class RecomputeTouringIndexUseCase {
+  constructor(private repository: TouringIndexRecomputeRepository) {}
+
+  /**
+   * Re-derive stored scores calculated under an older rule set from their
+   * stored raw weather, under the current SCORING_RULES_VERSION. No weather
+   * is fetched. Each row keeps its calculated_at, so its forecast lead time
+   * and scheduled-run coverage are unchanged, and a partial row stays
+   * partial. Rows whose stored weather cannot be rescored are reported and
+   * left as they are; paging on with `next` skips past them.
+   */
+  async execute(input: RecomputeInput): Promise<RecomputeResult> {
+    const { startDate, endDate, limit, after } = input;
+    const context = {
+      operation: "recompute_touring_index",
+      rulesVersion: SCORING_RULES_VERSION,
+      startDate,
+      endDate,
+      limit,
+      after,
+    };
+
+    logger.info("Starting touring index recomputation", context);
+
+    const rows = await this.repository.getStaleTouringIndexes(
+      SCORING_RULES_VERSION,
+      startDate,
+      endDate,
+      after,
+      limit,
+    );
+
+    const items: TouringIndexBatchItem[] = [];
+    const errors: RecomputeResult["errors"] = [];
+
+    for (const row of rows) {
+      const outcome = recomputeRow(row);
+      if ("error" in outcome) {
+        errors.push({
+          prefecture_id: row.prefecture_id,
+          date: row.date,
+          error: outcome.error,
+        });
+      } else {
+        items.push(outcome.item);
+      }
+    }
+
+    const recomputed =
+      items.length > 0 ? await this.repository.upsertTouringIndexes(items) : 0;
+    const remaining = await this.repository.countStaleTouringIndexes(
+      SCORING_RULES_VERSION,
+      startDate,
+      endDate,
+    );
+
+    const result: RecomputeResult = {
+      rulesVersion: SCORING_RULES_VERSION,
+      processed: rows.length,
+      recomputed,
+      failed: errors.length,
+      errors,
+      remaining,
+      next: nextCursor(rows, limit),
+    };
+
+    logger.info("Touring index recomputation completed", {
+      ...context,
+      operation: "recompute_touring_index_completed",
+      processed: result.processed,
+      recomputed: result.recomputed,
+      failed: result.failed,
+      remaining: result.remaining,
+    });
+
+    return result;
+  }
+}
+
+// A short page means no stale rows are left after it
+function nextCursor(
+  rows: StoredTouringIndex[],
+  limit: number,
+): RecomputeCursor | null {
+  const last = rows.at(-1);
+  return last && rows.length >= limit
+    ? { date: last.date, prefecture_id: last.prefecture_id }
+    : null;
+}
+
+function recomputeRow(
+  row: StoredTouringIndex,
+): { item: TouringIndexBatchItem } | { error: string } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(row.weather_raw_json);
+  } catch {
+    return { error: "Stored weather is not valid JSON" };
+  }
+
+  const weather = WeatherSchema.safeParse(raw);
+  if (!weather.success) {
+    return { error: "Stored weather does not match the weather schema" };
+  }
+
+  const touringIndex = calculateTouringIndex(weather.data, undefined, {
+    now: parseCalculatedAt(row.calculated_at),
+    allowPartial: Boolean(row.partial),
+  });
+  if ("missingFactors" in touringIndex) {
+    return {
+      error: `Incomplete weather data: ${touringIndex.missingFactors.join(", ")}`,
+    };
+  }
+
+  return {
+    item: {
+      ...toTouringIndexBatchItem(
+        row.prefecture_id,
+        row.date,
+        weather.data,
+        touringIndex,
+      ),
+      // The stored observation is kept verbatim
+      weather_raw_json: row.weather_raw_json,
+      calculated_at: row.calculated_at,
+    },
+  };
+}
@@ -7,6 +7,7 @@ export interface ScheduledRunRecord {
   status: ScheduledRunStatus;
   expectedCount: number;
   committedCount: number;
+  partialScoreCount?: number; // Committed rows scored without some factors
   failureCount: number;
   durationMs: number;
   errorSummary?: string;
@@ -23,6 +24,7 @@ export interface RecordOutcomeInput {
   finishedAt: string;
   expectedCount: number;
   committedCount: number;
+  partialScoreCount?: number;
   failureCount: number;
   durationMs: number;
   errorSummary?: string;
@@ -0,0 +1,75 @@
+import { describe, expect, mock, test } from "bun:test";
+import type { ScoreDistribution } from "../domain/ScoreClimatology";
+import { SCORING_RULES_VERSION } from "../domain/ScoreRules";
+import { getJstDateString } from "../utils/dateUtils";
+import {
+  type MonthlyScoreCount,
+  RefreshScoreClimatologyUseCase,
+  type ScoreClimatologyRepository,
+} from "./RefreshScoreClimatology";
+
+function createRepository(counts: MonthlyScoreCount[]) {
+  return {
+    getMonthlyScoreCounts: mock(async () => counts),
+    replaceScoreDistributions: mock(
+      async (_rulesVersion: number, distributions: ScoreDistribution[]) =>
+        distributions.length,
+    ),
+    getScoreDistributions: mock(async () => []),
+  } satisfies ScoreClimatologyRepository;
+}
+
+describe("RefreshScoreClimatologyUseCase", () => {
+  test("rebuilds one distribution per prefecture and month", async () => {
+    const repository = createRepository([
+      { prefecture_id: 2, month: 2, score: 60, count: 4 },
+      { prefecture_id: 2, month: 2, score: 70, count: 1 },
+      { prefecture_id: 2, month: 3, score: 80, count: 2 },
+      { prefecture_id: 14, month: 2, score: 50, count: 3 },
+    ]);
+
+    const result = await new RefreshScoreClimatologyUseCase(
+      repository,
+    ).execute();
+
+    expect(result).toEqual({
+      rulesVersion: SCORING_RULES_VERSION,
+      distributions: 3,
+      sampleCount: 10,
+    });
+    expect(repository.getMonthlyScoreCounts).toHaveBeenCalledWith(
+      SCORING_RULES_VERSION,
+      getJstDateString(),
+    );
+
+    const [rulesVersion, distributions] =
+      repository.replaceScoreDistributions.mock.calls[0];
+    expect(rulesVersion).toBe(SCORING_RULES_VERSION);
+    expect(
+      distributions.map(({ prefectureId, month, sampleCount }) => ({
+        prefectureId,
+        month,
+        sampleCount,
+      })),
+    ).toEqual([
+      { prefectureId: 2, month: 2, sampleCount: 5 },
+      { prefectureId: 2, month: 3, sampleCount: 2 },
+      { prefectureId: 14, month: 2, sampleCount: 3 },
+    ]);
+    expect(distributions[0].histogram[60]).toBe(4);
+  });
+
+  test("clears the distributions when there is no history", async () => {
+    const repository = createRepository([]);
+
+    const result = await new RefreshScoreClimatologyUseCase(
+      repository,
+    ).execute();
+
+    expect(result.distributions).toBe(0);
+    expect(repository.replaceScoreDistributions).toHaveBeenCalledWith(
+      SCORING_RULES_VERSION,
+      [],
+    );
+  });
+});
@@ -0,0 +1,99 @@
+import {
+  buildScoreDistribution,
+  type ScoreDistribution,
+} from "../domain/ScoreClimatology";
+import { SCORING_RULES_VERSION } from "../domain/ScoreRules";
+import { getJstDateString } from "../utils/dateUtils";
+import { logger } from "../utils/logger";
+
+export interface MonthlyScoreCount {
+  prefecture_id: number;
+  month: number; // 1-12
+  score: number; // Rounded score
+  count: number;
+}
+
+export interface ScoreClimatologyRepository {
+  getMonthlyScoreCounts(
+    rulesVersion: number,
+    beforeDate: string,
+  ): Promise<MonthlyScoreCount[]>;
+  replaceScoreDistributions(
+    rulesVersion: number,
+    distributions: ScoreDistribution[],
+  ): Promise<number>;
+  getScoreDistributions(
+    prefectureId: number,
+    rulesVersion: number,
+  ): Promise<ScoreDistribution[]>;
+}
+
+export interface RefreshClimatologyResult {
+  rulesVersion: number;
+  distributions: number; // Prefecture-months stored
+  sampleCount: number; // Days the distributions were built from
+}
+
+export class RefreshScoreClimatologyUseCase {
+  constructor(private repository: ScoreClimatologyRepository) {}
+
+  /**
+   * Rebuild every prefecture's per-month score distribution from stored
+   * daily scores. Only days before today (JST) calculated under the current
+   * SCORING_RULES_VERSION count, so forecasts still being revised and
+   * scores from older rule sets are left out. The stored distributions are
+   * replaced as a whole.
+   */
+  async execute(): Promise<RefreshClimatologyResult> {
+    const today = getJstDateString();
+    const context = {
+      operation: "refresh_score_climatology",
+      rulesVersion: SCORING_RULES_VERSION,
+      beforeDate: today,
+    };
+
+    logger.info("Starting score climatology refresh", context);
+
+    const counts = await this.repository.getMonthlyScoreCounts(
+      SCORING_RULES_VERSION,
+      today,
+    );
+
+    const grouped = new Map<string, MonthlyScoreCount[]>();
+    for (const row of counts) {
+      const key = `${row.prefecture_id}-${row.month}`;
+      const group = grouped.get(key);
+      if (group) {
+        group.push(row);
+      } else {
+        grouped.set(key, [row]);
+      }
+    }
+
+    const distributions = [...grouped.values()].map((group) =>
+      buildScoreDistribution(group[0].prefecture_id, group[0].month, group),
+    );
+    const stored = await this.repository.replaceScoreDistributions(
+      SCORING_RULES_VERSION,
+      distributions,
+    );
+
+    const result: RefreshClimatologyResult = {
+      rulesVersion: SCORING_RULES_VERSION,
+      distributions: stored,
+      sampleCount: distributions.reduce(
+        (sum, distribution) => sum + distribution.sampleCount,
+        0,
+      ),
+    };
+
+    logger.info("Score climatology refresh completed", {
+      ...context,
+      operation: "refresh_score_climatology_completed",
+      distributions: result.distributions,
+      sampleCount: result.sampleCount,
+    });
+
+    return result;
+  }
+}
@@ -2,6 +2,7 @@ import { describe, expect, test } from "bun:test";
 import { APP_CONFIG } from "../constants/appConfig";
 import {
   addDaysToDateString,
+  formatJstDatetime,
   getJstDateString,
   validateBatchStartDate,
   validateDateRange,
@@ -197,4 +198,18 @@ describe("dateUtils", () => {
       );
     });
   });
+
+  describe("formatJstDatetime", () => {
+    test("should format an instant with a +09:00 offset", () => {
+      expect(formatJstDatetime(new Date("2024-06-01T03:00:00Z"))).toBe(
+        "2024-06-01T12:00:00+09:00",
+      );
+    });
+
+    test("should roll over to the next JST date", () => {
+      expect(formatJstDatetime(new Date("2024-06-01T15:00:00Z"))).toBe(
+        "2024-06-02T00:00:00+09:00",
+      );
+    });
+  });
 });
@@ -12,6 +12,29 @@ export function getJstDateString(date: Date = new Date()): string {
   }).format(date);
 }
 
+/**
+ * Format an instant as an ISO 8601 datetime in the app's business timezone
+ * (Asia/Tokyo), e.g. "2025-06-01T12:00:00+09:00".
+ * @param date Instant to format
+ * @returns ISO 8601 datetime string with a +09:00 offset
+ */
+export function formatJstDatetime(date: Date): string {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone: APP_CONFIG.DEFAULT_TIMEZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  const value = (type: string) =>
+    parts.find((part) => part.type === type)?.value;
+
+  return `${value("year")}-${value("month")}-${value("day")}T${value("hour")}:${value("minute")}:${value("second")}+09:00`;
+}
+
 /**
  * Add a number of calendar days to a YYYY-MM-DD date string using pure UTC
  * arithmetic, so the result never depends on the runtime's local timezone.
@@ -0,0 +1,101 @@
+import { describe, expect, test } from "bun:test";
+import type { Weather } from "../domain/Weather";
+import {
+  convertCruisingSpeed,
+  convertDistance,
+  convertElevation,
+  convertPrecipitation,
+  convertTemperature,
+  convertWeather,
+  convertWindSpeed,
+  getRationaleUnits,
+  getUnitLabels,
+} from "./unitUtils";
+
+const weather: Weather = {
+  datetime: "2025-06-01T12:00:00+09:00",
+  condition: "clear",
+  temperature: 21.5,
+  windSpeed: 2.5,
+  windGust: 5,
+  windDirection: 225,
+  humidity: 50,
+  visibility: 20,
+  precipitationProbability: 10,
+  precipitation: 12.7,
+  uvIndex: 3,
+  airQuality: "low",
+  elevation: 1000,
+};
+
+describe("unitUtils", () => {
+  test("should leave metric values unchanged", () => {
+    expect(convertTemperature(21.37)).toBe(21.37);
+    expect(convertWindSpeed(2.53)).toBe(2.53);
+    expect(convertWeather(weather, "metric")).toBe(weather);
+  });
+
+  test("should convert wind to km/h for metric_kmh only", () => {
+    expect(convertWindSpeed(2.5, "metric_kmh")).toBe(9);
+    expect(convertTemperature(21.5, "metric_kmh")).toBe(21.5);
+    expect(convertCruisingSpeed(80, "metric_kmh")).toBe(80);
+  });
+
+  test("should convert to imperial units", () => {
+    expect(convertTemperature(21.5, "imperial")).toBe(70.7);
+    expect(convertTemperature(-40, "imperial")).toBe(-40);
+    expect(convertWindSpeed(10, "imperial")).toBe(22.4);
+    expect(convertCruisingSpeed(80, "imperial")).toBe(49.7);
+    expect(convertDistance(20, "imperial")).toBe(12.4);
+    expect(convertPrecipitation(12.7, "imperial")).toBe(0.5);
+    expect(convertElevation(1000, "imperial")).toBe(3281);
+    expect(convertElevation(1000, "metric_kmh")).toBe(1000);
+  });
+
+  test("should convert every unit-bearing weather field", () => {
+    expect(convertWeather(weather, "imperial")).toMatchObject({
+      temperature: 70.7,
+      windSpeed: 5.6,
+      windGust: 11.2,
+      windDirection: 225,
+      humidity: 50,
+      visibility: 12.4,
+      precipitationProbability: 10,
+      precipitation: 0.5,
+      recentPrecipitation: undefined,
+      elevation: 3281,
+    });
+  });
+
+  test("should declare the labels of each unit system", () => {
+    expect(getUnitLabels()).toEqual({
+      system: "metric",
+      temperature: "°C",
+      windSpeed: "m/s",
+      cruisingSpeed: "km/h",
+      visibility: "km",
+      precipitation: "mm",
+      elevation: "m",
+    });
+    expect(getUnitLabels("metric_kmh").windSpeed).toBe("km/h");
+    expect(getUnitLabels("imperial")).toMatchObject({
+      temperature: "°F",
+      windSpeed: "mph",
+      visibility: "mi",
+    });
+  });
+
+  test("should quote rationale values in the requested units", () => {
+    const imperial = getRationaleUnits("imperial");
+
+    expect(imperial.temperature(20)).toBe("68");
+    expect(imperial.temperatureDifference(5)).toBe("9");
+    expect(imperial.windSpeed(10)).toBe("22.4");
+    expect(imperial.visibility(16.1)).toBe("10");
+    expect(imperial.precipitation(12.7)).toBe("0.5");
+    expect(imperial.precipitation(0.5)).toBe("0.02");
+    expect(imperial.labels.windSpeed).toBe("mph");
+    expect(getRationaleUnits("metric_kmh").windSpeed(10)).toBe("36");
+    expect(getRationaleUnits().windSpeed(10)).toBe("10");
+  });
+});
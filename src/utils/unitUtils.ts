@@ -0,0 +1,215 @@
+import { z } from "zod";
+import {
+  METRIC_RATIONALE_UNITS,
+  type RationaleUnits,
+} from "../domain/ScoreRules";
+import type { Weather } from "../domain/Weather";
+import type { WeatherEnsemble } from "../domain/WeatherEnsemble";
+
+/**
+ * Unit systems a response can be expressed in. Values are calculated in
+ * metric and converted only when the response is built.
+ * - 'metric': °C, m/s, km, mm (default)
+ * - 'metric_kmh': metric with wind in km/h
+ * - 'imperial': °F, mph, miles, inches
+ */
+export const UnitSystemSchema = z.enum(["metric", "metric_kmh", "imperial"]);
+export type UnitSystem = z.infer<typeof UnitSystemSchema>;
+
+export interface UnitLabels {
+  system: UnitSystem;
+  temperature: "°C" | "°F";
+  windSpeed: "m/s" | "km/h" | "mph";
+  cruisingSpeed: "km/h" | "mph";
+  visibility: "km" | "mi";
+  precipitation: "mm" | "in";
+  elevation: "m" | "ft";
+}
+
+const UNIT_LABELS: Record<UnitSystem, UnitLabels> = {
+  metric: {
+    system: "metric",
+    temperature: "°C",
+    windSpeed: "m/s",
+    cruisingSpeed: "km/h",
+    visibility: "km",
+    precipitation: "mm",
+    elevation: "m",
+  },
+  metric_kmh: {
+    system: "metric_kmh",
+    temperature: "°C",
+    windSpeed: "km/h",
+    cruisingSpeed: "km/h",
+    visibility: "km",
+    precipitation: "mm",
+    elevation: "m",
+  },
+  imperial: {
+    system: "imperial",
+    temperature: "°F",
+    windSpeed: "mph",
+    cruisingSpeed: "mph",
+    visibility: "mi",
+    precipitation: "in",
+    elevation: "ft",
+  },
+};
+
+const KM_PER_MILE = 1.609344;
+const MM_PER_INCH = 25.4;
+const M_PER_FOOT = 0.3048;
+
+const round = (value: number, decimals: number): number =>
+  Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+/**
+ * Unit labels declared alongside converted values.
+ */
+export function getUnitLabels(units: UnitSystem = "metric"): UnitLabels {
+  return UNIT_LABELS[units];
+}
+
+/**
+ * Convert a temperature from °C. Converted values are rounded to 1 decimal;
+ * metric values pass through unchanged.
+ */
+export function convertTemperature(
+  celsius: number,
+  units: UnitSystem = "metric",
+): number {
+  return units === "imperial" ? round((celsius * 9) / 5 + 32, 1) : celsius;
+}
+
+/**
+ * Convert a wind speed from m/s.
+ */
+export function convertWindSpeed(
+  metersPerSecond: number,
+  units: UnitSystem = "metric",
+): number {
+  if (units === "metric_kmh") return round(metersPerSecond * 3.6, 1);
+  if (units === "imperial") {
+    return round((metersPerSecond * 3.6) / KM_PER_MILE, 1);
+  }
+  return metersPerSecond;
+}
+
+/**
+ * Convert a road speed from km/h (km/h in both metric systems).
+ */
+export function convertCruisingSpeed(
+  kmh: number,
+  units: UnitSystem = "metric",
+): number {
+  return units === "imperial" ? round(kmh / KM_PER_MILE, 1) : kmh;
+}
+
+/**
+ * Convert a distance from km.
+ */
+export function convertDistance(
+  km: number,
+  units: UnitSystem = "metric",
+): number {
+  return units === "imperial" ? round(km / KM_PER_MILE, 1) : km;
+}
+
+/**
+ * Convert a precipitation amount from mm (inches to 2 decimals).
+ */
+export function convertPrecipitation(
+  mm: number,
+  units: UnitSystem = "metric",
+): number {
+  return units === "imperial" ? round(mm / MM_PER_INCH, 2) : mm;
+}
+
+/**
+ * Convert an elevation from m (feet to whole feet).
+ */
+export function convertElevation(
+  meters: number,
+  units: UnitSystem = "metric",
+): number {
+  return units === "imperial" ? round(meters / M_PER_FOOT, 0) : meters;
+}
+
+/**
+ * Units for the rationale text of a touring index expressed in `units`.
+ * Quoted values are rounded like converted ones: 1 decimal, inches to 2.
+ */
+export function getRationaleUnits(
+  units: UnitSystem = "metric",
+): RationaleUnits {
+  if (units === "metric") return METRIC_RATIONALE_UNITS;
+
+  const text = (value: number, decimals = 1) => String(round(value, decimals));
+  return {
+    temperature: (celsius) => text(convertTemperature(celsius, units)),
+    // A difference scales without the °F offset
+    temperatureDifference: (celsius) =>
+      text(units === "imperial" ? (celsius * 9) / 5 : celsius),
+    windSpeed: (metersPerSecond) =>
+      text(convertWindSpeed(metersPerSecond, units)),
+    visibility: (km) => text(convertDistance(km, units)),
+    precipitation: (mm) =>
+      text(convertPrecipitation(mm, units), units === "imperial" ? 2 : 1),
+    labels: getUnitLabels(units),
+  };
+}
+
+/**
+ * Express an ensemble's disagreement in `units`. Spreads are differences,
+ * so temperature is scaled without the °F offset.
+ */
+export function convertEnsemble(
+  ensemble: WeatherEnsemble,
+  units: UnitSystem = "metric",
+): WeatherEnsemble {
+  if (units === "metric") return ensemble;
+
+  const { disagreement } = ensemble;
+  return {
+    ...ensemble,
+    disagreement: {
+      ...disagreement,
+      temperature:
+        units === "imperial"
+          ? round((disagreement.temperature * 9) / 5, 1)
+          : disagreement.temperature,
+      windSpeed: convertWindSpeed(disagreement.windSpeed, units),
+    },
+  };
+}
+
+/**
+ * Express a weather observation in `units`. Fields without a unit, or
+ * measured in %, degrees or µg/m³, are left as they are.
+ */
+export function convertWeather(
+  weather: Weather,
+  units: UnitSystem = "metric",
+): Weather {
+  if (units === "metric") return weather;
+
+  const optional = (
+    value: number | undefined,
+    convert: (value: number, units: UnitSystem) => number,
+  ) => (value === undefined ? undefined : convert(value, units));
+
+  return {
+    ...weather,
+    temperature: convertTemperature(weather.temperature, units),
+    windSpeed: convertWindSpeed(weather.windSpeed, units),
+    windGust: optional(weather.windGust, convertWindSpeed),
+    visibility: optional(weather.visibility, convertDistance),
+    precipitation: optional(weather.precipitation, convertPrecipitation),
+    recentPrecipitation: optional(
+      weather.recentPrecipitation,
+      convertPrecipitation,
+    ),
+    elevation: optional(weather.elevation, convertElevation),
+    ensemble: weather.ensemble && convertEnsemble(weather.ensemble, units),
+  };
+}
@@ -1,5 +1,15 @@
 import { describe, expect, test } from "bun:test";
-import { weatherScore } from "../../src/domain/ScoreRules";
+import {
+  conditionPenalty,
+  evaluatePrecipitation,
+  evaluateTemperature,
+  evaluateWeather,
+  evaluateWind,
+  precipitationProbabilityScore,
+  roadWetnessPenalty,
+  weatherScore,
+  windScore,
+} from "../../src/domain/ScoreRules";
 
 describe("weatherScore", () => {
   test("clear returns 30", () => {
@@ -34,6 +44,13 @@ describe("weatherScore", () => {
     expect(weatherScore("rain")).toBe(0);
   });
 
+  test("conditions worse than rain return 0", () => {
+    expect(weatherScore("heavy_rain")).toBe(0);
+    expect(weatherScore("sleet")).toBe(0);
+    expect(weatherScore("thunderstorm")).toBe(0);
+    expect(weatherScore("freezing_rain")).toBe(0);
+  });
+
   test("snow returns 0", () => {
     expect(weatherScore("snow")).toBe(0);
   });
@@ -47,3 +64,119 @@ describe("weatherScore", () => {
     expect(weatherScore("drizzle")).toBeLessThan(weatherScore("overcast"));
   });
 });
+
+describe("conditionPenalty", () => {
+  test("grades conditions worse than rain", () => {
+    expect(conditionPenalty("heavy_rain")).toBe(5);
+    expect(conditionPenalty("sleet")).toBe(10);
+    expect(conditionPenalty("thunderstorm")).toBe(15);
+    expect(conditionPenalty("freezing_rain")).toBe(20);
+  });
+
+  test("is 0 for every other condition", () => {
+    expect(conditionPenalty("clear")).toBe(0);
+    expect(conditionPenalty("rain")).toBe(0);
+    expect(conditionPenalty("snow")).toBe(0);
+  });
+});
+
+describe("windScore", () => {
+  test("ideal breeze without gust data returns 15", () => {
+    expect(windScore(3)).toBe(15);
+  });
+
+  test("gusts within tolerance of the mean keep full points", () => {
+    expect(windScore(3, undefined, 6)).toBe(15);
+  });
+
+  test("gustiness beyond tolerance deducts points", () => {
+    // 8 m/s gap - 3 m/s tolerance = 5 m/s × 1.5 points
+    expect(windScore(3, undefined, 11)).toBe(8);
+  });
+
+  test("very gusty conditions bottom out at 0", () => {
+    expect(windScore(3, undefined, 20)).toBe(0);
+  });
+
+  test("wind above tolerable max returns 0 regardless of gusts", () => {
+    expect(windScore(8, undefined, 8)).toBe(0);
+  });
+});
+
+describe("precipitationProbabilityScore", () => {
+  test("deducts 1 point per 10% chance without an amount", () => {
+    expect(precipitationProbabilityScore(30)).toBe(7);
+  });
+
+  test("a trace amount halves the probability deduction", () => {
+    expect(precipitationProbabilityScore(60, undefined, 0.2)).toBe(7);
+  });
+
+  test("a heavy amount increases the probability deduction by half", () => {
+    expect(precipitationProbabilityScore(60, undefined, 12)).toBe(1);
+  });
+
+  test("wet roads from preceding rain deduct points", () => {
+    expect(precipitationProbabilityScore(0, undefined, 0, 2)).toBe(8);
+    expect(precipitationProbabilityScore(0, undefined, 0, 6)).toBe(6);
+  });
+
+  test("never drops below 0", () => {
+    expect(precipitationProbabilityScore(100, undefined, 20, 30)).toBe(0);
+  });
+});
+
+describe("roadWetnessPenalty", () => {
+  test("is 0 when preceding rainfall is unknown or negligible", () => {
+    expect(roadWetnessPenalty()).toBe(0);
+    expect(roadWetnessPenalty(0.5)).toBe(0);
+  });
+
+  test("grows with preceding rainfall", () => {
+    expect(roadWetnessPenalty(1)).toBe(2);
+    expect(roadWetnessPenalty(5)).toBe(4);
+  });
+});
+
+describe("evaluate functions", () => {
+  test("return the same score as the matching score function", () => {
+    expect(evaluateWeather("fog").score).toBe(weatherScore("fog"));
+    expect(evaluateWind(6, undefined, 12).score).toBe(
+      windScore(6, undefined, 12),
+    );
+    expect(evaluatePrecipitation(40, undefined, 12, 2).score).toBe(
+      precipitationProbabilityScore(40, undefined, 12, 2),
+    );
+  });
+
+  test("explain wind above the safe threshold in both languages", () => {
+    expect(evaluateWind(8.2).rationale).toEqual({
+      ja: "風速8.2 m/sは安全基準の7 m/sを超えています",
+      en: "Wind 8.2 m/s exceeds safe threshold of 7 m/s",
+    });
+  });
+
+  test("mention gusts only when they cost points", () => {
+    expect(evaluateWind(3, undefined, 5).rationale.en).not.toContain("gust");
+    expect(evaluateWind(3, undefined, 10).rationale.en).toContain(
+      "gusts of 10 m/s",
+    );
+  });
+
+  test("explain the temperature deviation from the ideal", () => {
+    expect(evaluateTemperature(16.5).rationale.en).toBe(
+      "Feels like 16.5°C, 5°C colder than the ideal 21.5°C",
+    );
+    expect(evaluateTemperature(21.5).rationale.en).toBe(
+      "Feels like 21.5°C, close to the ideal 21.5°C",
+    );
+  });
+
+  test("explain precipitation amount and wet roads", () => {
+    const { rationale } = evaluatePrecipitation(40, undefined, 12, 6);
+    expect(rationale.en).toBe(
+      "40% chance of rain; heavy at 12 mm; roads still wet from 6 mm of earlier rain",
+    );
+    expect(rationale.ja).toContain("降水確率40%");
+  });
+});